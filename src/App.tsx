@@ -7,8 +7,13 @@ import ProfileSetup from './components/ProfileSetup'
 import Auth from './pages/Auth'
 import Dashboard from './pages/Dashboard'
 import DonateSurplus from './pages/DonateSurplus'
+import DonationDetail from './pages/DonationDetail'
+import DonationHistory from './pages/DonationHistory'
+import ImportDonations from './pages/ImportDonations'
 import IncomingRequests from './pages/IncomingRequests'
 import MyPickups from './pages/MyPickups'
+import Profile from './pages/Profile'
+import Schedules from './pages/Schedules'
 
 function AppContent() {
   const { user, profile, loading } = useAuth()
@@ -58,6 +63,22 @@ function AppContent() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/import"
+          element={
+            <ProtectedRoute userType="donor">
+              <ImportDonations />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/history"
+          element={
+            <ProtectedRoute userType="donor">
+              <DonationHistory />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/requests"
           element={
@@ -74,6 +95,16 @@ function AppContent() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/schedules"
+          element={
+            <ProtectedRoute userType={['donor', 'shelter']}>
+              <Schedules />
+            </ProtectedRoute>
+          }
+        />
+        <Route path="/donations/:id" element={<DonationDetail />} />
+        <Route path="/profile" element={<Profile />} />
         <Route
           path="/auth"
           element={<Navigate to="/" replace />}
@@ -0,0 +1,19 @@
+import { Hourglass } from 'lucide-react'
+import { describeAllocationBlock, type AllocationBlock } from '../lib/allocation'
+
+interface AllocationNoticeProps {
+  block: AllocationBlock | null | undefined
+  className?: string
+}
+
+// Tells a shelter why fairness rules keep it from accepting a donation for now
+export default function AllocationNotice({ block, className = '' }: AllocationNoticeProps) {
+  if (!block) return null
+
+  return (
+    <div className={`flex items-start space-x-2 bg-amber-50 border border-amber-200 rounded-lg p-2 ${className}`}>
+      <Hourglass className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+      <span className="text-xs text-amber-800">{describeAllocationBlock(block)}</span>
+    </div>
+  )
+}
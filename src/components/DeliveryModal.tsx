@@ -0,0 +1,75 @@
+import React, { useState } from 'react'
+import { PackageCheck } from 'lucide-react'
+import PhotoPicker from './PhotoPicker'
+
+interface DeliveryModalProps {
+  submitting?: boolean
+  onConfirm: (recipientName: string | null, photo: File | null) => void
+  onClose: () => void
+}
+
+export default function DeliveryModal({ submitting = false, onConfirm, onClose }: DeliveryModalProps) {
+  const [recipientName, setRecipientName] = useState('')
+  const [photos, setPhotos] = useState<File[]>([])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onConfirm(recipientName.trim() || null, photos[0] ?? null)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl max-w-md w-full p-6">
+        <div className="flex items-start space-x-3 mb-4">
+          <PackageCheck className="h-6 w-6 text-green-600 flex-shrink-0" />
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Mark as delivered</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              The shelter will be asked to confirm they received the food.
+            </p>
+          </div>
+        </div>
+
+        <label htmlFor="delivery_recipient_name" className="block text-sm font-medium text-gray-700 mb-2">
+          Received by (Optional)
+        </label>
+        <input
+          type="text"
+          id="delivery_recipient_name"
+          autoFocus
+          value={recipientName}
+          onChange={(e) => setRecipientName(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          placeholder="Name of the person who took the food"
+        />
+
+        <label className="block text-sm font-medium text-gray-700 mt-4 mb-2">
+          Photo of the handover (Optional)
+        </label>
+        <PhotoPicker files={photos} onChange={setPhotos} max={1} />
+
+        <div className="flex space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Not Yet
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="flex-1 flex justify-center items-center py-2 px-4 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {submitting ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+            ) : (
+              'Mark Delivered'
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
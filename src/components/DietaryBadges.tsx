@@ -0,0 +1,26 @@
+import { allergenLabel, dietaryTagLabel } from '../lib/dietary'
+
+interface DietaryBadgesProps {
+  allergens: string[] | null | undefined
+  dietaryTags: string[] | null | undefined
+  className?: string
+}
+
+export default function DietaryBadges({ allergens, dietaryTags, className = '' }: DietaryBadgesProps) {
+  if (!allergens?.length && !dietaryTags?.length) return null
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {(dietaryTags || []).map(tag => (
+        <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+          {dietaryTagLabel(tag)}
+        </span>
+      ))}
+      {(allergens || []).map(allergen => (
+        <span key={allergen} className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">
+          Contains {allergenLabel(allergen).toLowerCase()}
+        </span>
+      ))}
+    </div>
+  )
+}
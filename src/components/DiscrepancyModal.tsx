@@ -0,0 +1,89 @@
+import React, { useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { DISCREPANCY_TYPES, type DiscrepancyType } from '../lib/donationTransitions'
+
+interface DiscrepancyModalProps {
+  donorName: string
+  submitting?: boolean
+  onConfirm: (type: DiscrepancyType, reason: string) => void
+  onClose: () => void
+}
+
+export default function DiscrepancyModal({ donorName, submitting = false, onConfirm, onClose }: DiscrepancyModalProps) {
+  const [type, setType] = useState<DiscrepancyType>('short')
+  const [reason, setReason] = useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!reason.trim()) return
+    onConfirm(type, reason.trim())
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl max-w-md w-full p-6">
+        <div className="flex items-start space-x-3 mb-4">
+          <AlertTriangle className="h-6 w-6 text-red-500 flex-shrink-0" />
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Report a problem with this delivery</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              {donorName} and the volunteer will be told what went wrong. The donation will not count as completed.
+            </p>
+          </div>
+        </div>
+
+        <fieldset className="space-y-2 mb-4">
+          <legend className="block text-sm font-medium text-gray-700 mb-2">What happened?</legend>
+          {DISCREPANCY_TYPES.map(option => (
+            <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="radio"
+                name="discrepancy_type"
+                value={option.value}
+                checked={type === option.value}
+                onChange={() => setType(option.value)}
+                className="text-red-600 focus:ring-red-500"
+              />
+              <span>{option.label}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        <label htmlFor="discrepancy_reason" className="block text-sm font-medium text-gray-700 mb-2">
+          Details
+        </label>
+        <textarea
+          id="discrepancy_reason"
+          required
+          rows={3}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+          placeholder="e.g., Only 2 of the 5 trays arrived, dairy was warm..."
+        />
+
+        <div className="flex space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Back
+          </button>
+          <button
+            type="submit"
+            disabled={submitting || !reason.trim()}
+            className="flex-1 flex justify-center items-center py-2 px-4 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {submitting ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+            ) : (
+              'Report Problem'
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
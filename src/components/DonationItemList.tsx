@@ -0,0 +1,38 @@
+import { formatQuantity } from '../lib/quantity'
+import { sortItems, type DonationItem } from '../lib/donationItems'
+
+interface DonationItemListProps {
+  items: DonationItem[] | null | undefined
+  className?: string
+}
+
+export default function DonationItemList({ items, className = '' }: DonationItemListProps) {
+  const sortedItems = sortItems(items)
+
+  // A single plain item says nothing the donation summary doesn't already
+  if (sortedItems.length === 0) return null
+  if (sortedItems.length === 1 && !sortedItems[0].description && !sortedItems[0].notes) return null
+
+  return (
+    <ul className={`space-y-1 ${className}`}>
+      {sortedItems.map((item) => (
+        <li key={item.id} className="text-sm text-gray-600">
+          <div className="flex items-baseline justify-between space-x-2">
+            <span>
+              <span className="font-medium text-gray-800">{item.description || item.category}</span>
+              {item.description && (
+                <span className="text-xs text-gray-500"> · {item.category}</span>
+              )}
+            </span>
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {formatQuantity(item.quantity_amount, item.quantity_unit)}
+            </span>
+          </div>
+          {item.notes && (
+            <p className="text-xs text-gray-500 italic">{item.notes}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
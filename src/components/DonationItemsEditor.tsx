@@ -0,0 +1,155 @@
+import { useState } from 'react'
+import { Plus, Trash2, Loader } from 'lucide-react'
+import { classifyFoodType } from '../lib/supabase'
+import { QUANTITY_UNITS } from '../lib/quantity'
+import { FOOD_CATEGORIES, emptyItemDraft, type DonationItemDraft } from '../lib/donationItems'
+
+interface DonationItemsEditorProps {
+  items: DonationItemDraft[]
+  onChange: (items: DonationItemDraft[]) => void
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500'
+
+export default function DonationItemsEditor({ items, onChange }: DonationItemsEditorProps) {
+  const [classifying, setClassifying] = useState<number | null>(null)
+  const [suggestions, setSuggestions] = useState<Record<number, string>>({})
+
+  const updateItem = (index: number, changes: Partial<DonationItemDraft>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+  }
+
+  const removeItem = (index: number) => {
+    onChange(items.filter((_, i) => i !== index))
+    setSuggestions({})
+  }
+
+  const classifyItem = async (index: number) => {
+    const description = items[index].description
+    if (!description.trim()) return
+
+    setClassifying(index)
+    try {
+      const classified = await classifyFoodType(description)
+      if (!items[index].category) {
+        updateItem(index, { category: classified })
+      } else if (classified !== items[index].category) {
+        setSuggestions(prev => ({ ...prev, [index]: classified }))
+      }
+    } catch (error) {
+      console.error('Error classifying food:', error)
+    } finally {
+      setClassifying(null)
+    }
+  }
+
+  const applySuggestion = (index: number) => {
+    updateItem(index, { category: suggestions[index] })
+    setSuggestions(prev => {
+      const next = { ...prev }
+      delete next[index]
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {items.map((item, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">Item {index + 1}</span>
+            {items.length > 1 && (
+              <button
+                type="button"
+                onClick={() => removeItem(index)}
+                className="flex items-center space-x-1 text-xs text-gray-500 hover:text-red-600 transition-colors"
+              >
+                <Trash2 className="h-3 w-3" />
+                <span>Remove</span>
+              </button>
+            )}
+          </div>
+
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              aria-label={`Item ${index + 1} description`}
+              value={item.description}
+              onChange={(e) => updateItem(index, { description: e.target.value })}
+              onBlur={() => classifyItem(index)}
+              className={inputClassName}
+              placeholder="What is it? e.g., Sourdough loaves"
+            />
+            {classifying === index && <Loader className="h-4 w-4 mt-3 text-blue-600 animate-spin flex-shrink-0" />}
+          </div>
+
+          <div>
+            <select
+              aria-label={`Item ${index + 1} food type`}
+              required
+              value={item.category}
+              onChange={(e) => updateItem(index, { category: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">Select food type</option>
+              {FOOD_CATEGORIES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            {suggestions[index] && (
+              <button
+                type="button"
+                onClick={() => applySuggestion(index)}
+                className="mt-1 text-xs text-blue-600 hover:text-blue-700"
+              >
+                AI suggests "{suggestions[index]}" — use it
+              </button>
+            )}
+          </div>
+
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              aria-label={`Item ${index + 1} quantity`}
+              required
+              min="0.01"
+              step="any"
+              value={item.quantity_amount}
+              onChange={(e) => updateItem(index, { quantity_amount: e.target.value })}
+              className={`flex-1 ${inputClassName}`}
+              placeholder="e.g., 20"
+            />
+            <select
+              aria-label={`Item ${index + 1} unit`}
+              value={item.quantity_unit}
+              onChange={(e) => updateItem(index, { quantity_unit: e.target.value as DonationItemDraft['quantity_unit'] })}
+              className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+            >
+              {QUANTITY_UNITS.map(unit => (
+                <option key={unit.value} value={unit.value}>{unit.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <input
+            type="text"
+            aria-label={`Item ${index + 1} notes`}
+            value={item.notes}
+            onChange={(e) => updateItem(index, { notes: e.target.value })}
+            className={inputClassName}
+            placeholder="Item notes (optional), e.g., keep refrigerated"
+          />
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...items, emptyItemDraft()])}
+        className="flex items-center space-x-2 text-sm font-medium text-green-700 hover:text-green-800 transition-colors"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add another item</span>
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,266 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { Plus, Minus, Maximize2, X, ChevronLeft, ChevronRight } from 'lucide-react'
+import type { LatLng } from '../lib/coordinates'
+import { MIN_ZOOM, fitPositions, fromPixel, tileSource, tilesAround, toPixel, TILE_SIZE, type Pixel } from '../lib/mapTiles'
+import { PIN_COLORS, clusterMarkers, type MapMarker } from '../lib/mapMarkers'
+import MapAttribution from './MapAttribution'
+
+interface DonationMapProps {
+  markers: MapMarker[]
+  // Shown in a panel over the map when a pin is clicked
+  renderCard: (id: string) => React.ReactNode
+  // Donations left off the map because they were never geocoded
+  unmappedCount?: number
+  className?: string
+}
+
+interface View {
+  center: LatLng
+  zoom: number
+}
+
+// Trackpads fire a burst of wheel events per gesture, take one zoom step per burst
+const WHEEL_THROTTLE_MS = 250
+
+// Zooms keeping the point offset pixels from the centre where it is on screen
+const zoomView = (view: View | null, delta: number, offset: Pixel = { x: 0, y: 0 }): View | null => {
+  if (!view) return view
+
+  const zoom = Math.min(tileSource.maxZoom, Math.max(MIN_ZOOM, view.zoom + delta))
+  if (zoom === view.zoom) return view
+
+  const centerPixel = toPixel(view.center, view.zoom)
+  const anchor = fromPixel({ x: centerPixel.x + offset.x, y: centerPixel.y + offset.y }, view.zoom)
+  const anchorPixel = toPixel(anchor, zoom)
+  return { zoom, center: fromPixel({ x: anchorPixel.x - offset.x, y: anchorPixel.y - offset.y }, zoom) }
+}
+
+// Slippy map of donation pins, clustered where they crowd together. Drag to pan, scroll or
+// double-click to zoom. Click a pin to open its card, or a cluster to zoom into it.
+export default function DonationMap({ markers, renderCard, unmappedCount = 0, className = '' }: DonationMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const lastWheel = useRef(0)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [view, setView] = useState<View | null>(null)
+  const [drag, setDrag] = useState<{ startX: number; startY: number; dx: number; dy: number } | null>(null)
+  const [selection, setSelection] = useState<{ ids: string[]; index: number } | null>(null)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(container)
+
+    // React's wheel listener is passive, so the page would scroll along with the zoom
+    const handleWheel = (e: WheelEvent) => {
+      // The card panel scrolls normally
+      if ((e.target as HTMLElement).closest('[data-map-panel]')) return
+      e.preventDefault()
+      if (Date.now() - lastWheel.current < WHEEL_THROTTLE_MS) return
+      lastWheel.current = Date.now()
+
+      const rect = container.getBoundingClientRect()
+      const offset = { x: e.clientX - rect.left - rect.width / 2, y: e.clientY - rect.top - rect.height / 2 }
+      setView(current => zoomView(current, e.deltaY < 0 ? 1 : -1, offset))
+    }
+    container.addEventListener('wheel', handleWheel, { passive: false })
+
+    return () => {
+      observer.disconnect()
+      container.removeEventListener('wheel', handleWheel)
+    }
+  }, [])
+
+  const fitAll = () => {
+    setView(fitPositions(markers.map(marker => marker.position), size.width, size.height))
+  }
+
+  // Frame the pins once the map has a size and something to show
+  useEffect(() => {
+    if (!view && size.width > 0 && markers.length > 0) fitAll()
+  }, [size.width, size.height, markers.length])
+
+  const halfWidth = size.width / 2
+  const halfHeight = size.height / 2
+  const dx = drag?.dx ?? 0
+  const dy = drag?.dy ?? 0
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    // Leave clicks on pins and controls alone
+    if ((e.target as HTMLElement).closest('button, a, [data-map-panel]')) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({ startX: e.clientX, startY: e.clientY, dx: 0, dy: 0 })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return
+    setDrag({ ...drag, dx: e.clientX - drag.startX, dy: e.clientY - drag.startY })
+  }
+
+  const handlePointerUp = () => {
+    if (!drag) return
+    if (view && (drag.dx !== 0 || drag.dy !== 0)) {
+      const centerPixel = toPixel(view.center, view.zoom)
+      setView({ ...view, center: fromPixel({ x: centerPixel.x - drag.dx, y: centerPixel.y - drag.dy }, view.zoom) })
+    }
+    setDrag(null)
+  }
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if ((e.target as HTMLElement).closest('button, a, [data-map-panel]')) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    setView(current => zoomView(current, 1, { x: e.clientX - rect.left - halfWidth, y: e.clientY - rect.top - halfHeight }))
+  }
+
+  const centerPixel = view ? toPixel(view.center, view.zoom) : null
+  // A tile's margin all round, so dragging doesn't uncover gaps before the pan is committed
+  const tiles = view ? tilesAround(view.center, view.zoom, halfWidth + TILE_SIZE, halfHeight + TILE_SIZE) : []
+  const clusters = view ? clusterMarkers(markers, view.zoom) : []
+
+  const openCluster = (ids: string[], pixel: Pixel) => {
+    if (!view || !centerPixel) return
+
+    // Pins at the same address never split, so page through their cards instead
+    const canSplit = view.zoom < tileSource.maxZoom && new Set(
+      markers.filter(marker => ids.includes(marker.id)).map(marker => `${marker.position.lat},${marker.position.lng}`)
+    ).size > 1
+
+    if (ids.length === 1 || !canSplit) {
+      setSelection({ ids, index: 0 })
+    } else {
+      setView(zoomView(view, 2, { x: pixel.x - centerPixel.x, y: pixel.y - centerPixel.y }))
+    }
+  }
+
+  const selectedId = selection && markers.some(marker => marker.id === selection.ids[selection.index])
+    ? selection.ids[selection.index]
+    : null
+  const usedColors = (Object.keys(PIN_COLORS) as (keyof typeof PIN_COLORS)[])
+    .filter(color => markers.some(marker => marker.color === color))
+
+  return (
+    <div className={className}>
+      <div
+        ref={containerRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(null)}
+        onDoubleClick={handleDoubleClick}
+        className={`relative h-[32rem] overflow-hidden rounded-xl border border-gray-200 bg-gray-100 select-none touch-none ${
+          drag ? 'cursor-grabbing' : 'cursor-grab'
+        }`}
+      >
+        {tiles.map(tile => (
+          <img
+            key={tile.key}
+            src={tile.src}
+            alt=""
+            draggable={false}
+            className="absolute max-w-none pointer-events-none"
+            style={{ width: TILE_SIZE, height: TILE_SIZE, left: halfWidth + tile.left + dx, top: halfHeight + tile.top + dy }}
+          />
+        ))}
+
+        {centerPixel && clusters.map(cluster => {
+          const left = halfWidth + cluster.pixel.x - centerPixel.x + dx
+          const top = halfHeight + cluster.pixel.y - centerPixel.y + dy
+          const ids = cluster.markers.map(marker => marker.id)
+          const single = cluster.markers.length === 1
+
+          return (
+            <button
+              key={cluster.key}
+              type="button"
+              onClick={() => openCluster(ids, cluster.pixel)}
+              aria-label={single ? cluster.markers[0].label : `${cluster.markers.length} donations here`}
+              title={single ? cluster.markers[0].label : `${cluster.markers.length} donations`}
+              className={`absolute transform -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow-md text-white text-xs font-semibold flex items-center justify-center focus:outline-none focus:ring-2 focus:ring-green-500 ${
+                PIN_COLORS[cluster.color].className
+              } ${single ? 'w-5 h-5' : 'w-9 h-9'} ${selectedId && ids.includes(selectedId) ? 'ring-2 ring-offset-1 ring-gray-900' : ''}`}
+              style={{ left, top }}
+            >
+              {!single && cluster.markers.length}
+            </button>
+          )
+        })}
+
+        {markers.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-600">
+            Nothing to show on the map.
+          </div>
+        )}
+
+        <div className="absolute top-3 left-3 flex flex-col bg-white rounded-lg shadow border border-gray-200 divide-y divide-gray-200">
+          <button type="button" onClick={() => setView(current => zoomView(current, 1))} className="p-2 text-gray-700 hover:bg-gray-50" aria-label="Zoom in">
+            <Plus className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={() => setView(current => zoomView(current, -1))} className="p-2 text-gray-700 hover:bg-gray-50" aria-label="Zoom out">
+            <Minus className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={fitAll} disabled={markers.length === 0} className="p-2 text-gray-700 hover:bg-gray-50 disabled:text-gray-300" aria-label="Show all donations">
+            <Maximize2 className="h-4 w-4" />
+          </button>
+        </div>
+
+        {usedColors.length > 0 && (
+          <div className="absolute bottom-3 left-3 bg-white bg-opacity-90 rounded-lg shadow px-2 py-1 space-y-0.5">
+            {usedColors.map(color => (
+              <div key={color} className="flex items-center text-xs text-gray-700">
+                <span className={`inline-block w-2.5 h-2.5 rounded-full mr-1.5 ${PIN_COLORS[color].className}`} />
+                {PIN_COLORS[color].label}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {selection && selectedId && (
+          <div
+            data-map-panel
+            className="absolute top-3 right-3 bottom-3 w-80 max-w-[calc(100%-1.5rem)] overflow-y-auto cursor-auto rounded-xl bg-gray-50 shadow-lg"
+          >
+            <div className="sticky top-0 z-10 flex items-center justify-between bg-gray-50 px-3 py-2 border-b border-gray-200">
+              {selection.ids.length > 1 ? (
+                <div className="flex items-center space-x-2 text-xs text-gray-600">
+                  <button
+                    type="button"
+                    onClick={() => setSelection({ ...selection, index: (selection.index + selection.ids.length - 1) % selection.ids.length })}
+                    className="p-1 hover:text-gray-900"
+                    aria-label="Previous donation"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </button>
+                  <span>{selection.index + 1} of {selection.ids.length} at this spot</span>
+                  <button
+                    type="button"
+                    onClick={() => setSelection({ ...selection, index: (selection.index + 1) % selection.ids.length })}
+                    className="p-1 hover:text-gray-900"
+                    aria-label="Next donation"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </button>
+                </div>
+              ) : <span />}
+              <button type="button" onClick={() => setSelection(null)} className="p-1 text-gray-400 hover:text-gray-600" aria-label="Close">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="p-3">{renderCard(selectedId)}</div>
+          </div>
+        )}
+
+        <MapAttribution />
+      </div>
+
+      {unmappedCount > 0 && (
+        <p className="mt-2 text-xs text-gray-500">
+          {unmappedCount} {unmappedCount === 1 ? "donation isn't" : "donations aren't"} on the map because the
+          pickup address couldn't be placed. Switch to cards to see {unmappedCount === 1 ? 'it' : 'them'}.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react'
+import { ChevronLeft, ChevronRight, X } from 'lucide-react'
+import { getPhotoUrls, type DonationPhoto } from '../lib/photos'
+
+interface DonationPhotosProps {
+  photos: DonationPhoto[] | null | undefined
+  kind?: DonationPhoto['kind']
+  className?: string
+}
+
+export default function DonationPhotos({ photos, kind = 'listing', className = '' }: DonationPhotosProps) {
+  const [urls, setUrls] = useState<Record<string, string>>({})
+  const [openIndex, setOpenIndex] = useState<number | null>(null)
+
+  const sortedPhotos = (photos || [])
+    .filter(photo => photo.kind === kind)
+    .sort((a, b) => a.position - b.position)
+  const pathsKey = sortedPhotos.map(photo => photo.storage_path).join(',')
+
+  useEffect(() => {
+    if (sortedPhotos.length === 0) return
+
+    const loadUrls = async () => {
+      try {
+        const paths = sortedPhotos.flatMap(photo => [photo.storage_path, photo.thumbnail_path])
+        setUrls(await getPhotoUrls(paths))
+      } catch (error) {
+        console.error('Error loading donation photos:', error)
+      }
+    }
+
+    loadUrls()
+  }, [pathsKey])
+
+  useEffect(() => {
+    if (openIndex === null) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpenIndex(null)
+      if (e.key === 'ArrowRight') setOpenIndex(index => index === null ? null : (index + 1) % sortedPhotos.length)
+      if (e.key === 'ArrowLeft') setOpenIndex(index => index === null ? null : (index - 1 + sortedPhotos.length) % sortedPhotos.length)
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [openIndex, sortedPhotos.length])
+
+  if (sortedPhotos.length === 0) return null
+
+  const openPhoto = openIndex !== null ? sortedPhotos[openIndex] : null
+
+  return (
+    <>
+      <div className={`flex flex-wrap gap-2 ${className}`}>
+        {sortedPhotos.map((photo, index) => (
+          <button
+            key={photo.id}
+            type="button"
+            onClick={() => setOpenIndex(index)}
+            className="h-16 w-16 rounded-lg overflow-hidden bg-gray-100 border border-gray-200 hover:ring-2 hover:ring-green-500 transition-shadow"
+            aria-label={`View photo ${index + 1}`}
+          >
+            {urls[photo.thumbnail_path] && (
+              <img src={urls[photo.thumbnail_path]} alt={`Donation photo ${index + 1}`} className="h-full w-full object-cover" />
+            )}
+          </button>
+        ))}
+      </div>
+
+      {openPhoto && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center p-4 z-50"
+          onClick={() => setOpenIndex(null)}
+        >
+          <button
+            type="button"
+            onClick={() => setOpenIndex(null)}
+            className="absolute top-4 right-4 text-white hover:text-gray-300"
+            aria-label="Close photo"
+          >
+            <X className="h-8 w-8" />
+          </button>
+
+          {sortedPhotos.length > 1 && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                setOpenIndex((openIndex! - 1 + sortedPhotos.length) % sortedPhotos.length)
+              }}
+              className="absolute left-4 text-white hover:text-gray-300"
+              aria-label="Previous photo"
+            >
+              <ChevronLeft className="h-10 w-10" />
+            </button>
+          )}
+
+          <img
+            src={urls[openPhoto.storage_path] || urls[openPhoto.thumbnail_path]}
+            alt={`Donation photo ${openIndex! + 1}`}
+            onClick={(e) => e.stopPropagation()}
+            className="max-h-full max-w-full rounded-lg"
+          />
+
+          {sortedPhotos.length > 1 && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                setOpenIndex((openIndex! + 1) % sortedPhotos.length)
+              }}
+              className="absolute right-4 text-white hover:text-gray-300"
+              aria-label="Next photo"
+            >
+              <ChevronRight className="h-10 w-10" />
+            </button>
+          )}
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react'
+import { History, ChevronDown, ChevronUp } from 'lucide-react'
+import { supabase, type Database } from '../lib/supabase'
+
+type DonationEvent = Database['public']['Tables']['donation_events']['Row']
+
+interface DonationTimelineProps {
+  donationId: string
+  defaultOpen?: boolean
+  className?: string
+}
+
+const eventDotColors: Record<string, string> = {
+  pending: 'bg-yellow-500',
+  accepted: 'bg-blue-500',
+  claimed: 'bg-indigo-500',
+  in_transit: 'bg-purple-500',
+  delivered: 'bg-teal-500',
+  completed: 'bg-green-500',
+  disputed: 'bg-red-500',
+  cancelled: 'bg-red-500',
+  expired: 'bg-gray-400',
+}
+
+const describeEvent = (event: DonationEvent) => {
+  const { old_status: from, new_status: to } = event
+
+  if (!from) return 'Donation posted'
+  if (from === 'accepted' && to === 'pending') return 'Declined by shelter, back on offer'
+  if (from === 'claimed' && to === 'accepted') return 'Released by volunteer'
+
+  switch (to) {
+    case 'accepted':
+      return 'Accepted by shelter'
+    case 'claimed':
+      return 'Claimed by volunteer'
+    case 'in_transit':
+      return 'Picked up, on the way'
+    case 'delivered':
+      return 'Delivered by volunteer'
+    case 'completed':
+      return from === 'delivered' ? 'Receipt confirmed by shelter' : 'Delivered'
+    case 'disputed':
+      return 'Problem reported by shelter'
+    case 'cancelled':
+      return 'Cancelled by donor'
+    case 'expired':
+      return 'Expired'
+    default:
+      return `Moved from ${from.replace('_', ' ')} to ${to.replace('_', ' ')}`
+  }
+}
+
+const formatEventTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+export default function DonationTimeline({ donationId, defaultOpen = false, className = '' }: DonationTimelineProps) {
+  const [open, setOpen] = useState(defaultOpen)
+  const [events, setEvents] = useState<DonationEvent[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+
+    const fetchEvents = async () => {
+      setLoading(true)
+      try {
+        const { data, error } = await supabase
+          .from('donation_events')
+          .select('*')
+          .eq('donation_id', donationId)
+          .order('created_at', { ascending: true })
+
+        if (error) throw error
+        setEvents(data || [])
+      } catch (error) {
+        console.error('Error fetching donation timeline:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchEvents()
+  }, [open, donationId])
+
+  return (
+    <div className={className}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center text-xs font-medium text-gray-500 hover:text-gray-700 transition-colors"
+      >
+        <History className="h-3 w-3 mr-1" />
+        {open ? 'Hide timeline' : 'Show timeline'}
+        {open ? <ChevronUp className="h-3 w-3 ml-1" /> : <ChevronDown className="h-3 w-3 ml-1" />}
+      </button>
+
+      {open && (
+        <div className="mt-3">
+          {loading ? (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-400"></div>
+          ) : events.length === 0 ? (
+            <p className="text-xs text-gray-500">No history recorded yet</p>
+          ) : (
+            <ol className="border-l border-gray-200 ml-1 space-y-3">
+              {events.map((event) => (
+                <li key={event.id} className="relative pl-4">
+                  <span className={`absolute -left-1 top-1 h-2 w-2 rounded-full ${eventDotColors[event.new_status] || 'bg-gray-400'}`}></span>
+                  <p className="text-xs font-medium text-gray-900">{describeEvent(event)}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatEventTime(event.created_at)} · {event.actor_role === 'system' ? 'automatic' : event.actor_role}
+                  </p>
+                  {event.reason && (
+                    <p className="text-xs text-gray-600 italic mt-1">"{event.reason}"</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react'
+import { Timer } from 'lucide-react'
+import { formatTimeRemaining, getExpiryUrgency } from '../lib/expiry'
+
+interface ExpiryBadgeProps {
+  safeUntil: string
+  className?: string
+}
+
+const urgencyStyles = {
+  expired: 'bg-gray-200 text-gray-700',
+  critical: 'bg-red-100 text-red-800 animate-pulse',
+  soon: 'bg-orange-100 text-orange-800',
+  ok: 'bg-green-100 text-green-800',
+}
+
+export default function ExpiryBadge({ safeUntil, className = '' }: ExpiryBadgeProps) {
+  const [now, setNow] = useState(new Date())
+
+  useEffect(() => {
+    // Refresh the countdown every minute
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const urgency = getExpiryUrgency(safeUntil, now)
+
+  return (
+    <span
+      className={`inline-flex items-center text-xs px-2 py-1 rounded-full font-medium ${urgencyStyles[urgency]} ${className}`}
+      title={`Safe until ${new Date(safeUntil).toLocaleString()}`}
+    >
+      <Timer className="h-3 w-3 mr-1" />
+      {formatTimeRemaining(safeUntil, now)}
+    </span>
+  )
+}
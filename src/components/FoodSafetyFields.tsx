@@ -0,0 +1,143 @@
+import { AlertTriangle, XCircle } from 'lucide-react'
+import { toDateTimeLocalValue } from '../lib/expiry'
+import {
+  HOLDING_TEMPERATURES,
+  PACKAGING_OPTIONS,
+  type FoodSafetyDraft,
+  type FoodSafetyRule,
+  type HoldingTemperature,
+} from '../lib/foodSafety'
+
+interface FoodSafetyFieldsProps {
+  value: FoodSafetyDraft
+  onChange: (value: FoodSafetyDraft) => void
+  issues: FoodSafetyRule[]
+  showPreparedAt?: boolean
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500'
+
+export default function FoodSafetyFields({ value, onChange, issues, showPreparedAt = true }: FoodSafetyFieldsProps) {
+  const update = (changes: Partial<FoodSafetyDraft>) => {
+    onChange({ ...value, ...changes })
+  }
+
+  // Chilled and frozen food almost always needs the same in transit
+  const selectHoldingTemperature = (holding: HoldingTemperature) => {
+    update({
+      holding_temperature: holding,
+      needs_refrigeration: holding === 'chilled' ? true : value.needs_refrigeration,
+      needs_freezer: holding === 'frozen' ? true : value.needs_freezer,
+    })
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      {showPreparedAt && (
+        <div>
+          <label htmlFor="prepared_at" className="block text-sm text-gray-700 mb-1">
+            Prepared At (Optional)
+          </label>
+          <input
+            type="datetime-local"
+            id="prepared_at"
+            max={toDateTimeLocalValue(new Date())}
+            value={value.prepared_at}
+            onChange={(e) => update({ prepared_at: e.target.value })}
+            className={inputClassName}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            When the food was cooked or opened. Leave empty for sealed packaged goods.
+          </p>
+        </div>
+      )}
+
+      <div>
+        <span className="block text-sm text-gray-700 mb-1">How has it been kept?</span>
+        <div className="grid grid-cols-2 gap-2">
+          {HOLDING_TEMPERATURES.map(option => (
+            <label
+              key={option.value}
+              className={`flex flex-col p-2 border rounded-lg cursor-pointer ${
+                value.holding_temperature === option.value ? 'border-green-500 bg-green-50' : 'border-gray-300'
+              }`}
+            >
+              <span className="flex items-center text-sm text-gray-900">
+                <input
+                  type="radio"
+                  name="holding_temperature"
+                  required
+                  value={option.value}
+                  checked={value.holding_temperature === option.value}
+                  onChange={() => selectHoldingTemperature(option.value)}
+                  className="mr-2"
+                />
+                {option.label}
+              </span>
+              <span className="text-xs text-gray-500 ml-5">{option.description}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="packaging" className="block text-sm text-gray-700 mb-1">
+          Packaging
+        </label>
+        <select
+          id="packaging"
+          required
+          value={value.packaging}
+          onChange={(e) => update({ packaging: e.target.value as FoodSafetyDraft['packaging'] })}
+          className={inputClassName}
+        >
+          <option value="">Select packaging</option>
+          {PACKAGING_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value.needs_refrigeration}
+            onChange={(e) => update({ needs_refrigeration: e.target.checked })}
+            className="mr-2"
+          />
+          Must be kept refrigerated in transit
+        </label>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value.needs_freezer}
+            onChange={(e) => update({ needs_freezer: e.target.checked })}
+            className="mr-2"
+          />
+          Must be kept frozen in transit
+        </label>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="space-y-2">
+          {issues.map(issue => (
+            <li
+              key={issue.id}
+              className={`flex items-start text-sm rounded-lg p-2 ${
+                issue.severity === 'danger' ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'
+              }`}
+            >
+              {issue.severity === 'danger' ? (
+                <XCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              )}
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import { Thermometer } from 'lucide-react'
+import { getHandlingRequirements, type HandlingRequirement, type HoldingTemperature, type Packaging } from '../lib/foodSafety'
+
+interface HandlingRequirementsProps {
+  donation: {
+    prepared_at: string | null
+    holding_temperature: HoldingTemperature | null
+    packaging: Packaging | null
+    needs_refrigeration: boolean
+    needs_freezer: boolean
+  }
+  className?: string
+}
+
+const toneStyles: Record<HandlingRequirement['tone'], string> = {
+  blue: 'bg-blue-50 border-blue-300 text-blue-900',
+  indigo: 'bg-indigo-50 border-indigo-300 text-indigo-900',
+  red: 'bg-red-50 border-red-300 text-red-900',
+  gray: 'bg-gray-50 border-gray-300 text-gray-900',
+}
+
+export default function HandlingRequirements({ donation, className = '' }: HandlingRequirementsProps) {
+  const requirements = getHandlingRequirements(donation)
+  if (requirements.length === 0) return null
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {requirements.map(requirement => (
+        <div
+          key={requirement.label}
+          className={`flex items-center border-l-4 rounded-lg px-3 py-2 text-sm font-semibold ${toneStyles[requirement.tone]}`}
+        >
+          <Thermometer className="h-4 w-4 mr-2 flex-shrink-0" />
+          <span>{requirement.label}</span>
+        </div>
+      ))}
+      {donation.prepared_at && (
+        <p className="text-xs text-gray-500">
+          Prepared {new Date(donation.prepared_at).toLocaleString()}
+        </p>
+      )}
+    </div>
+  )
+}
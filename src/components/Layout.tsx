@@ -14,8 +14,11 @@ export default function Layout({ children }: { children: React.ReactNode }) {
   const navigation = [
     { name: 'Dashboard', href: '/', show: true },
     { name: 'Donate Food', href: '/donate', show: profile?.user_type === 'donor' },
+    { name: 'History', href: '/history', show: profile?.user_type === 'donor' },
     { name: 'Incoming Requests', href: '/requests', show: profile?.user_type === 'shelter' },
     { name: 'My Pickups', href: '/pickups', show: profile?.user_type === 'volunteer' },
+    { name: 'Schedules', href: '/schedules', show: profile?.user_type === 'donor' || profile?.user_type === 'shelter' },
+    { name: 'Profile', href: '/profile', show: true },
   ].filter(item => item.show)
 
   const handleSignOut = async () => {
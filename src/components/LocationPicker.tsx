@@ -1,63 +1,138 @@
 import React, { useState, useEffect } from 'react'
-import { MapPin, Search, Navigation } from 'lucide-react'
+import { MapPin, Navigation } from 'lucide-react'
+import type { LatLng } from '../lib/coordinates'
+import { addressSuggestionsEnabled, reverseGeocode, searchAddresses, type GeocodeResult } from '../lib/geocoding'
+import PinMap from './PinMap'
 
 interface LocationPickerProps {
   onLocationSelect: (location: string, coordinates?: { lat: number; lng: number }) => void
   initialLocation?: string
+  initialCoordinates?: LatLng | null
+  placeholder?: string
+  pinHint?: string
   className?: string
 }
 
-export default function LocationPicker({ onLocationSelect, initialLocation = '', className = '' }: LocationPickerProps) {
+// Wait for a pause in typing before asking the geocoder
+const SEARCH_DEBOUNCE_MS = 400
+const MIN_QUERY_LENGTH = 3
+
+export default function LocationPicker({
+  onLocationSelect,
+  initialLocation = '',
+  initialCoordinates = null,
+  placeholder = 'Enter pickup address...',
+  pinHint = 'Drag the pin to the exact pickup spot, e.g. the loading bay',
+  className = '',
+}: LocationPickerProps) {
   const [address, setAddress] = useState(initialLocation)
-  const [suggestions, setSuggestions] = useState<string[]>([])
+  const [position, setPosition] = useState<LatLng | null>(initialCoordinates)
+  // Only text the user typed is searched, not addresses filled in from a suggestion
+  const [query, setQuery] = useState('')
+  const [suggestions, setSuggestions] = useState<GeocodeResult[]>([])
+  const [highlighted, setHighlighted] = useState(-1)
   const [showSuggestions, setShowSuggestions] = useState(false)
+  const [searching, setSearching] = useState(false)
   const [isGettingLocation, setIsGettingLocation] = useState(false)
 
-  // Mock address suggestions for demo
-  const mockSuggestions = [
-    '123 Main Street, New York, NY 10001',
-    '456 Oak Avenue, Los Angeles, CA 90210',
-    '789 Pine Road, Chicago, IL 60601',
-    '321 Elm Street, Houston, TX 77001',
-    '654 Maple Drive, Phoenix, AZ 85001',
-    '987 Cedar Lane, Philadelphia, PA 19101',
-    '147 Birch Street, San Antonio, TX 78201',
-    '258 Walnut Avenue, San Diego, CA 92101',
-    '369 Cherry Road, Dallas, TX 75201',
-    '741 Spruce Drive, San Jose, CA 95101'
-  ]
+  useEffect(() => {
+    if (!addressSuggestionsEnabled || query.length < MIN_QUERY_LENGTH) {
+      setSuggestions([])
+      setSearching(false)
+      return
+    }
+
+    let stale = false
+    setSearching(true)
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchAddresses(query, 5)
+        if (!stale) {
+          setSuggestions(results)
+          setHighlighted(-1)
+        }
+      } catch (error) {
+        console.error('Error searching addresses:', error)
+      } finally {
+        if (!stale) setSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      stale = true
+      clearTimeout(timer)
+    }
+  }, [query])
 
   const handleAddressChange = (value: string) => {
     setAddress(value)
-    
-    if (value.length > 2) {
-      const filtered = mockSuggestions.filter(suggestion =>
-        suggestion.toLowerCase().includes(value.toLowerCase())
-      )
-      setSuggestions(filtered.slice(0, 5))
-      setShowSuggestions(true)
-    } else {
-      setShowSuggestions(false)
-    }
+    setQuery(value.trim())
+    setShowSuggestions(true)
+    // Typed text has no coordinates until a suggestion is picked; the form geocodes it on submit
+    setPosition(null)
+    onLocationSelect(value)
   }
 
-  const selectSuggestion = (suggestion: string) => {
-    setAddress(suggestion)
+  const selectSuggestion = (suggestion: GeocodeResult) => {
+    const coordinates = { lat: suggestion.lat, lng: suggestion.lng }
+    setAddress(suggestion.label)
+    setQuery('')
     setShowSuggestions(false)
-    onLocationSelect(suggestion, { lat: 40.7128, lng: -74.0060 }) // Mock coordinates
+    setPosition(coordinates)
+    onLocationSelect(suggestion.label, coordinates)
+  }
+
+  const handlePinMove = (coordinates: LatLng) => {
+    setPosition(coordinates)
+    onLocationSelect(address, coordinates)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || suggestions.length === 0) return
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setHighlighted(index => (index + 1) % suggestions.length)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setHighlighted(index => (index <= 0 ? suggestions.length - 1 : index - 1))
+        break
+      case 'Enter':
+        // Don't submit the surrounding form while choosing a suggestion
+        if (highlighted >= 0) {
+          e.preventDefault()
+          selectSuggestion(suggestions[highlighted])
+        }
+        break
+      case 'Escape':
+        setShowSuggestions(false)
+        break
+    }
   }
 
   const getCurrentLocation = () => {
     setIsGettingLocation(true)
-    
+
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const { latitude, longitude } = position.coords
-          // In production, reverse geocode these coordinates to get address
-          const mockAddress = `Current Location (${latitude.toFixed(4)}, ${longitude.toFixed(4)})`
-          setAddress(mockAddress)
-          onLocationSelect(mockAddress, { lat: latitude, lng: longitude })
+        async (current) => {
+          const coordinates = { lat: current.coords.latitude, lng: current.coords.longitude }
+          let label = `${coordinates.lat.toFixed(5)}, ${coordinates.lng.toFixed(5)}`
+
+          try {
+            const result = await reverseGeocode(coordinates)
+            if (result) label = result.label
+          } catch (error) {
+            console.error('Error reverse geocoding location:', error)
+          }
+
+          setAddress(label)
+          setQuery('')
+          setShowSuggestions(false)
+          setPosition(coordinates)
+          onLocationSelect(label, coordinates)
           setIsGettingLocation(false)
         },
         (error) => {
@@ -80,15 +155,21 @@ export default function LocationPicker({ onLocationSelect, initialLocation = '',
           type="text"
           value={address}
           onChange={(e) => handleAddressChange(e.target.value)}
+          onKeyDown={handleKeyDown}
           onBlur={() => {
             // Delay hiding suggestions to allow for clicks
             setTimeout(() => setShowSuggestions(false), 200)
           }}
           onFocus={() => {
-            if (address.length > 2) setShowSuggestions(true)
+            if (query.length >= MIN_QUERY_LENGTH) setShowSuggestions(true)
           }}
+          role="combobox"
+          aria-expanded={showSuggestions && suggestions.length > 0}
+          aria-controls="location-suggestions"
+          aria-autocomplete="list"
+          aria-activedescendant={highlighted >= 0 ? `location-suggestion-${highlighted}` : undefined}
           className="w-full pl-10 pr-12 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
-          placeholder="Enter pickup address..."
+          placeholder={placeholder}
         />
         <button
           type="button"
@@ -97,7 +178,7 @@ export default function LocationPicker({ onLocationSelect, initialLocation = '',
           className="absolute right-2 top-1/2 transform -translate-y-1/2 p-1 text-gray-400 hover:text-green-600 transition-colors"
           title="Use current location"
         >
-          {isGettingLocation ? (
+          {isGettingLocation || searching ? (
             <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-green-600"></div>
           ) : (
             <Navigation className="h-4 w-4" />
@@ -107,35 +188,49 @@ export default function LocationPicker({ onLocationSelect, initialLocation = '',
 
       {/* Address Suggestions */}
       {showSuggestions && suggestions.length > 0 && (
-        <div className="absolute z-10 w-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+        <ul
+          id="location-suggestions"
+          role="listbox"
+          className="absolute z-10 w-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto"
+        >
           {suggestions.map((suggestion, index) => (
-            <button
-              key={index}
-              type="button"
+            <li
+              key={`${suggestion.lat},${suggestion.lng},${index}`}
+              id={`location-suggestion-${index}`}
+              role="option"
+              aria-selected={highlighted === index}
+              onMouseDown={(e) => e.preventDefault()}
               onClick={() => selectSuggestion(suggestion)}
-              className="w-full px-4 py-2 text-left hover:bg-gray-50 focus:bg-gray-50 focus:outline-none border-b border-gray-100 last:border-b-0"
+              onMouseEnter={() => setHighlighted(index)}
+              className={`px-4 py-2 cursor-pointer border-b border-gray-100 last:border-b-0 ${
+                highlighted === index ? 'bg-gray-50' : ''
+              }`}
             >
               <div className="flex items-center space-x-2">
                 <MapPin className="h-3 w-3 text-gray-400 flex-shrink-0" />
-                <span className="text-sm text-gray-700">{suggestion}</span>
+                <span className="text-sm text-gray-700">{suggestion.label}</span>
               </div>
-            </button>
+            </li>
           ))}
-        </div>
+        </ul>
+      )}
+
+      {showSuggestions && !searching && query.length >= MIN_QUERY_LENGTH && suggestions.length === 0 && (
+        <p className="absolute z-10 w-full mt-1 px-4 py-2 bg-white border border-gray-200 rounded-lg shadow-lg text-sm text-gray-500">
+          No matching addresses. You can still use the address as typed.
+        </p>
       )}
 
       {/* Mini Map Preview */}
-      {address && (
+      {position && (
         <div className="mt-3 p-3 bg-gray-50 rounded-lg border border-gray-200">
           <div className="flex items-center space-x-2 text-sm text-gray-600">
             <MapPin className="h-4 w-4 text-green-600" />
-            <span>Selected location: {address}</span>
-          </div>
-          <div className="mt-2 h-24 bg-gray-200 rounded border flex items-center justify-center">
-            <span className="text-xs text-gray-500">Map preview (demo)</span>
+            <span>{pinHint}</span>
           </div>
+          <PinMap position={position} onChange={handlePinMove} className="mt-2" />
         </div>
       )}
     </div>
   )
-}
\ No newline at end of file
+}
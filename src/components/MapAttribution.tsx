@@ -0,0 +1,17 @@
+import { tileSource } from '../lib/mapTiles'
+
+// Credit for the configured tile server, required by OpenStreetMap's tile usage policy
+export default function MapAttribution() {
+  return (
+    <span className="absolute bottom-0 right-0 bg-white bg-opacity-80 px-1 text-[10px] text-gray-600">
+      ©{' '}
+      {tileSource.attributionUrl ? (
+        <a href={tileSource.attributionUrl} target="_blank" rel="noopener noreferrer" className="underline">
+          {tileSource.attribution}
+        </a>
+      ) : (
+        tileSource.attribution
+      )}
+    </span>
+  )
+}
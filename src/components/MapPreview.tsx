@@ -0,0 +1,26 @@
+import type { LatLng } from '../lib/coordinates'
+
+interface MapPreviewProps {
+  position: LatLng | null
+  label: string
+  className?: string
+}
+
+// Rough half-size of the embedded map in degrees, a few streets either way
+const SPAN = 0.005
+
+export default function MapPreview({ position, label, className = '' }: MapPreviewProps) {
+  if (!position) return null
+
+  const bbox = [position.lng - SPAN, position.lat - SPAN, position.lng + SPAN, position.lat + SPAN].join(',')
+  const src = `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${position.lat},${position.lng}`
+
+  return (
+    <iframe
+      title={`Map of ${label}`}
+      src={src}
+      loading="lazy"
+      className={`w-full h-56 rounded-lg border border-gray-200 ${className}`}
+    />
+  )
+}
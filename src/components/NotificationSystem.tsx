@@ -1,13 +1,26 @@
 import React, { useEffect, useState } from 'react'
-import { supabase } from '../lib/supabase'
+import { Link } from 'react-router-dom'
+import { supabase, type Database } from '../lib/supabase'
+import { formatQuantity } from '../lib/quantity'
+import { fetchDonationItems, type DonationItem } from '../lib/donationItems'
+import { isInServiceArea } from '../lib/serviceArea'
+import { offerReaches } from '../lib/offers'
+import { toLatLng } from '../lib/coordinates'
 import { useAuth } from '../contexts/AuthContext'
 import { Bell, X, CheckCircle, AlertCircle, Info } from 'lucide-react'
+import DonationItemList from './DonationItemList'
+
+type DonationRow = Database['public']['Tables']['donations']['Row']
+type DonationEvent = Database['public']['Tables']['donation_events']['Row']
+type DonationOfferEvent = Database['public']['Tables']['donation_offer_events']['Row']
 
 interface Notification {
   id: string
   type: 'success' | 'info' | 'warning' | 'error'
   title: string
   message: string
+  donationId?: string
+  items?: DonationItem[]
   timestamp: Date
   read: boolean
 }
@@ -26,7 +39,7 @@ export default function NotificationSystem() {
       .on(
         'postgres_changes',
         {
-          event: '*',
+          event: 'INSERT',
           schema: 'public',
           table: 'donations',
         },
@@ -34,6 +47,28 @@ export default function NotificationSystem() {
           handleDonationChange(payload)
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'donation_events',
+        },
+        (payload) => {
+          handleStatusEvent(payload.new as DonationEvent)
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'donation_offer_events',
+        },
+        (payload) => {
+          handleOfferEvent(payload.new as DonationOfferEvent)
+        }
+      )
       .subscribe()
 
     return () => {
@@ -41,60 +76,227 @@ export default function NotificationSystem() {
     }
   }, [user, profile])
 
-  const handleDonationChange = (payload: any) => {
-    if (!profile) return
+  const isOfferedHere = (donation: DonationRow) => {
+    if (!profile || profile.user_type !== 'shelter') return false
+    const location = toLatLng(profile.location_lat, profile.location_lng)
+    return isInServiceArea(profile, donation) && offerReaches(location, donation)
+  }
+
+  const handleDonationChange = async (payload: any) => {
+    const { new: newRecord } = payload
+
+    if (isOfferedHere(newRecord)) {
+      // New donation available for shelters in its first ring that cover its pickup location
+      await pushNotification({
+        id: `donation-${newRecord.id}`,
+        type: 'info',
+        title: 'New Donation Available',
+        message: `${newRecord.donor_name} has donated ${formatQuantity(newRecord.quantity_amount, newRecord.quantity_unit)} of ${newRecord.food_type}`,
+        timestamp: new Date(),
+        read: false,
+      }, newRecord.id)
+    }
+  }
+
+  // Widening comes from the donation_offer_events log, which carries the radius before the change
+  const handleOfferEvent = async (event: DonationOfferEvent) => {
+    if (!profile || profile.user_type !== 'shelter') return
+
+    const { data: donation, error } = await supabase
+      .from('donations')
+      .select('*')
+      .eq('id', event.donation_id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching donation for notification:', error)
+      return
+    }
+    if (donation?.status !== 'pending') return
+
+    const location = toLatLng(profile.location_lat, profile.location_lng)
+    const wasOfferedHere = offerReaches(location, { ...donation, offer_radius_km: event.previous_radius_km })
+
+    if (!wasOfferedHere && isOfferedHere(donation)) {
+      // The offer widened to take in this shelter
+      await pushNotification({
+        id: `offered-${donation.id}-${event.tier}`,
+        type: 'info',
+        title: 'New Donation Available',
+        message: `${donation.donor_name} has donated ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} of ${donation.food_type}`,
+        timestamp: new Date(),
+        read: false,
+      }, donation.id)
+    }
+  }
+
+  // Status changes come from the donation_events log: realtime leaves out the previous donation row
+  // under RLS, so the log's old_status is the only reliable way to tell a decline from an accept
+  const handleStatusEvent = async (event: DonationEvent) => {
+    if (!profile || !event.old_status) return
+
+    const { data: donation, error } = await supabase
+      .from('donations')
+      .select('*')
+      .eq('id', event.donation_id)
+      .maybeSingle()
 
-    const { eventType, new: newRecord, old: oldRecord } = payload
+    if (error) {
+      console.error('Error fetching donation for notification:', error)
+      return
+    }
+    if (!donation) return
 
     let notification: Notification | null = null
 
-    if (eventType === 'INSERT' && profile.user_type === 'shelter') {
-      // New donation available for shelters
+    if (event.new_status === 'accepted' && donation.donor_id === user?.id) {
+      // Donation accepted - notify donor
       notification = {
-        id: `donation-${newRecord.id}`,
+        id: `accepted-${donation.id}`,
+        type: 'success',
+        title: 'Donation Accepted!',
+        message: `Your donation of ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} ${donation.food_type} has been accepted by a shelter.`,
+        timestamp: new Date(),
+        read: false,
+      }
+    } else if (event.new_status === 'completed' && event.old_status === 'disputed' && event.actor_id !== user?.id &&
+               [donation.donor_id, donation.shelter_id, donation.volunteer_id].includes(user?.id ?? null)) {
+      // Shelter or donor closed a reported delivery problem - notify the other parties
+      notification = {
+        id: `resolved-${event.id}`,
+        type: 'success',
+        title: 'Delivery Problem Resolved',
+        message: `The problem with ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} of ${donation.food_type} has been resolved${event.reason ? `: "${event.reason}"` : '.'}`,
+        timestamp: new Date(),
+        read: false,
+      }
+    } else if (event.new_status === 'completed' && donation.donor_id === user?.id) {
+      // Donation completed - notify donor
+      notification = {
+        id: `completed-${donation.id}`,
+        type: 'success',
+        title: 'Donation Completed!',
+        message: `Your donation of ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} ${donation.food_type} has been successfully delivered.`,
+        timestamp: new Date(),
+        read: false,
+      }
+    } else if (event.new_status === 'completed' && donation.volunteer_id === user?.id) {
+      // Shelter confirmed receipt - notify the volunteer who delivered it
+      notification = {
+        id: `receipt-${donation.id}`,
+        type: 'success',
+        title: 'Receipt Confirmed',
+        message: `The shelter confirmed they received ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} of ${donation.food_type} from ${donation.donor_name}. Thank you!`,
+        timestamp: new Date(),
+        read: false,
+      }
+    } else if (event.new_status === 'delivered' && donation.shelter_id === user?.id) {
+      // Volunteer handed the food over - ask the shelter to confirm
+      notification = {
+        id: `delivered-${donation.id}`,
         type: 'info',
-        title: 'New Donation Available',
-        message: `${newRecord.donor_name} has donated ${newRecord.quantity} of ${newRecord.food_type}`,
+        title: 'Please Confirm Receipt',
+        message: `A volunteer delivered ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} of ${donation.food_type} from ${donation.donor_name}${donation.delivery_recipient_name ? ` to ${donation.delivery_recipient_name}` : ''}. Confirm it arrived or report a problem.`,
         timestamp: new Date(),
         read: false,
       }
-    } else if (eventType === 'UPDATE' && oldRecord?.status !== newRecord?.status) {
-      if (newRecord.status === 'accepted' && newRecord.donor_id === user?.id) {
-        // Donation accepted - notify donor
-        notification = {
-          id: `accepted-${newRecord.id}`,
-          type: 'success',
-          title: 'Donation Accepted!',
-          message: `Your donation of ${newRecord.quantity} ${newRecord.food_type} has been accepted by a shelter.`,
-          timestamp: new Date(),
-          read: false,
-        }
-      } else if (newRecord.status === 'completed' && newRecord.donor_id === user?.id) {
-        // Donation completed - notify donor
-        notification = {
-          id: `completed-${newRecord.id}`,
-          type: 'success',
-          title: 'Donation Completed!',
-          message: `Your donation of ${newRecord.quantity} ${newRecord.food_type} has been successfully delivered.`,
-          timestamp: new Date(),
-          read: false,
-        }
-      } else if (newRecord.status === 'accepted' && profile.user_type === 'volunteer') {
-        // New pickup available for volunteers
-        notification = {
-          id: `pickup-${newRecord.id}`,
-          type: 'info',
-          title: 'New Pickup Available',
-          message: `Pickup needed: ${newRecord.quantity} of ${newRecord.food_type} from ${newRecord.donor_name}`,
-          timestamp: new Date(),
-          read: false,
-        }
+    } else if (event.new_status === 'disputed' && (donation.donor_id === user?.id || donation.volunteer_id === user?.id)) {
+      // Shelter reported a short or spoiled delivery - notify donor and volunteer
+      notification = {
+        id: `disputed-${donation.id}`,
+        type: 'error',
+        title: 'Delivery Problem Reported',
+        message: `The shelter reported a problem with ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} of ${donation.food_type}${event.reason ? `: "${event.reason}"` : '.'}`,
+        timestamp: new Date(),
+        read: false,
+      }
+    } else if (event.new_status === 'expired' && donation.donor_id === user?.id) {
+      // Donation passed its safe-until time - notify donor
+      notification = {
+        id: `expired-${donation.id}`,
+        type: 'warning',
+        title: 'Donation Expired',
+        message: `Your donation of ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} ${donation.food_type} passed its safe-until time before it could be delivered.`,
+        timestamp: new Date(),
+        read: false,
+      }
+    } else if (event.new_status === 'cancelled' && donation.donor_id !== user?.id &&
+               (donation.shelter_id === user?.id || donation.volunteer_id === user?.id)) {
+      // Donor withdrew a donation this shelter or volunteer was handling
+      notification = {
+        id: `cancelled-${donation.id}`,
+        type: 'warning',
+        title: 'Donation Cancelled',
+        message: `${donation.donor_name} cancelled their donation of ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} ${donation.food_type}${event.reason ? `: "${event.reason}"` : '.'}`,
+        timestamp: new Date(),
+        read: false,
+      }
+    } else if (event.new_status === 'pending' && event.old_status === 'accepted' && donation.donor_id === user?.id) {
+      // Shelter declined an accepted donation - notify donor
+      notification = {
+        id: `declined-${event.id}`,
+        type: 'warning',
+        title: 'Donation Declined',
+        message: `A shelter can no longer take your donation of ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} ${donation.food_type}${event.reason ? ` ("${event.reason}")` : ''}. It is back on offer to other shelters.`,
+        timestamp: new Date(),
+        read: false,
+      }
+    } else if (event.new_status === 'accepted' && event.old_status === 'claimed' && donation.shelter_id === user?.id) {
+      // Volunteer released a pickup - notify the receiving shelter
+      notification = {
+        id: `released-${event.id}`,
+        type: 'warning',
+        title: 'Pickup Released',
+        message: `The volunteer can no longer collect ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} of ${donation.food_type} from ${donation.donor_name}${event.reason ? ` ("${event.reason}")` : ''}. It is available to other volunteers.`,
+        timestamp: new Date(),
+        read: false,
+      }
+    } else if (event.new_status === 'claimed' && (donation.donor_id === user?.id || donation.shelter_id === user?.id)) {
+      // Volunteer claimed the pickup - notify donor and shelter
+      notification = {
+        id: `claimed-${donation.id}`,
+        type: 'info',
+        title: 'Volunteer Assigned',
+        message: `A volunteer has claimed the pickup of ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} ${donation.food_type} from ${donation.donor_name}.`,
+        timestamp: new Date(),
+        read: false,
+      }
+    } else if (event.new_status === 'in_transit' && donation.shelter_id === user?.id) {
+      // Food collected - notify the receiving shelter
+      notification = {
+        id: `in-transit-${donation.id}`,
+        type: 'info',
+        title: 'Donation On The Way',
+        message: `${formatQuantity(donation.quantity_amount, donation.quantity_unit)} of ${donation.food_type} has been picked up from ${donation.donor_name} and is on its way.`,
+        timestamp: new Date(),
+        read: false,
+      }
+    } else if (event.new_status === 'accepted' && !donation.volunteer_id && profile.user_type === 'volunteer') {
+      // New (or released) pickup available for volunteers
+      notification = {
+        id: `pickup-${event.id}`,
+        type: 'info',
+        title: event.old_status === 'claimed' ? 'Pickup Available Again' : 'New Pickup Available',
+        message: `Pickup needed: ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} of ${donation.food_type} from ${donation.donor_name}`,
+        timestamp: new Date(),
+        read: false,
       }
     }
 
-    if (notification) {
-      setNotifications(prev => [notification!, ...prev.slice(0, 9)]) // Keep last 10 notifications
+    if (notification) await pushNotification(notification, donation.id)
+  }
+
+  const pushNotification = async (notification: Notification, donationId: string) => {
+    notification.donationId = donationId
+
+    // Realtime payloads only carry the donation row, items live in their own table
+    try {
+      notification.items = await fetchDonationItems(donationId)
+    } catch (error) {
+      console.error('Error fetching donation items:', error)
     }
+
+    setNotifications(prev => [notification, ...prev.slice(0, 9)]) // Keep last 10 notifications
   }
 
   const markAsRead = (id: string) => {
@@ -161,12 +363,26 @@ export default function NotificationSystem() {
                   <div className="flex items-start space-x-3">
                     {getIcon(notification.type)}
                     <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium text-gray-900">
-                        {notification.title}
-                      </p>
+                      {notification.donationId ? (
+                        <Link
+                          to={`/donations/${notification.donationId}`}
+                          onClick={() => {
+                            markAsRead(notification.id)
+                            setShowNotifications(false)
+                          }}
+                          className="text-sm font-medium text-gray-900 hover:text-green-600"
+                        >
+                          {notification.title}
+                        </Link>
+                      ) : (
+                        <p className="text-sm font-medium text-gray-900">
+                          {notification.title}
+                        </p>
+                      )}
                       <p className="text-sm text-gray-600 mt-1">
                         {notification.message}
                       </p>
+                      <DonationItemList items={notification.items} className="mt-2" />
                       <p className="text-xs text-gray-400 mt-2">
                         {notification.timestamp.toLocaleTimeString()}
                       </p>
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react'
+import { Radio } from 'lucide-react'
+import { describeOffer, type DonationOffer } from '../lib/offers'
+
+interface OfferBadgeProps {
+  offer: DonationOffer
+  className?: string
+}
+
+// Shows the donor which shelters can currently see their pending donation
+export default function OfferBadge({ offer, className = '' }: OfferBadgeProps) {
+  const [now, setNow] = useState(new Date())
+
+  useEffect(() => {
+    // Refresh the countdown every minute
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Donations from before staged offers have no tier and are open to everyone
+  if (offer.offer_tier == null) return null
+
+  return (
+    <span
+      className={`inline-flex items-center text-xs px-2 py-1 rounded-full font-medium bg-indigo-50 text-indigo-700 ${className}`}
+      title={`Stage ${offer.offer_tier}: nearby shelters see new donations first`}
+    >
+      <Radio className="h-3 w-3 mr-1" />
+      {describeOffer(offer, now)}
+    </span>
+  )
+}
@@ -0,0 +1,63 @@
+import React, { useEffect, useMemo } from 'react'
+import { Camera, X } from 'lucide-react'
+import { MAX_PHOTOS } from '../lib/photos'
+
+interface PhotoPickerProps {
+  files: File[]
+  onChange: (files: File[]) => void
+  max?: number
+}
+
+export default function PhotoPicker({ files, onChange, max = MAX_PHOTOS }: PhotoPickerProps) {
+  const previews = useMemo(() => files.map(file => URL.createObjectURL(file)), [files])
+
+  useEffect(() => {
+    return () => previews.forEach(url => URL.revokeObjectURL(url))
+  }, [previews])
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []).filter(file => file.type.startsWith('image/'))
+    const combined = [...files, ...selected]
+
+    if (combined.length > max) {
+      alert(`You can attach up to ${max} ${max === 1 ? 'photo' : 'photos'}.`)
+    }
+
+    onChange(combined.slice(0, max))
+    e.target.value = ''
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-3">
+        {previews.map((url, index) => (
+          <div key={url} className="relative h-20 w-20">
+            <img src={url} alt={`Photo ${index + 1}`} className="h-20 w-20 object-cover rounded-lg border border-gray-200" />
+            <button
+              type="button"
+              onClick={() => onChange(files.filter((_, i) => i !== index))}
+              className="absolute -top-2 -right-2 bg-white rounded-full shadow p-0.5 text-gray-500 hover:text-red-600"
+              aria-label={`Remove photo ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+
+        {files.length < max && (
+          <label className="h-20 w-20 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg text-gray-500 hover:border-green-500 hover:text-green-600 cursor-pointer transition-colors">
+            <Camera className="h-5 w-5" />
+            <span className="text-xs mt-1">Add</span>
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              multiple={max > 1}
+              onChange={handleFileChange}
+              className="sr-only"
+            />
+          </label>
+        )}
+      </div>
+    </div>
+  )
+}
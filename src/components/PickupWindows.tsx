@@ -0,0 +1,68 @@
+import { CalendarClock, AlertTriangle } from 'lucide-react'
+import { formatWindow, getPickupWindowState, sortWindows, type PickupWindow } from '../lib/pickupWindows'
+
+interface PickupWindowsProps {
+  windows: PickupWindow[] | null | undefined
+  slotStartsAt?: string | null
+  slotEndsAt?: string | null
+  className?: string
+}
+
+export default function PickupWindows({ windows, slotStartsAt, slotEndsAt, className = '' }: PickupWindowsProps) {
+  const sortedWindows = sortWindows(windows)
+  const { state, minutesLeft } = getPickupWindowState(sortedWindows)
+
+  // A booked slot replaces the donor's windows, flagged the same way as the last window
+  if (slotStartsAt && slotEndsAt) {
+    const slot = getPickupWindowState([{ starts_at: slotStartsAt, ends_at: slotEndsAt }])
+
+    return (
+      <div className={className}>
+        <div className="flex items-center space-x-2 text-sm font-medium text-blue-800 bg-blue-50 rounded-lg p-2">
+          <CalendarClock className="h-4 w-4 flex-shrink-0" />
+          <span>Pickup booked for {formatWindow({ starts_at: slotStartsAt, ends_at: slotEndsAt })}</span>
+        </div>
+        {(slot.state === 'closing' || slot.state === 'closed') && (
+          <div className="flex items-center space-x-2 mt-2 text-xs font-medium text-red-700 bg-red-50 rounded p-2">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span>
+              {slot.state === 'closing' ? `Booked slot ends in ${slot.minutesLeft} min` : 'Booked slot has passed'}
+            </span>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  if (sortedWindows.length === 0) return null
+
+  return (
+    <div className={className}>
+      <div className="flex items-start space-x-2">
+        <CalendarClock className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+        <ul className="text-sm text-gray-600 space-y-0.5">
+          {sortedWindows.map(window => (
+            <li
+              key={window.id}
+              className={new Date(window.ends_at) <= new Date() ? 'line-through text-gray-400' : ''}
+            >
+              {formatWindow(window)}
+            </li>
+          ))}
+        </ul>
+      </div>
+      {state === 'closing' && (
+        <div className="flex items-center space-x-2 mt-2 text-xs font-medium text-red-700 bg-red-50 rounded p-2">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>Pickup window closes in {minutesLeft} min</span>
+        </div>
+      )}
+      {state === 'closed' && (
+        <div className="flex items-center space-x-2 mt-2 text-xs font-medium text-gray-600 bg-gray-100 rounded p-2">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>All pickup windows have passed</span>
+        </div>
+      )}
+    </div>
+  )
+}
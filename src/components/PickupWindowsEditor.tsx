@@ -0,0 +1,72 @@
+import { Plus, Trash2 } from 'lucide-react'
+import { toDateTimeLocalValue } from '../lib/expiry'
+import type { PickupWindowDraft } from '../lib/pickupWindows'
+
+interface PickupWindowsEditorProps {
+  windows: PickupWindowDraft[]
+  onChange: (windows: PickupWindowDraft[]) => void
+  safeUntil: string
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500'
+
+export default function PickupWindowsEditor({ windows, onChange, safeUntil }: PickupWindowsEditorProps) {
+  const updateWindow = (index: number, changes: Partial<PickupWindowDraft>) => {
+    onChange(windows.map((window, i) => (i === index ? { ...window, ...changes } : window)))
+  }
+
+  const addWindow = () => {
+    onChange([...windows, { starts_at: '', ends_at: '' }])
+  }
+
+  return (
+    <div className="space-y-3">
+      {windows.map((window, index) => (
+        <div key={index} className="flex items-end space-x-2">
+          <div className="flex-1">
+            <label htmlFor={`window-start-${index}`} className="block text-xs text-gray-500 mb-1">From</label>
+            <input
+              type="datetime-local"
+              id={`window-start-${index}`}
+              required
+              min={toDateTimeLocalValue(new Date())}
+              max={safeUntil || undefined}
+              value={window.starts_at}
+              onChange={(e) => updateWindow(index, { starts_at: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex-1">
+            <label htmlFor={`window-end-${index}`} className="block text-xs text-gray-500 mb-1">Until</label>
+            <input
+              type="datetime-local"
+              id={`window-end-${index}`}
+              required
+              min={window.starts_at || toDateTimeLocalValue(new Date())}
+              max={safeUntil || undefined}
+              value={window.ends_at}
+              onChange={(e) => updateWindow(index, { ends_at: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(windows.filter((_, i) => i !== index))}
+            className="p-2 mb-0.5 text-gray-400 hover:text-red-600 transition-colors"
+            aria-label={`Remove window ${index + 1}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={addWindow}
+        className="flex items-center space-x-1 text-sm font-medium text-green-600 hover:text-green-700"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add pickup window</span>
+      </button>
+    </div>
+  )
+}
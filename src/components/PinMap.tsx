@@ -0,0 +1,110 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { MapPin } from 'lucide-react'
+import type { LatLng } from '../lib/coordinates'
+import { TILE_SIZE, fromPixel, tileSource, tilesAround, toPixel } from '../lib/mapTiles'
+import MapAttribution from './MapAttribution'
+
+interface PinMapProps {
+  position: LatLng
+  onChange: (position: LatLng) => void
+  zoom?: number
+  className?: string
+}
+
+// Area either side of the centre to cover, enough to fill a form-width map
+const HALF_WIDTH = 2.5 * TILE_SIZE
+const HALF_HEIGHT = 1.5 * TILE_SIZE
+// Arrow keys nudge the pin this many pixels
+const KEYBOARD_STEP = 8
+
+// Small map view with a pin that can be dragged (or moved with the arrow keys)
+// to fine-tune a geocoded point. The map stays centred where it was opened.
+export default function PinMap({ position, onChange, zoom: preferredZoom = 17, className = '' }: PinMapProps) {
+  // Self-hosted tile servers may stop short of street level
+  const zoom = Math.min(preferredZoom, tileSource.maxZoom)
+  const [center, setCenter] = useState(position)
+  const [drag, setDrag] = useState<{ startX: number; startY: number; dx: number; dy: number } | null>(null)
+
+  const movedByPin = useRef(false)
+
+  // Recentre when the position comes from outside, e.g. a new address was picked
+  useEffect(() => {
+    if (!movedByPin.current) setCenter(position)
+    movedByPin.current = false
+  }, [position.lat, position.lng])
+
+  const centerPixel = toPixel(center, zoom)
+  const pinPixel = toPixel(position, zoom)
+  const pinX = pinPixel.x - centerPixel.x + (drag?.dx ?? 0)
+  const pinY = pinPixel.y - centerPixel.y + (drag?.dy ?? 0)
+
+  const tiles = tilesAround(center, zoom, HALF_WIDTH, HALF_HEIGHT)
+
+  const movePin = (dx: number, dy: number) => {
+    movedByPin.current = true
+    onChange(fromPixel({ x: pinPixel.x + dx, y: pinPixel.y + dy }, zoom))
+  }
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({ startX: e.clientX, startY: e.clientY, dx: 0, dy: 0 })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return
+    setDrag({ ...drag, dx: e.clientX - drag.startX, dy: e.clientY - drag.startY })
+  }
+
+  const handlePointerUp = () => {
+    if (!drag) return
+    if (drag.dx !== 0 || drag.dy !== 0) movePin(drag.dx, drag.dy)
+    setDrag(null)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const steps: Record<string, [number, number]> = {
+      ArrowLeft: [-KEYBOARD_STEP, 0],
+      ArrowRight: [KEYBOARD_STEP, 0],
+      ArrowUp: [0, -KEYBOARD_STEP],
+      ArrowDown: [0, KEYBOARD_STEP],
+    }
+    const step = steps[e.key]
+    if (!step) return
+
+    e.preventDefault()
+    movePin(...step)
+  }
+
+  return (
+    <div className={`relative h-48 overflow-hidden rounded-lg border border-gray-200 bg-gray-100 select-none ${className}`}>
+      {tiles.map(tile => (
+        <img
+          key={tile.key}
+          src={tile.src}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none"
+          style={{ width: TILE_SIZE, height: TILE_SIZE, left: `calc(50% + ${tile.left}px)`, top: `calc(50% + ${tile.top}px)` }}
+        />
+      ))}
+
+      <button
+        type="button"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(null)}
+        onKeyDown={handleKeyDown}
+        aria-label="Pickup point. Drag or use the arrow keys to move it."
+        className={`absolute transform -translate-x-1/2 -translate-y-full touch-none focus:outline-none focus:ring-2 focus:ring-green-500 rounded-full ${
+          drag ? 'cursor-grabbing' : 'cursor-grab'
+        }`}
+        style={{ left: `calc(50% + ${pinX}px)`, top: `calc(50% + ${pinY}px)` }}
+      >
+        <MapPin className="h-8 w-8 text-red-600 fill-red-200 drop-shadow" />
+      </button>
+
+      <MapAttribution />
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import { MapPin, Radius } from 'lucide-react'
+import { SERVICE_RADIUS_OPTIONS_KM, type ProfileLocationDraft } from '../lib/serviceArea'
+import LocationPicker from './LocationPicker'
+
+interface ProfileLocationFieldsProps {
+  value: ProfileLocationDraft
+  onChange: (value: ProfileLocationDraft) => void
+  // Shelters also pick how far they'll take donations from
+  showServiceRadius?: boolean
+}
+
+export default function ProfileLocationFields({ value, onChange, showServiceRadius = false }: ProfileLocationFieldsProps) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+          <MapPin className="h-4 w-4 mr-2" />
+          {showServiceRadius ? 'Shelter Location' : 'Your Location'} (Optional)
+        </label>
+        <LocationPicker
+          onLocationSelect={(label, position) => onChange({ ...value, label, position: position ?? null })}
+          initialLocation={value.label}
+          initialCoordinates={value.position}
+          placeholder={showServiceRadius ? 'Where donations are delivered to...' : 'Where you usually start from...'}
+          pinHint="Drag the pin to fine-tune your location"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Used to show how far away each donation is.
+        </p>
+      </div>
+
+      {showServiceRadius && (
+        <div>
+          <label htmlFor="service-radius" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+            <Radius className="h-4 w-4 mr-2" />
+            Service Area
+          </label>
+          <select
+            id="service-radius"
+            value={value.radiusKm ?? ''}
+            onChange={(e) => onChange({ ...value, radiusKm: e.target.value ? Number(e.target.value) : null })}
+            disabled={!value.label.trim()}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 disabled:bg-gray-50 disabled:text-gray-400"
+          >
+            <option value="">Anywhere</option>
+            {SERVICE_RADIUS_OPTIONS_KM.map(km => (
+              <option key={km} value={km}>Within {km} km</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            You'll only see and be notified about donations inside this area. Donations without a map
+            location are always shown.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,15 @@
 import React, { useState } from 'react'
 import { useAuth } from '../contexts/AuthContext'
+import { resolveProfileLocation, toProfileLocationDraft, type ProfileLocationDraft } from '../lib/serviceArea'
 import { User, Phone, UserCheck } from 'lucide-react'
+import ProfileLocationFields from './ProfileLocationFields'
 
 export default function ProfileSetup() {
   const { createMissingProfile } = useAuth()
   const [name, setName] = useState('')
   const [phone, setPhone] = useState('')
   const [userType, setUserType] = useState<'donor' | 'shelter' | 'volunteer'>('donor')
+  const [location, setLocation] = useState<ProfileLocationDraft>(toProfileLocationDraft(null))
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
 
@@ -16,7 +19,13 @@ export default function ProfileSetup() {
     setError('')
 
     try {
-      await createMissingProfile(name, userType, phone)
+      // Donors give a pickup address with each donation instead
+      const profileLocation = userType === 'donor' ? null : await resolveProfileLocation(location)
+      if (userType !== 'donor' && !profileLocation) {
+        throw new Error(`We couldn't find "${location.label}" on the map. Pick one of the suggestions or use your current location.`)
+      }
+
+      await createMissingProfile(name, userType, phone, profileLocation)
     } catch (err: any) {
       setError(err.message)
     } finally {
@@ -102,6 +111,14 @@ export default function ProfileSetup() {
               </p>
             </div>
 
+            {userType !== 'donor' && (
+              <ProfileLocationFields
+                value={location}
+                onChange={setLocation}
+                showServiceRadius={userType === 'shelter'}
+              />
+            )}
+
             <button
               type="submit"
               disabled={loading}
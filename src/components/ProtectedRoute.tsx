@@ -2,9 +2,11 @@ import React from 'react'
 import { Navigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 
+type UserType = 'donor' | 'shelter' | 'volunteer'
+
 interface ProtectedRouteProps {
   children: React.ReactNode
-  userType?: 'donor' | 'shelter' | 'volunteer'
+  userType?: UserType | UserType[]
 }
 
 export default function ProtectedRoute({ children, userType }: ProtectedRouteProps) {
@@ -22,7 +24,8 @@ export default function ProtectedRoute({ children, userType }: ProtectedRoutePro
     return <Navigate to="/auth" replace />
   }
 
-  if (userType && profile?.user_type !== userType) {
+  const allowedTypes = Array.isArray(userType) ? userType : [userType]
+  if (userType && (!profile || !allowedTypes.includes(profile.user_type))) {
     return <Navigate to="/" replace />
   }
 
@@ -0,0 +1,71 @@
+import React, { useState } from 'react'
+import { AlertCircle } from 'lucide-react'
+
+interface ReasonModalProps {
+  title: string
+  description: string
+  confirmLabel: string
+  submitting?: boolean
+  onConfirm: (reason: string) => void
+  onClose: () => void
+}
+
+export default function ReasonModal({ title, description, confirmLabel, submitting = false, onConfirm, onClose }: ReasonModalProps) {
+  const [reason, setReason] = useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!reason.trim()) return
+    onConfirm(reason.trim())
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl max-w-md w-full p-6">
+        <div className="flex items-start space-x-3 mb-4">
+          <AlertCircle className="h-6 w-6 text-orange-500 flex-shrink-0" />
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">{title}</h3>
+            <p className="text-sm text-gray-600 mt-1">{description}</p>
+          </div>
+        </div>
+
+        <label htmlFor="status_reason" className="block text-sm font-medium text-gray-700 mb-2">
+          Reason
+        </label>
+        <textarea
+          id="status_reason"
+          required
+          autoFocus
+          rows={3}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+          placeholder="Let the other parties know why..."
+        />
+
+        <div className="flex space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Keep It
+          </button>
+          <button
+            type="submit"
+            disabled={submitting || !reason.trim()}
+            className="flex-1 flex justify-center items-center py-2 px-4 bg-orange-600 text-white rounded-lg text-sm font-medium hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {submitting ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+            ) : (
+              confirmLabel
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { Sparkles } from 'lucide-react'
+import { isRecommended, type DonationMatch } from '../lib/matching'
+
+interface RecommendedBadgeProps {
+  match: Pick<DonationMatch, 'rank' | 'reasons'> | null | undefined
+  className?: string
+}
+
+// Tells a shelter the matching engine ranked them near the top for this donation
+export default function RecommendedBadge({ match, className = '' }: RecommendedBadgeProps) {
+  if (!match || !isRecommended(match)) return null
+
+  return (
+    <div className={`flex items-start space-x-2 bg-green-50 rounded-lg px-3 py-2 ${className}`}>
+      <Sparkles className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+      <div className="text-sm font-medium text-green-800">
+        Recommended for you
+        {match.reasons.length > 0 && (
+          <span className="block text-xs font-normal text-green-700">{match.reasons.join(' · ')}</span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { Route, Navigation, Download, X, PackageCheck, Home } from 'lucide-react'
+import { MAX_ROUTE_WAYPOINTS, routeDirectionsUrl, type LatLng } from '../lib/coordinates'
+import { formatDuration, toGpx, type PlannedRoute } from '../lib/routePlanning'
+
+interface RoutePlanProps {
+  route: PlannedRoute
+  origin: LatLng | null
+  // Selected pickups that couldn't be placed on the map
+  skipped: string[]
+  onClose: () => void
+}
+
+export default function RoutePlan({ route, origin, skipped, onClose }: RoutePlanProps) {
+  const positions = route.stops.map(stop => stop.position)
+  const fitsInLink = positions.length - 1 <= MAX_ROUTE_WAYPOINTS
+
+  const downloadGpx = () => {
+    const name = `Pickup run ${new Date().toLocaleDateString()}`
+    const url = URL.createObjectURL(new Blob([toGpx(route, name)], { type: 'application/gpx+xml' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `pickup-run-${new Date().toISOString().slice(0, 10)}.gpx`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-blue-100 p-6 mb-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Route className="h-5 w-5 mr-2 text-blue-600" />
+            Your Route
+          </h3>
+          <p className="text-sm text-gray-600">
+            {route.stops.length} stops · {route.distanceKm.toFixed(1)} km · about {formatDuration(route.minutes)}
+            {!origin && ' from the first stop'}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close route">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <ol className="space-y-2 mb-4">
+        {route.stops.map((stop, index) => (
+          <li key={stop.id} className="flex items-start space-x-3">
+            <span className="flex-shrink-0 w-6 h-6 rounded-full bg-blue-100 text-blue-800 text-xs font-medium flex items-center justify-center">
+              {index + 1}
+            </span>
+            <div className="text-sm">
+              <span className="flex items-center font-medium text-gray-900">
+                {stop.kind === 'pickup'
+                  ? <PackageCheck className="h-4 w-4 mr-1 text-green-600" />
+                  : <Home className="h-4 w-4 mr-1 text-blue-600" />}
+                {stop.kind === 'pickup' ? 'Pick up from' : 'Drop off at'} {stop.name}
+                {stop.kind === 'dropoff' && stop.donationIds.length > 1 && ` (${stop.donationIds.length} donations)`}
+              </span>
+              {stop.address && <span className="block text-gray-600">{stop.address}</span>}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {skipped.length > 0 && (
+        <p className="text-xs text-orange-700 bg-orange-50 rounded-lg p-2 mb-4">
+          Left out because the pickup or shelter isn't on the map: {skipped.join(', ')}
+        </p>
+      )}
+
+      <p className="text-xs text-gray-500 mb-4">
+        Distances are straight-line estimates. Your navigation app will work out the exact roads.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <a
+          href={fitsInLink ? routeDirectionsUrl(positions, origin) : undefined}
+          target="_blank"
+          rel="noopener noreferrer"
+          aria-disabled={!fitsInLink}
+          title={fitsInLink ? undefined : `Google Maps links take up to ${MAX_ROUTE_WAYPOINTS + 1} stops, download the GPX file instead`}
+          className={`flex-1 flex justify-center items-center space-x-2 py-2 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 transition-colors ${
+            fitsInLink ? 'hover:bg-blue-700' : 'opacity-50 cursor-not-allowed'
+          }`}
+        >
+          <Navigation className="h-4 w-4" />
+          <span>Open in Google Maps</span>
+        </a>
+        <button
+          onClick={downloadGpx}
+          className="flex-1 flex justify-center items-center space-x-2 py-2 px-4 border border-blue-300 rounded-lg text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 transition-colors"
+        >
+          <Download className="h-4 w-4" />
+          <span>Download GPX</span>
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,314 @@
+import React, { useState } from 'react'
+import { CalendarClock, Leaf, Package, Save, ShieldAlert, Thermometer, Timer } from 'lucide-react'
+import { geocodeAddress, GeocodingError } from '../lib/geocoding'
+import { toLatLng, toPoint, type LatLng } from '../lib/coordinates'
+import { summarizeItems, emptyItemDraft, toItemDraft, type DonationItemDraft } from '../lib/donationItems'
+import { ALLERGENS, DIETARY_TAGS } from '../lib/dietary'
+import { checkFoodSafety, toFoodSafetyChecklist, type FoodSafetyDraft } from '../lib/foodSafety'
+import { MATERIALIZE_HORIZON_HOURS, WEEKDAYS, toDateValue, type DonationSchedule, type NewDonationSchedule } from '../lib/schedules'
+import DonationItemsEditor from './DonationItemsEditor'
+import FoodSafetyFields from './FoodSafetyFields'
+import LocationPicker from './LocationPicker'
+import TagPicker from './TagPicker'
+
+export type ScheduleValues = Omit<NewDonationSchedule, 'donor_id'>
+
+interface ScheduleFormProps {
+  initial?: DonationSchedule
+  donorName: string
+  submitting: boolean
+  onSubmit: (values: ScheduleValues) => void
+  onCancel: () => void
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500'
+
+const WEEKDAY_OPTIONS = WEEKDAYS.map(day => ({ value: String(day.value), label: day.label }))
+
+export default function ScheduleForm({ initial, donorName, submitting, onSubmit, onCancel }: ScheduleFormProps) {
+  const [formData, setFormData] = useState({
+    donor_name: initial?.donor_name || donorName,
+    pickup_location: initial?.pickup_location || '',
+    notes: initial?.notes || '',
+    ready_time: initial?.ready_time.slice(0, 5) || '21:00',
+    safe_for_hours: String(initial?.safe_for_hours ?? 12),
+    starts_on: initial?.starts_on || toDateValue(new Date()),
+    ends_on: initial?.ends_on || '',
+  })
+  const [items, setItems] = useState<DonationItemDraft[]>(
+    initial
+      ? initial.items.map(toItemDraft)
+      : [emptyItemDraft()]
+  )
+  const [days, setDays] = useState<number[]>(initial?.days_of_week || [1, 2, 3, 4, 5])
+  const [allergens, setAllergens] = useState<string[]>(initial?.allergens || [])
+  const [dietaryTags, setDietaryTags] = useState<string[]>(initial?.dietary_tags || [])
+  const [foodSafety, setFoodSafety] = useState<FoodSafetyDraft>({
+    prepared_at: '',
+    holding_temperature: initial?.holding_temperature || '',
+    packaging: initial?.packaging || '',
+    needs_refrigeration: initial?.needs_refrigeration || false,
+    needs_freezer: initial?.needs_freezer || false,
+  })
+  const [coordinates, setCoordinates] = useState<LatLng | null>(toLatLng(initial?.pickup_lat, initial?.pickup_lng))
+
+  const foodSafetyIssues = checkFoodSafety(
+    toFoodSafetyChecklist(foodSafety, items.map(item => item.category).join(', '), '')
+  )
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target
+    setFormData(prev => ({ ...prev, [name]: value }))
+  }
+
+  const handleLocationSelect = (location: string, coords?: { lat: number; lng: number }) => {
+    setFormData(prev => ({ ...prev, pickup_location: location }))
+    setCoordinates(coords ?? null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (days.length === 0) {
+      alert('Please pick at least one day of the week.')
+      return
+    }
+
+    if (items.some(item => !(Number(item.quantity_amount) > 0))) {
+      alert('Please enter a quantity greater than zero for every item.')
+      return
+    }
+
+    if (!(Number(formData.safe_for_hours) > 0)) {
+      alert('Please enter how many hours the food stays safe.')
+      return
+    }
+
+    let finalCoordinates = coordinates
+    if (!finalCoordinates && formData.pickup_location) {
+      let geocodeError: unknown = null
+      const geocoded = await geocodeAddress(formData.pickup_location).catch(error => {
+        geocodeError = error
+        return null
+      })
+      finalCoordinates = geocoded
+
+      if (!geocoded) {
+        if (geocodeError) console.error('Error geocoding address:', geocodeError)
+        const problem = geocodeError instanceof GeocodingError
+          ? 'The map service is unavailable right now'
+          : `We couldn't find "${formData.pickup_location}" on the map`
+        if (!window.confirm(`${problem}. Save the schedule anyway? Volunteers will get directions from the address as written.`)) {
+          return
+        }
+      }
+    }
+
+    const scheduleItems = items.map(item => ({
+      category: item.category,
+      description: item.description.trim() || null,
+      quantity_amount: Number(item.quantity_amount),
+      quantity_unit: item.quantity_unit,
+      notes: item.notes.trim() || null,
+    }))
+
+    onSubmit({
+      donor_name: formData.donor_name,
+      pickup_location: formData.pickup_location,
+      pickup_point: finalCoordinates ? toPoint(finalCoordinates) : null,
+      notes: formData.notes || null,
+      items: scheduleItems,
+      ...summarizeItems(scheduleItems),
+      allergens,
+      dietary_tags: dietaryTags,
+      holding_temperature: foodSafety.holding_temperature || null,
+      packaging: foodSafety.packaging || null,
+      needs_refrigeration: foodSafety.needs_refrigeration,
+      needs_freezer: foodSafety.needs_freezer,
+      days_of_week: [...days].sort(),
+      ready_time: formData.ready_time,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      safe_for_hours: Number(formData.safe_for_hours),
+      starts_on: formData.starts_on,
+      ends_on: formData.ends_on || null,
+      skip_dates: initial?.skip_dates || [],
+      paused: initial?.paused || false,
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-lg p-8 space-y-6">
+      <div>
+        <label htmlFor="schedule_donor_name" className="block text-sm font-medium text-gray-700 mb-2">
+          Donor Name
+        </label>
+        <input
+          type="text"
+          id="schedule_donor_name"
+          name="donor_name"
+          required
+          value={formData.donor_name}
+          onChange={handleInputChange}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+          <CalendarClock className="h-4 w-4 mr-2" />
+          Repeats On
+        </label>
+        <TagPicker
+          options={WEEKDAY_OPTIONS}
+          selected={days.map(String)}
+          onChange={(selected) => setDays(selected.map(Number))}
+        />
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-3">
+          <div>
+            <label htmlFor="ready_time" className="block text-xs text-gray-500 mb-1">Food ready at</label>
+            <input
+              type="time"
+              id="ready_time"
+              name="ready_time"
+              required
+              value={formData.ready_time}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="starts_on" className="block text-xs text-gray-500 mb-1">Starting</label>
+            <input
+              type="date"
+              id="starts_on"
+              name="starts_on"
+              required
+              value={formData.starts_on}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="ends_on" className="block text-xs text-gray-500 mb-1">Until (optional)</label>
+            <input
+              type="date"
+              id="ends_on"
+              name="ends_on"
+              min={formData.starts_on}
+              value={formData.ends_on}
+              onChange={handleInputChange}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          Each occurrence is posted to shelters {MATERIALIZE_HORIZON_HOURS} hours before the food is ready.
+        </p>
+      </div>
+
+      <div>
+        <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+          <Package className="h-4 w-4 mr-2" />
+          Items
+        </label>
+        <DonationItemsEditor items={items} onChange={setItems} />
+      </div>
+
+      <div>
+        <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+          <ShieldAlert className="h-4 w-4 mr-2" />
+          Contains Allergens
+        </label>
+        <TagPicker options={ALLERGENS} selected={allergens} onChange={setAllergens} tone="red" />
+      </div>
+
+      <div>
+        <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+          <Leaf className="h-4 w-4 mr-2" />
+          Suitable For (Optional)
+        </label>
+        <TagPicker options={DIETARY_TAGS} selected={dietaryTags} onChange={setDietaryTags} />
+      </div>
+
+      <div>
+        <label htmlFor="safe_for_hours" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+          <Timer className="h-4 w-4 mr-2" />
+          Safe For (Hours After Ready)
+        </label>
+        <input
+          type="number"
+          id="safe_for_hours"
+          name="safe_for_hours"
+          required
+          min="1"
+          step="1"
+          value={formData.safe_for_hours}
+          onChange={handleInputChange}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+          <Thermometer className="h-4 w-4 mr-2" />
+          Food Safety Checklist
+        </label>
+        <FoodSafetyFields
+          value={foodSafety}
+          onChange={setFoodSafety}
+          issues={foodSafetyIssues}
+          showPreparedAt={false}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Pickup Location
+        </label>
+        <LocationPicker
+          onLocationSelect={handleLocationSelect}
+          initialLocation={formData.pickup_location}
+          initialCoordinates={coordinates}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="schedule_notes" className="block text-sm font-medium text-gray-700 mb-2">
+          Additional Notes (Optional)
+        </label>
+        <textarea
+          id="schedule_notes"
+          name="notes"
+          value={formData.notes}
+          onChange={handleInputChange}
+          rows={3}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 py-3 px-4 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="flex-1 flex justify-center items-center space-x-2 py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {submitting ? (
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+          ) : (
+            <>
+              <Save className="h-5 w-5" />
+              <span>{initial ? 'Save Schedule' : 'Create Schedule'}</span>
+            </>
+          )}
+        </button>
+      </div>
+    </form>
+  )
+}
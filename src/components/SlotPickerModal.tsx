@@ -0,0 +1,99 @@
+import React, { useState } from 'react'
+import { CalendarClock } from 'lucide-react'
+import { PICKUP_SLOT_MINUTES, getAvailableSlots, type PickupWindow } from '../lib/pickupWindows'
+
+interface SlotPickerModalProps {
+  windows: PickupWindow[]
+  submitting?: boolean
+  onConfirm: (slotStartsAt: string) => void
+  onClose: () => void
+}
+
+export default function SlotPickerModal({ windows, submitting = false, onConfirm, onClose }: SlotPickerModalProps) {
+  const slots = getAvailableSlots(windows)
+  const [selected, setSelected] = useState<string | null>(null)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selected) return
+    onConfirm(selected)
+  }
+
+  // Group slots by day so a long window doesn't become one endless list
+  const days = slots.reduce<Record<string, Date[]>>((groups, slot) => {
+    const day = slot.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })
+    return { ...groups, [day]: [...(groups[day] || []), slot] }
+  }, {})
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl max-w-md w-full p-6">
+        <div className="flex items-start space-x-3 mb-4">
+          <CalendarClock className="h-6 w-6 text-blue-600 flex-shrink-0" />
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Book a pickup slot</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Pick the {PICKUP_SLOT_MINUTES} minutes you'll arrive in. The donor will see your booking.
+            </p>
+          </div>
+        </div>
+
+        {slots.length === 0 ? (
+          <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-3">
+            All of the donor's pickup windows have passed.
+          </p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto space-y-4">
+            {Object.entries(days).map(([day, daySlots]) => (
+              <div key={day}>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">{day}</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {daySlots.map(slot => {
+                    const value = slot.toISOString()
+                    return (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setSelected(value)}
+                        aria-pressed={selected === value}
+                        className={`px-2 py-1.5 rounded-lg text-sm border transition-colors ${
+                          selected === value
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        {slot.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting || !selected}
+            className="flex-1 flex justify-center items-center py-2 px-4 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {submitting ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+            ) : (
+              'Claim Pickup'
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
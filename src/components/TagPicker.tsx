@@ -0,0 +1,38 @@
+interface TagPickerProps {
+  options: { value: string; label: string }[]
+  selected: string[]
+  onChange: (selected: string[]) => void
+  tone?: 'green' | 'red'
+}
+
+const toneStyles = {
+  green: 'bg-green-100 text-green-800 border-green-300',
+  red: 'bg-red-100 text-red-800 border-red-300',
+}
+
+export default function TagPicker({ options, selected, onChange, tone = 'green' }: TagPickerProps) {
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value])
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map(option => {
+        const active = selected.includes(option.value)
+        return (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => toggle(option.value)}
+            aria-pressed={active}
+            className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+              active ? toneStyles[tone] : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
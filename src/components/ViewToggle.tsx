@@ -0,0 +1,34 @@
+import { LayoutGrid, Map as MapIcon } from 'lucide-react'
+
+export type DonationView = 'cards' | 'map'
+
+interface ViewToggleProps {
+  value: DonationView
+  onChange: (value: DonationView) => void
+}
+
+const OPTIONS = [
+  { value: 'cards' as const, label: 'Cards', icon: LayoutGrid },
+  { value: 'map' as const, label: 'Map', icon: MapIcon },
+]
+
+export default function ViewToggle({ value, onChange }: ViewToggleProps) {
+  return (
+    <div className="inline-flex rounded-lg border border-gray-300 bg-white p-0.5" role="group" aria-label="View">
+      {OPTIONS.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          aria-pressed={value === option.value}
+          className={`flex items-center space-x-1 px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+            value === option.value ? 'bg-green-600 text-white' : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          <option.icon className="h-4 w-4" />
+          <span>{option.label}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
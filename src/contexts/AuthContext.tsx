@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react'
 import { User } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
+import type { ProfileLocation } from '../lib/serviceArea'
 
 interface UserProfile {
   id: string
@@ -8,6 +9,15 @@ interface UserProfile {
   user_type: 'donor' | 'shelter' | 'volunteer'
   email: string
   phone: string | null
+  excluded_allergens: string[]
+  required_dietary_tags: string[]
+  location_label: string | null
+  location_point: string | null
+  location_lat: number | null
+  location_lng: number | null
+  service_radius_km: number | null
+  daily_capacity_kg: number | null
+  preferred_categories: string[]
   created_at: string
 }
 
@@ -19,7 +29,12 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<void>
   signOut: () => Promise<void>
   updateProfile: (updates: Partial<UserProfile>) => Promise<void>
-  createMissingProfile: (name: string, userType: 'donor' | 'shelter' | 'volunteer', phone?: string) => Promise<void>
+  createMissingProfile: (
+    name: string,
+    userType: 'donor' | 'shelter' | 'volunteer',
+    phone?: string,
+    location?: ProfileLocation | null
+  ) => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -222,7 +237,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
-  const createMissingProfile = async (name: string, userType: 'donor' | 'shelter' | 'volunteer', phone?: string) => {
+  const createMissingProfile = async (
+    name: string,
+    userType: 'donor' | 'shelter' | 'volunteer',
+    phone?: string,
+    location?: ProfileLocation | null
+  ) => {
     if (!user) {
       console.error('❌ [PROFILE] Cannot create profile: no user logged in')
       throw new Error('No user logged in')
@@ -238,6 +258,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         name,
         user_type: userType,
         phone: phone || null,
+        ...location,
       }
 
       console.log('📝 [PROFILE] Profile data:', profileData)
@@ -0,0 +1,48 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+
+// Why the fairness rules in the fair_share migration hold a shelter back from a donation
+export interface AllocationBlock {
+  reason: string
+  // When the shelter can accept it, null when that depends on more than the clock
+  eligible_at: string | null
+}
+
+// accept_donation raises PT403 with this DETAIL, the reason as the message and eligible_at as the HINT
+export const ALLOCATION_INELIGIBLE_DETAIL = 'ineligible'
+
+export const isAllocationRefusal = (error: PostgrestError | null): error is PostgrestError => {
+  return error?.code === 'PT403' && error.details === ALLOCATION_INELIGIBLE_DETAIL
+}
+
+export const toAllocationBlock = (error: PostgrestError): AllocationBlock => ({
+  reason: error.message,
+  eligible_at: error.hint || null,
+})
+
+// Blocks for the calling shelter, keyed by donation id. Donations it can accept are left out.
+export const fetchAllocationBlocks = async (donationIds: string[]): Promise<Record<string, AllocationBlock>> => {
+  if (donationIds.length === 0) return {}
+
+  const { data, error } = await supabase.rpc('my_allocation_blocks', { p_donation_ids: donationIds })
+  if (error) throw error
+
+  return Object.fromEntries(
+    (data || []).map((row: { donation_id: string } & AllocationBlock) => [
+      row.donation_id,
+      { reason: row.reason, eligible_at: row.eligible_at },
+    ])
+  )
+}
+
+export const describeAllocationBlock = (block: AllocationBlock): string => {
+  if (!block.eligible_at) return `${block.reason}.`
+
+  const eligibleAt = new Date(block.eligible_at)
+  const time = eligibleAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  const when = eligibleAt.toDateString() === new Date().toDateString()
+    ? time
+    : `${eligibleAt.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}, ${time}`
+
+  return `${block.reason}. You can accept it from ${when}.`
+}
@@ -0,0 +1,29 @@
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+// Points are written to the geography columns as EWKT, longitude first
+export const toPoint = ({ lat, lng }: LatLng) => `SRID=4326;POINT(${lng} ${lat})`
+
+// ...and read back through the generated *_lat / *_lng columns
+export const toLatLng = (lat: number | null | undefined, lng: number | null | undefined): LatLng | null =>
+  lat == null || lng == null ? null : { lat, lng }
+
+// Google Maps directions to the pickup, falling back to the address when it was never geocoded
+export const directionsUrl = (position: LatLng | null, address: string) => {
+  const destination = position ? `${position.lat},${position.lng}` : encodeURIComponent(address)
+  return `https://www.google.com/maps/dir/?api=1&destination=${destination}`
+}
+
+// Google Maps only takes a handful of stops in between through a directions link
+export const MAX_ROUTE_WAYPOINTS = 9
+
+// Google Maps directions through the stops in order. Without an origin it starts from the device's location.
+export const routeDirectionsUrl = (stops: LatLng[], origin: LatLng | null) => {
+  const format = ({ lat, lng }: LatLng) => `${lat},${lng}`
+  const params = new URLSearchParams({ api: '1', destination: format(stops[stops.length - 1]), travelmode: 'driving' })
+  if (origin) params.set('origin', format(origin))
+  if (stops.length > 1) params.set('waypoints', stops.slice(0, -1).map(format).join('|'))
+  return `https://www.google.com/maps/dir/?${params.toString()}`
+}
@@ -0,0 +1,69 @@
+export type Allergen =
+  | 'peanuts'
+  | 'tree_nuts'
+  | 'gluten'
+  | 'dairy'
+  | 'eggs'
+  | 'soy'
+  | 'fish'
+  | 'shellfish'
+  | 'sesame'
+
+export type DietaryTag = 'vegan' | 'vegetarian' | 'halal' | 'kosher'
+
+export const ALLERGENS: { value: Allergen; label: string }[] = [
+  { value: 'peanuts', label: 'Peanuts' },
+  { value: 'tree_nuts', label: 'Tree nuts' },
+  { value: 'gluten', label: 'Gluten' },
+  { value: 'dairy', label: 'Dairy' },
+  { value: 'eggs', label: 'Eggs' },
+  { value: 'soy', label: 'Soy' },
+  { value: 'fish', label: 'Fish' },
+  { value: 'shellfish', label: 'Shellfish' },
+  { value: 'sesame', label: 'Sesame' },
+]
+
+export const DIETARY_TAGS: { value: DietaryTag; label: string }[] = [
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'halal', label: 'Halal' },
+  { value: 'kosher', label: 'Kosher' },
+]
+
+export const allergenLabel = (allergen: string) => {
+  return ALLERGENS.find(a => a.value === allergen)?.label ?? allergen
+}
+
+export const dietaryTagLabel = (tag: string) => {
+  return DIETARY_TAGS.find(t => t.value === tag)?.label ?? tag
+}
+
+interface TaggedDonation {
+  allergens: string[] | null
+  dietary_tags: string[] | null
+}
+
+export interface DietaryPreferences {
+  excluded_allergens?: string[] | null
+  required_dietary_tags?: string[] | null
+}
+
+// Human readable reasons a donation does not suit a shelter, empty when it does
+export const getDietaryConflicts = (donation: TaggedDonation, preferences: DietaryPreferences | null | undefined): string[] => {
+  if (!preferences) return []
+
+  const allergens = donation.allergens || []
+  const tags = donation.dietary_tags || []
+
+  const conflicts = (preferences.excluded_allergens || [])
+    .filter(allergen => allergens.includes(allergen))
+    .map(allergen => `Contains ${allergenLabel(allergen).toLowerCase()}`)
+
+  for (const tag of preferences.required_dietary_tags || []) {
+    // Vegan food is vegetarian too
+    if (tag === 'vegetarian' && tags.includes('vegan')) continue
+    if (!tags.includes(tag)) conflicts.push(`Not marked ${dietaryTagLabel(tag).toLowerCase()}`)
+  }
+
+  return conflicts
+}
@@ -0,0 +1,280 @@
+import { supabase, classifyFoodType, type QuantityUnit } from './supabase'
+import { geocodeAddress, GeocodingError, type GeocodeResult } from './geocoding'
+import { QUANTITY_UNITS } from './quantity'
+import { ALLERGENS, DIETARY_TAGS } from './dietary'
+import { FOOD_CATEGORIES, summarizeItems } from './donationItems'
+import { toPoint } from './coordinates'
+
+export type ImportFormat = 'csv' | 'json'
+
+export type ImportField =
+  | 'donor_name'
+  | 'description'
+  | 'category'
+  | 'quantity_amount'
+  | 'quantity_unit'
+  | 'pickup_location'
+  | 'safe_until'
+  | 'notes'
+  | 'allergens'
+  | 'dietary_tags'
+
+// Column name → field. Aliases are compared lower-cased with spaces and dashes as underscores.
+export const IMPORT_FIELDS: { value: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { value: 'description', label: 'Food description', required: true, aliases: ['description', 'food', 'item', 'product', 'name'] },
+  { value: 'category', label: 'Food type', required: false, aliases: ['category', 'food_type', 'type'] },
+  { value: 'quantity_amount', label: 'Quantity', required: true, aliases: ['quantity', 'quantity_amount', 'amount', 'qty'] },
+  { value: 'quantity_unit', label: 'Unit', required: false, aliases: ['unit', 'quantity_unit', 'units'] },
+  { value: 'pickup_location', label: 'Pickup location', required: true, aliases: ['pickup_location', 'location', 'address', 'pickup_address'] },
+  { value: 'safe_until', label: 'Safe until', required: true, aliases: ['safe_until', 'expires', 'expiry', 'best_before', 'use_by'] },
+  { value: 'donor_name', label: 'Donor name', required: false, aliases: ['donor_name', 'donor', 'store', 'branch'] },
+  { value: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'comments'] },
+  { value: 'allergens', label: 'Allergens', required: false, aliases: ['allergens', 'allergen', 'contains'] },
+  { value: 'dietary_tags', label: 'Suitable for', required: false, aliases: ['dietary_tags', 'dietary', 'suitable_for'] },
+]
+
+// Same cap as import_donations
+export const MAX_IMPORT_ROWS = 200
+
+export type ColumnMapping = Partial<Record<ImportField, string>>
+
+export interface ImportRecords {
+  headers: string[]
+  records: Record<string, string>[]
+}
+
+export interface ImportRow {
+  row: number
+  errors: string[]
+  donation: Record<string, unknown> | null
+  items: Record<string, unknown>[]
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''))
+}
+
+const stringify = (value: unknown) => {
+  if (value === null || value === undefined) return ''
+  if (Array.isArray(value)) return value.join(';')
+  return String(value)
+}
+
+export const parseImportFile = (text: string, format: ImportFormat): ImportRecords => {
+  if (format === 'json') {
+    const parsed = JSON.parse(text)
+    const list: unknown[] = Array.isArray(parsed) ? parsed : parsed?.donations
+
+    if (!Array.isArray(list) || list.some(entry => typeof entry !== 'object' || entry === null)) {
+      throw new Error('Expected a list of objects, or { "donations": [...] }')
+    }
+
+    const headers = Array.from(new Set(list.flatMap(entry => Object.keys(entry as object))))
+    const records = list.map(entry =>
+      Object.fromEntries(Object.entries(entry as object).map(([key, value]) => [key, stringify(value)]))
+    )
+    return { headers, records }
+  }
+
+  const [headerRow, ...rows] = parseCsv(text)
+  if (!headerRow) return { headers: [], records: [] }
+
+  const headers = headerRow.map(header => header.trim())
+  const records = rows.map(values =>
+    Object.fromEntries(headers.map((header, index) => [header, values[index] ?? '']))
+  )
+  return { headers, records }
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {}
+
+  for (const field of IMPORT_FIELDS) {
+    const match = headers.find(header => field.aliases.includes(normalizeHeader(header)))
+    if (match) mapping[field.value] = match
+  }
+
+  return mapping
+}
+
+const parseUnit = (value: string): QuantityUnit | null => {
+  const unit = value.trim().toLowerCase()
+  if (!unit) return 'kg'
+
+  const match = QUANTITY_UNITS.find(u => [u.value, u.label, u.singular].includes(unit))
+    ?? QUANTITY_UNITS.find(u => unit === `${u.value}s` || (u.value === 'litres' && ['l', 'liter', 'liters'].includes(unit)))
+  return match?.value ?? null
+}
+
+// Accepts values or labels separated by ; , or |
+const parseTags = (value: string, options: { value: string; label: string }[]) => {
+  const tags: string[] = []
+  const unknown: string[] = []
+
+  for (const raw of value.split(/[;,|]/).map(tag => tag.trim()).filter(Boolean)) {
+    const match = options.find(o => o.value === normalizeHeader(raw) || o.label.toLowerCase() === raw.toLowerCase())
+    if (match) {
+      tags.push(match.value)
+    } else {
+      unknown.push(raw)
+    }
+  }
+
+  return { tags: Array.from(new Set(tags)), unknown }
+}
+
+export const validateImportRows = async (
+  records: Record<string, string>[],
+  mapping: ColumnMapping,
+  defaultDonorName: string,
+  now: Date = new Date()
+): Promise<ImportRow[]> => {
+  // Spreadsheets repeat the same branch address on every row
+  const geocoded = new Map<string, Promise<GeocodeResult | null>>()
+  // One address at a time, so a long sheet doesn't send every branch to the geocoder at once
+  let lastLookup: Promise<unknown> = Promise.resolve()
+
+  return Promise.all(records.map(async (record, index) => {
+    const get = (field: ImportField) => {
+      const column = mapping[field]
+      return column ? (record[column] ?? '').trim() : ''
+    }
+    const errors: string[] = []
+
+    for (const field of IMPORT_FIELDS.filter(f => f.required)) {
+      if (!get(field.value)) errors.push(`${field.label} is missing`)
+    }
+
+    const description = get('description')
+    const quantityAmount = Number(get('quantity_amount'))
+    if (get('quantity_amount') && !(quantityAmount > 0)) {
+      errors.push('Quantity must be a number greater than zero')
+    }
+
+    const quantityUnit = parseUnit(get('quantity_unit'))
+    if (!quantityUnit) errors.push(`Unknown unit "${get('quantity_unit')}"`)
+
+    let category = get('category')
+    if (category) {
+      const match = FOOD_CATEGORIES.find(c => c.toLowerCase() === category.toLowerCase())
+      if (match) {
+        category = match
+      } else {
+        errors.push(`Unknown food type "${category}"`)
+      }
+    } else if (description) {
+      category = await classifyFoodType(description)
+    }
+
+    const safeUntil = new Date(get('safe_until'))
+    if (get('safe_until')) {
+      if (Number.isNaN(safeUntil.getTime())) {
+        errors.push(`Can't read the safe-until date "${get('safe_until')}"`)
+      } else if (safeUntil <= now) {
+        errors.push('Safe-until time has already passed')
+      }
+    }
+
+    const allergens = parseTags(get('allergens'), ALLERGENS)
+    if (allergens.unknown.length > 0) errors.push(`Unknown allergens: ${allergens.unknown.join(', ')}`)
+
+    const dietaryTags = parseTags(get('dietary_tags'), DIETARY_TAGS)
+    if (dietaryTags.unknown.length > 0) errors.push(`Unknown dietary tags: ${dietaryTags.unknown.join(', ')}`)
+
+    const pickupLocation = get('pickup_location')
+    let coordinates: GeocodeResult | null = null
+    if (pickupLocation) {
+      if (!geocoded.has(pickupLocation)) {
+        const lookup = lastLookup.then(() => geocodeAddress(pickupLocation))
+        lastLookup = lookup.catch(() => null)
+        geocoded.set(pickupLocation, lookup)
+      }
+      try {
+        coordinates = await geocoded.get(pickupLocation)!
+        if (!coordinates) errors.push(`Couldn't find the address "${pickupLocation}"`)
+      } catch (error) {
+        if (!(error instanceof GeocodingError)) throw error
+        errors.push(`Couldn't look up "${pickupLocation}" right now, try again shortly`)
+      }
+    }
+
+    // 1-based, matching the row numbers import_donations reports
+    const row = index + 1
+
+    if (errors.length > 0) {
+      return { row, errors, donation: null, items: [] }
+    }
+
+    const items = [{
+      category,
+      description,
+      quantity_amount: quantityAmount,
+      quantity_unit: quantityUnit!,
+      notes: null,
+    }]
+
+    return {
+      row,
+      errors,
+      donation: {
+        donor_name: get('donor_name') || defaultDonorName,
+        pickup_location: pickupLocation,
+        pickup_point: coordinates ? toPoint(coordinates) : null,
+        safe_until: safeUntil.toISOString(),
+        notes: get('notes') || null,
+        allergens: allergens.tags,
+        dietary_tags: dietaryTags.tags,
+        ...summarizeItems(items),
+      },
+      items,
+    }
+  }))
+}
+
+// Inserts every row in one transaction; any failure rolls all of them back
+export const importDonations = (rows: ImportRow[]) => {
+  return supabase.rpc('import_donations', {
+    p_rows: rows.map(row => ({ donation: row.donation, items: row.items })),
+  })
+}
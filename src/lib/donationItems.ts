@@ -0,0 +1,109 @@
+import { supabase, type Database, type QuantityUnit } from './supabase'
+import { formatQuantity, toKilograms } from './quantity'
+
+export type DonationItem = Database['public']['Tables']['donation_items']['Row']
+
+export const FOOD_CATEGORIES = [
+  'Prepared Meals',
+  'Bakery Items',
+  'Dairy Products',
+  'Fresh Produce',
+  'Packaged Foods',
+  'Beverages',
+  'Canned Goods',
+  'Frozen Items',
+  'Other Food Items',
+]
+
+// Form state for one row of the item editor, amounts stay strings while typing
+export interface DonationItemDraft {
+  category: string
+  description: string
+  quantity_amount: string
+  quantity_unit: QuantityUnit
+  notes: string
+}
+
+export const emptyItemDraft = (): DonationItemDraft => ({
+  category: '',
+  description: '',
+  quantity_amount: '',
+  quantity_unit: 'kg',
+  notes: '',
+})
+
+// Back to editable form state, for items saved on a schedule, template or past donation
+export const toItemDraft = (
+  item: Pick<DonationItem, 'category' | 'description' | 'quantity_amount' | 'quantity_unit' | 'notes'>
+): DonationItemDraft => ({
+  category: item.category,
+  description: item.description || '',
+  quantity_amount: String(item.quantity_amount),
+  quantity_unit: item.quantity_unit,
+  notes: item.notes || '',
+})
+
+type ItemQuantity = Pick<DonationItem, 'category' | 'quantity_amount' | 'quantity_unit'>
+
+// Summary written to donations.food_type / quantity_* so lists and impact totals
+// keep working. Mixed units are added up by weight.
+export const summarizeItems = (items: ItemQuantity[]) => {
+  const categories = Array.from(new Set(items.map(item => item.category)))
+  const units = new Set(items.map(item => item.quantity_unit))
+
+  if (units.size === 1) {
+    return {
+      food_type: categories.join(', '),
+      quantity_amount: items.reduce((sum, item) => sum + Number(item.quantity_amount), 0),
+      quantity_unit: items[0].quantity_unit,
+    }
+  }
+
+  const kilograms = items.reduce((sum, item) => sum + toKilograms(item.quantity_amount, item.quantity_unit), 0)
+
+  return {
+    food_type: categories.join(', '),
+    quantity_amount: Math.round(kilograms * 100) / 100,
+    quantity_unit: 'kg' as QuantityUnit,
+  }
+}
+
+export const sortItems = (items: DonationItem[] | null | undefined): DonationItem[] => {
+  return [...(items || [])].sort((a, b) => a.position - b.position)
+}
+
+export const formatItem = (item: Pick<DonationItem, 'category' | 'description' | 'quantity_amount' | 'quantity_unit'>) => {
+  return `${formatQuantity(item.quantity_amount, item.quantity_unit)} ${item.description || item.category}`
+}
+
+export const fetchDonationItems = async (donationId: string): Promise<DonationItem[]> => {
+  const { data, error } = await supabase
+    .from('donation_items')
+    .select('*')
+    .eq('donation_id', donationId)
+    .order('position', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+type NewDonation = Pick<
+  Database['public']['Tables']['donations']['Insert'],
+  | 'donor_name' | 'pickup_location' | 'pickup_point' | 'safe_until' | 'notes' | 'allergens' | 'dietary_tags'
+  | 'prepared_at' | 'holding_temperature' | 'packaging' | 'needs_refrigeration' | 'needs_freezer'
+>
+
+type NewDonationItem = Pick<DonationItem, 'category' | 'description' | 'quantity_amount' | 'quantity_unit' | 'notes'>
+
+// Inserts the donation, its items and pickup windows in one transaction
+export const createDonation = (
+  donation: NewDonation,
+  items: NewDonationItem[],
+  pickupWindows: { starts_at: string; ends_at: string }[] = []
+) => {
+  return supabase.rpc('create_donation', {
+    p_donation: { ...donation, ...summarizeItems(items) },
+    p_items: items,
+    p_pickup_windows: pickupWindows,
+  })
+}
@@ -0,0 +1,59 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+
+// SQLSTATE raised by the transition functions when the donation has already moved on
+// (another shelter accepted it, another volunteer claimed it, the donor cancelled it, ...)
+export const TRANSITION_CONFLICT_CODE = 'PT409'
+
+export const isTransitionConflict = (error: PostgrestError | null): error is PostgrestError => {
+  return error?.code === TRANSITION_CONFLICT_CODE
+}
+
+export const acceptDonation = (donationId: string) => {
+  return supabase.rpc('accept_donation', { p_donation_id: donationId })
+}
+
+export const declineDonation = (donationId: string, reason: string) => {
+  return supabase.rpc('decline_donation', { p_donation_id: donationId, p_reason: reason })
+}
+
+export const claimDonation = (donationId: string, slotStartsAt: string | null = null) => {
+  return supabase.rpc('claim_donation', { p_donation_id: donationId, p_slot_starts_at: slotStartsAt })
+}
+
+export const releaseDonation = (donationId: string, reason: string) => {
+  return supabase.rpc('release_donation', { p_donation_id: donationId, p_reason: reason })
+}
+
+export const pickUpDonation = (donationId: string) => {
+  return supabase.rpc('pick_up_donation', { p_donation_id: donationId })
+}
+
+export const deliverDonation = (donationId: string, recipientName: string | null) => {
+  return supabase.rpc('deliver_donation', { p_donation_id: donationId, p_recipient_name: recipientName })
+}
+
+export const confirmDonationReceipt = (donationId: string) => {
+  return supabase.rpc('confirm_donation_receipt', { p_donation_id: donationId })
+}
+
+export type DiscrepancyType = 'short' | 'spoiled' | 'other'
+
+export const DISCREPANCY_TYPES: { value: DiscrepancyType; label: string }[] = [
+  { value: 'short', label: 'Less food than listed' },
+  { value: 'spoiled', label: 'Spoiled or unsafe' },
+  { value: 'other', label: 'Something else' },
+]
+
+export const reportDeliveryDiscrepancy = (donationId: string, type: DiscrepancyType, reason: string) => {
+  return supabase.rpc('report_delivery_discrepancy', { p_donation_id: donationId, p_type: type, p_reason: reason })
+}
+
+// Closes a reported problem, the resolution is shown to everyone involved
+export const resolveDeliveryDiscrepancy = (donationId: string, resolution: string) => {
+  return supabase.rpc('resolve_delivery_discrepancy', { p_donation_id: donationId, p_resolution: resolution })
+}
+
+export const cancelDonation = (donationId: string, reason: string) => {
+  return supabase.rpc('cancel_donation', { p_donation_id: donationId, p_reason: reason })
+}
@@ -0,0 +1,43 @@
+export type ExpiryUrgency = 'expired' | 'critical' | 'soon' | 'ok'
+
+// Donations within these windows are highlighted to shelters and volunteers
+const CRITICAL_WINDOW_HOURS = 2
+const SOON_WINDOW_HOURS = 6
+
+export const getMinutesRemaining = (safeUntil: string, now: Date = new Date()): number => {
+  return Math.floor((new Date(safeUntil).getTime() - now.getTime()) / (1000 * 60))
+}
+
+export const getExpiryUrgency = (safeUntil: string, now: Date = new Date()): ExpiryUrgency => {
+  const minutes = getMinutesRemaining(safeUntil, now)
+
+  if (minutes <= 0) return 'expired'
+  if (minutes < CRITICAL_WINDOW_HOURS * 60) return 'critical'
+  if (minutes < SOON_WINDOW_HOURS * 60) return 'soon'
+  return 'ok'
+}
+
+export const formatTimeRemaining = (safeUntil: string, now: Date = new Date()): string => {
+  const minutes = getMinutesRemaining(safeUntil, now)
+
+  if (minutes <= 0) return 'Expired'
+  if (minutes < 60) return `${minutes}m left`
+
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ${minutes % 60}m left`
+
+  return `${Math.floor(hours / 24)}d ${hours % 24}h left`
+}
+
+// Soonest to spoil first, so the most urgent food is always at the top
+export const sortByUrgency = <T extends { safe_until: string }>(donations: T[]): T[] => {
+  return [...donations].sort(
+    (a, b) => new Date(a.safe_until).getTime() - new Date(b.safe_until).getTime()
+  )
+}
+
+// Value for a datetime-local input, in the browser's local time
+export const toDateTimeLocalValue = (date: Date): string => {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
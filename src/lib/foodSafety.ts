@@ -0,0 +1,174 @@
+export type HoldingTemperature = 'hot' | 'chilled' | 'frozen' | 'ambient'
+export type Packaging = 'sealed' | 'covered' | 'open'
+
+export const HOLDING_TEMPERATURES: { value: HoldingTemperature; label: string; description: string }[] = [
+  { value: 'hot', label: 'Hot', description: 'Kept above 63°C / 145°F' },
+  { value: 'chilled', label: 'Chilled', description: 'Kept in a fridge below 5°C / 41°F' },
+  { value: 'frozen', label: 'Frozen', description: 'Kept in a freezer' },
+  { value: 'ambient', label: 'Room temperature', description: 'Shelf-stable or left out' },
+]
+
+export const PACKAGING_OPTIONS: { value: Packaging; label: string }[] = [
+  { value: 'sealed', label: 'Sealed' },
+  { value: 'covered', label: 'Covered' },
+  { value: 'open', label: 'Open / unwrapped' },
+]
+
+export interface FoodSafetyChecklist {
+  food_type: string
+  prepared_at: string | null
+  holding_temperature: HoldingTemperature | null
+  packaging: Packaging | null
+  needs_refrigeration: boolean
+  needs_freezer: boolean
+  safe_until: string | null
+}
+
+// Form state for the checklist; prepared_at is a datetime-local value
+export interface FoodSafetyDraft {
+  prepared_at: string
+  holding_temperature: HoldingTemperature | ''
+  packaging: Packaging | ''
+  needs_refrigeration: boolean
+  needs_freezer: boolean
+}
+
+export const emptyFoodSafetyDraft = (): FoodSafetyDraft => ({
+  prepared_at: '',
+  holding_temperature: '',
+  packaging: '',
+  needs_refrigeration: false,
+  needs_freezer: false,
+})
+
+export const toFoodSafetyChecklist = (
+  draft: FoodSafetyDraft,
+  foodType: string,
+  safeUntil: string
+): FoodSafetyChecklist => ({
+  food_type: foodType,
+  prepared_at: draft.prepared_at ? new Date(draft.prepared_at).toISOString() : null,
+  holding_temperature: draft.holding_temperature || null,
+  packaging: draft.packaging || null,
+  needs_refrigeration: draft.needs_refrigeration,
+  needs_freezer: draft.needs_freezer,
+  safe_until: safeUntil ? new Date(safeUntil).toISOString() : null,
+})
+
+// Tunable limits for the rules below, based on common food bank safe-handling guidance
+export const FOOD_SAFETY_LIMITS = {
+  // Cooked food left at room temperature
+  maxHoursAmbientPrepared: 2,
+  // Cooked food kept hot before it has to be chilled or eaten
+  maxHoursHotHeld: 4,
+  // Chilled cooked food from preparation to its safe-until time
+  maxHoursChilledPrepared: 72,
+}
+
+// Categories that count as cooked or perishable for the time rules
+const PERISHABLE_CATEGORIES = ['Prepared Meals', 'Dairy Products', 'Frozen Items']
+
+export type FoodSafetySeverity = 'warning' | 'danger'
+
+export interface FoodSafetyRule {
+  id: string
+  severity: FoodSafetySeverity
+  message: string
+  violated: (checklist: FoodSafetyChecklist, now: Date) => boolean
+}
+
+const hoursSince = (dateString: string | null, now: Date) => {
+  if (!dateString) return 0
+  return (now.getTime() - new Date(dateString).getTime()) / (1000 * 60 * 60)
+}
+
+const isPerishable = (checklist: FoodSafetyChecklist) => {
+  return PERISHABLE_CATEGORIES.some(category => checklist.food_type.includes(category))
+}
+
+// Danger rules block the donation, warnings are shown to the donor
+export const FOOD_SAFETY_RULES: FoodSafetyRule[] = [
+  {
+    id: 'prepared-in-future',
+    severity: 'danger',
+    message: 'The preparation time is in the future.',
+    violated: (c, now) => !!c.prepared_at && new Date(c.prepared_at) > now,
+  },
+  {
+    id: 'ambient-too-long',
+    severity: 'danger',
+    message: `Perishable food left at room temperature for more than ${FOOD_SAFETY_LIMITS.maxHoursAmbientPrepared} hours is not safe to donate.`,
+    violated: (c, now) =>
+      c.holding_temperature === 'ambient' && isPerishable(c) &&
+      hoursSince(c.prepared_at, now) > FOOD_SAFETY_LIMITS.maxHoursAmbientPrepared,
+  },
+  {
+    id: 'hot-held-too-long',
+    severity: 'warning',
+    message: `Hot food held for more than ${FOOD_SAFETY_LIMITS.maxHoursHotHeld} hours should be chilled before pickup.`,
+    violated: (c, now) =>
+      c.holding_temperature === 'hot' && hoursSince(c.prepared_at, now) > FOOD_SAFETY_LIMITS.maxHoursHotHeld,
+  },
+  {
+    id: 'chilled-safe-until-too-late',
+    severity: 'warning',
+    message: `Chilled cooked food is usually safe for ${FOOD_SAFETY_LIMITS.maxHoursChilledPrepared} hours after preparation. Check the safe-until time.`,
+    violated: (c) =>
+      c.holding_temperature === 'chilled' && isPerishable(c) && !!c.prepared_at && !!c.safe_until &&
+      (new Date(c.safe_until).getTime() - new Date(c.prepared_at).getTime()) / (1000 * 60 * 60) >
+        FOOD_SAFETY_LIMITS.maxHoursChilledPrepared,
+  },
+  {
+    id: 'chilled-without-refrigeration',
+    severity: 'warning',
+    message: 'Food held chilled should be kept refrigerated in transit.',
+    violated: (c) => c.holding_temperature === 'chilled' && !c.needs_refrigeration && !c.needs_freezer,
+  },
+  {
+    id: 'frozen-without-freezer',
+    severity: 'warning',
+    message: 'Frozen food should stay frozen in transit.',
+    violated: (c) => c.holding_temperature === 'frozen' && !c.needs_freezer,
+  },
+  {
+    id: 'open-packaging',
+    severity: 'warning',
+    message: 'Open food must be covered or wrapped before a volunteer can carry it.',
+    violated: (c) => c.packaging === 'open',
+  },
+]
+
+export const checkFoodSafety = (checklist: FoodSafetyChecklist, now = new Date()) => {
+  return FOOD_SAFETY_RULES.filter(rule => rule.violated(checklist, now))
+}
+
+export interface HandlingRequirement {
+  label: string
+  tone: 'blue' | 'indigo' | 'red' | 'gray'
+}
+
+// What a volunteer needs to know before putting the food in their car
+export const getHandlingRequirements = (donation: {
+  holding_temperature: HoldingTemperature | null
+  packaging: Packaging | null
+  needs_refrigeration: boolean
+  needs_freezer: boolean
+}): HandlingRequirement[] => {
+  const requirements: HandlingRequirement[] = []
+
+  if (donation.needs_freezer) {
+    requirements.push({ label: 'Keep frozen — bring a freezer bag or cooler with ice packs', tone: 'indigo' })
+  } else if (donation.needs_refrigeration) {
+    requirements.push({ label: 'Keep refrigerated — bring a cooler with ice packs', tone: 'blue' })
+  }
+
+  if (donation.holding_temperature === 'hot') {
+    requirements.push({ label: 'Hot food — bring an insulated bag and deliver straight away', tone: 'red' })
+  }
+
+  if (donation.packaging === 'open') {
+    requirements.push({ label: 'Unwrapped food — bring covers or containers', tone: 'gray' })
+  }
+
+  return requirements
+}
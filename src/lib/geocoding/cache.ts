@@ -0,0 +1,19 @@
+import { supabase } from '../supabase'
+import type { Geocoder, GeocodeResult } from './types'
+
+// Sends geocode() through the geocode edge function, which answers from the shared geocode_cache
+// table and is the only thing that writes it. If the function can't be reached the address is looked
+// up directly, a cache outage should never stop a donation being posted.
+export const withGeocodeCache = (geocoder: Geocoder): Geocoder => ({
+  ...geocoder,
+  geocode: async (address) => {
+    const { data, error } = await supabase.functions.invoke<{ result: GeocodeResult | null }>('geocode', {
+      body: { address },
+    })
+
+    if (!error && data) return data.result
+
+    console.error('Error geocoding through the cache:', error)
+    return geocoder.geocode(address)
+  },
+})
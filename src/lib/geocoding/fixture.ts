@@ -0,0 +1,38 @@
+import type { LatLng } from '../coordinates'
+import { normalizeAddress, type Geocoder, type GeocodeResult } from './types'
+
+// Offline geocoder for tests and local demos. A fixture matches any address that contains its key.
+export const createFixtureGeocoder = (fixtures: Record<string, GeocodeResult>): Geocoder => {
+  const entries = Object.entries(fixtures).map(([key, result]) => [normalizeAddress(key), result] as const)
+
+  const search = async (query: string, limit = 5) => {
+    const normalized = normalizeAddress(query)
+    return entries
+      .filter(([key, result]) => normalized.includes(key) || normalizeAddress(result.label).includes(normalized))
+      .slice(0, limit)
+      .map(([, result]) => result)
+  }
+
+  // Nearest fixture within about 50 km
+  const reverse = async ({ lat, lng }: LatLng) => {
+    const distance = (result: GeocodeResult) => Math.hypot(result.lat - lat, result.lng - lng)
+    const nearest = entries.map(([, result]) => result).sort((a, b) => distance(a) - distance(b))[0]
+    return nearest && distance(nearest) < 0.5 ? nearest : null
+  }
+
+  return {
+    name: 'fixture',
+    search,
+    reverse,
+    geocode: async (address) => (await search(address, 1))[0] ?? null,
+  }
+}
+
+// The cities the old mock knew about, so local setups without a geocoder still get coordinates
+export const DEMO_FIXTURES: Record<string, GeocodeResult> = {
+  'new york': { label: 'New York, NY, USA', lat: 40.7128, lng: -74.006 },
+  'los angeles': { label: 'Los Angeles, CA, USA', lat: 34.0522, lng: -118.2437 },
+  'chicago': { label: 'Chicago, IL, USA', lat: 41.8781, lng: -87.6298 },
+  'houston': { label: 'Houston, TX, USA', lat: 29.7604, lng: -95.3698 },
+  'phoenix': { label: 'Phoenix, AZ, USA', lat: 33.4484, lng: -112.074 },
+}
@@ -0,0 +1,97 @@
+import type { LatLng } from '../coordinates'
+import { GeocodingError, type Geocoder, type GeocodeResult } from './types'
+
+export type HttpGeocoderApi = 'nominatim' | 'pelias'
+
+interface HttpGeocoderOptions {
+  api: HttpGeocoderApi
+  baseUrl: string
+  apiKey?: string
+  // The public Nominatim instance allows one request per second
+  minIntervalMs?: number
+}
+
+interface NominatimPlace {
+  error?: string
+  lat: string
+  lon: string
+  display_name: string
+}
+
+interface PeliasFeature {
+  geometry: { coordinates: [number, number] }
+  properties: { label: string }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Talks to Nominatim (/search, /reverse) or Pelias (/v1/search, /v1/reverse),
+// either the public services or a self-hosted instance
+export const createHttpGeocoder = ({ api, baseUrl, apiKey, minIntervalMs = 0 }: HttpGeocoderOptions): Geocoder => {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  // Requests go out one at a time, spaced by minIntervalMs
+  const throttled = <T>(request: () => Promise<T>): Promise<T> => {
+    const result = queue.then(request)
+    queue = result.then(() => wait(minIntervalMs), () => wait(minIntervalMs))
+    return result
+  }
+
+  const request = (endpoint: 'search' | 'reverse', params: Record<string, string>) => throttled(async () => {
+    const path = api === 'nominatim' ? endpoint : `v1/${endpoint}`
+    const url = new URL(path, baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`)
+
+    if (api === 'nominatim') url.searchParams.set('format', 'jsonv2')
+    for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value)
+    if (apiKey) url.searchParams.set('api_key', apiKey)
+
+    let response: Response
+    try {
+      response = await fetch(url, { headers: { Accept: 'application/json' } })
+    } catch (error) {
+      throw new GeocodingError(`Could not reach the ${api} geocoder: ${(error as Error).message}`)
+    }
+
+    if (!response.ok) {
+      throw new GeocodingError(`The ${api} geocoder answered ${response.status}`)
+    }
+
+    return response.json()
+  })
+
+  const fromNominatim = (place: NominatimPlace): GeocodeResult => ({
+    label: place.display_name,
+    lat: Number(place.lat),
+    lng: Number(place.lon),
+  })
+
+  const fromPelias = (body: { features?: PeliasFeature[] }): GeocodeResult[] => (body.features || []).map(feature => ({
+    label: feature.properties.label,
+    lat: feature.geometry.coordinates[1],
+    lng: feature.geometry.coordinates[0],
+  }))
+
+  const search = async (query: string, limit = 5): Promise<GeocodeResult[]> => {
+    if (api === 'nominatim') {
+      const places: NominatimPlace[] = await request('search', { q: query, limit: String(limit) })
+      return places.map(fromNominatim)
+    }
+    return fromPelias(await request('search', { text: query, size: String(limit) }))
+  }
+
+  const reverse = async ({ lat, lng }: LatLng): Promise<GeocodeResult | null> => {
+    if (api === 'nominatim') {
+      // Nominatim answers 200 with an error field when there's nothing nearby
+      const place: NominatimPlace = await request('reverse', { lat: String(lat), lon: String(lng) })
+      return place.error ? null : fromNominatim(place)
+    }
+    return fromPelias(await request('reverse', { 'point.lat': String(lat), 'point.lon': String(lng), size: '1' }))[0] ?? null
+  }
+
+  return {
+    name: `${api}:${baseUrl}`,
+    search,
+    reverse,
+    geocode: async (address) => (await search(address, 1))[0] ?? null,
+  }
+}
@@ -0,0 +1,51 @@
+import { withGeocodeCache } from './cache'
+import { createFixtureGeocoder, DEMO_FIXTURES } from './fixture'
+import { createHttpGeocoder } from './http'
+import type { LatLng } from '../coordinates'
+import type { Geocoder } from './types'
+
+export { GeocodingError, normalizeAddress, type Geocoder, type GeocodeResult } from './types'
+export { createHttpGeocoder, type HttpGeocoderApi } from './http'
+export { createFixtureGeocoder, DEMO_FIXTURES } from './fixture'
+export { withGeocodeCache } from './cache'
+
+const PUBLIC_NOMINATIM_URL = 'https://nominatim.openstreetmap.org'
+
+// VITE_GEOCODER picks the provider: nominatim (default), pelias or fixture.
+// VITE_GEOCODER_URL points nominatim/pelias at a self-hosted instance.
+const provider = import.meta.env.VITE_GEOCODER || 'nominatim'
+
+// The public Nominatim usage policy forbids search-as-you-type, so address suggestions need a
+// self-hosted or commercial instance. Without one, addresses are geocoded when the form is submitted.
+export const addressSuggestionsEnabled = provider !== 'nominatim' || !!import.meta.env.VITE_GEOCODER_URL
+
+const createConfiguredGeocoder = (): Geocoder => {
+  const baseUrl = import.meta.env.VITE_GEOCODER_URL
+  const apiKey = import.meta.env.VITE_GEOCODER_API_KEY
+
+  switch (provider) {
+    case 'fixture':
+      return createFixtureGeocoder(DEMO_FIXTURES)
+    case 'pelias':
+      if (!baseUrl) throw new Error('VITE_GEOCODER_URL is required for the pelias geocoder')
+      return withGeocodeCache(createHttpGeocoder({ api: 'pelias', baseUrl, apiKey }))
+    case 'nominatim':
+      return withGeocodeCache(createHttpGeocoder({
+        api: 'nominatim',
+        baseUrl: baseUrl || PUBLIC_NOMINATIM_URL,
+        apiKey,
+        minIntervalMs: baseUrl ? 0 : 1000,
+      }))
+    default:
+      throw new Error(`Unknown VITE_GEOCODER "${provider}", expected nominatim, pelias or fixture`)
+  }
+}
+
+export const geocoder = createConfiguredGeocoder()
+
+// null means the address wasn't found; a GeocodingError means the provider couldn't be reached
+export const geocodeAddress = (address: string) => geocoder.geocode(address)
+
+export const searchAddresses = (query: string, limit?: number) => geocoder.search(query, limit)
+
+export const reverseGeocode = (position: LatLng) => geocoder.reverse(position)
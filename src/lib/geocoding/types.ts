@@ -0,0 +1,24 @@
+import type { LatLng } from '../coordinates'
+
+export interface GeocodeResult extends LatLng {
+  label: string
+}
+
+// Providers return null / [] when an address isn't found and throw when they can't be reached,
+// so callers can tell "no such place" from "try again later"
+export interface Geocoder {
+  name: string
+  geocode: (address: string) => Promise<GeocodeResult | null>
+  search: (query: string, limit?: number) => Promise<GeocodeResult[]>
+  reverse: (position: LatLng) => Promise<GeocodeResult | null>
+}
+
+export class GeocodingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GeocodingError'
+  }
+}
+
+// Cache key, so "12 Main St" and " 12 main st " share an entry
+export const normalizeAddress = (address: string) => address.trim().toLowerCase().replace(/\s+/g, ' ')
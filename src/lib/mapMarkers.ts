@@ -0,0 +1,76 @@
+import { toLatLng, type LatLng } from './coordinates'
+import { getExpiryUrgency } from './expiry'
+import { isAwaitingPickup } from './pickupWindows'
+import { toPixel, type Pixel } from './mapTiles'
+
+// Pins are coloured by how soon the food spoils while it's waiting, by status once it's moving.
+// Listed most pressing first, clusters take the colour of their most pressing pin.
+export const PIN_COLORS = {
+  critical: { label: 'Spoils within 2 hours', className: 'bg-red-600' },
+  soon: { label: 'Spoils within 6 hours', className: 'bg-orange-500' },
+  ok: { label: 'Waiting for pickup', className: 'bg-green-600' },
+  moving: { label: 'On its way', className: 'bg-blue-600' },
+  done: { label: 'Delivered', className: 'bg-gray-500' },
+}
+
+export type PinColor = keyof typeof PIN_COLORS
+
+const PIN_COLOR_ORDER = Object.keys(PIN_COLORS) as PinColor[]
+
+export const getPinColor = (donation: { status: string; safe_until: string }, now: Date = new Date()): PinColor => {
+  if (isAwaitingPickup(donation.status)) {
+    const urgency = getExpiryUrgency(donation.safe_until, now)
+    return urgency === 'expired' ? 'critical' : urgency
+  }
+  return donation.status === 'in_transit' ? 'moving' : 'done'
+}
+
+export interface MapMarker {
+  id: string
+  position: LatLng
+  color: PinColor
+  label: string
+}
+
+// Pins for the donations that have a map location, use the rest's count to explain what's missing
+export const toMapMarkers = <T extends { id: string; pickup_lat: number | null; pickup_lng: number | null; status: string; safe_until: string }>(
+  donations: T[],
+  label: (donation: T) => string
+): MapMarker[] => {
+  return donations.flatMap(donation => {
+    const position = toLatLng(donation.pickup_lat, donation.pickup_lng)
+    return position ? [{ id: donation.id, position, color: getPinColor(donation), label: label(donation) }] : []
+  })
+}
+
+export interface MarkerCluster {
+  key: string
+  // World pixel position at the zoom it was built for
+  pixel: Pixel
+  markers: MapMarker[]
+  color: PinColor
+}
+
+// Grid clustering in world pixels, so clusters don't reshuffle while the map is panned
+export const clusterMarkers = (markers: MapMarker[], zoom: number, cellSize = 56): MarkerCluster[] => {
+  const cells = new Map<string, { pixels: Pixel[]; markers: MapMarker[] }>()
+
+  for (const marker of markers) {
+    const pixel = toPixel(marker.position, zoom)
+    const key = `${Math.floor(pixel.x / cellSize)}:${Math.floor(pixel.y / cellSize)}`
+    const cell = cells.get(key) ?? { pixels: [], markers: [] }
+    cell.pixels.push(pixel)
+    cell.markers.push(marker)
+    cells.set(key, cell)
+  }
+
+  return [...cells.entries()].map(([key, cell]) => ({
+    key,
+    pixel: {
+      x: cell.pixels.reduce((sum, p) => sum + p.x, 0) / cell.pixels.length,
+      y: cell.pixels.reduce((sum, p) => sum + p.y, 0) / cell.pixels.length,
+    },
+    markers: cell.markers,
+    color: PIN_COLOR_ORDER.find(color => cell.markers.some(marker => marker.color === color)) ?? 'ok',
+  }))
+}
@@ -0,0 +1,100 @@
+import type { LatLng } from './coordinates'
+
+export const TILE_SIZE = 256
+
+const OSM_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+
+// VITE_MAP_TILE_URL points the maps at another tile server, e.g. a self-hosted one:
+// https://tiles.example.org/{z}/{x}/{y}.png. Credit it with VITE_MAP_ATTRIBUTION (and _URL).
+export const tileSource = {
+  url: import.meta.env.VITE_MAP_TILE_URL || OSM_TILE_URL,
+  attribution: import.meta.env.VITE_MAP_ATTRIBUTION || 'OpenStreetMap contributors',
+  attributionUrl: import.meta.env.VITE_MAP_ATTRIBUTION_URL
+    ?? (import.meta.env.VITE_MAP_TILE_URL ? '' : 'https://www.openstreetmap.org/copyright'),
+  maxZoom: Number(import.meta.env.VITE_MAP_MAX_ZOOM) || 19,
+}
+
+export const MIN_ZOOM = 2
+
+export interface Pixel {
+  x: number
+  y: number
+}
+
+// Web Mercator, the projection slippy map tiles use
+export const toPixel = ({ lat, lng }: LatLng, zoom: number): Pixel => {
+  const worldSize = TILE_SIZE * 2 ** zoom
+  const latRad = (lat * Math.PI) / 180
+  return {
+    x: ((lng + 180) / 360) * worldSize,
+    y: ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * worldSize,
+  }
+}
+
+export const fromPixel = ({ x, y }: Pixel, zoom: number): LatLng => {
+  const worldSize = TILE_SIZE * 2 ** zoom
+  return {
+    lat: (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / worldSize))) * 180) / Math.PI,
+    lng: (x / worldSize) * 360 - 180,
+  }
+}
+
+export interface Tile {
+  key: string
+  src: string
+  // Offset from the map centre in pixels
+  left: number
+  top: number
+}
+
+// Tiles covering a view of halfWidth x halfHeight pixels either side of center
+export const tilesAround = (center: LatLng, zoom: number, halfWidth: number, halfHeight: number): Tile[] => {
+  const centerPixel = toPixel(center, zoom)
+  const tileCount = 2 ** zoom
+  const tiles: Tile[] = []
+
+  for (let x = Math.floor((centerPixel.x - halfWidth) / TILE_SIZE); x <= Math.floor((centerPixel.x + halfWidth) / TILE_SIZE); x++) {
+    for (let y = Math.floor((centerPixel.y - halfHeight) / TILE_SIZE); y <= Math.floor((centerPixel.y + halfHeight) / TILE_SIZE); y++) {
+      if (y < 0 || y >= tileCount) continue
+      const wrappedX = ((x % tileCount) + tileCount) % tileCount
+      tiles.push({
+        key: `${zoom}/${x}/${y}`,
+        src: tileSource.url.replace('{z}', String(zoom)).replace('{x}', String(wrappedX)).replace('{y}', String(y)),
+        left: x * TILE_SIZE - centerPixel.x,
+        top: y * TILE_SIZE - centerPixel.y,
+      })
+    }
+  }
+
+  return tiles
+}
+
+// Centre and zoom that show every position in a width x height view, keeping padding pixels clear
+export const fitPositions = (
+  positions: LatLng[],
+  width: number,
+  height: number,
+  padding = 40,
+  maxZoom = 15
+): { center: LatLng; zoom: number } | null => {
+  if (positions.length === 0) return null
+
+  for (let zoom = Math.min(maxZoom, tileSource.maxZoom); zoom > MIN_ZOOM; zoom--) {
+    const pixels = positions.map(position => toPixel(position, zoom))
+    const xs = pixels.map(p => p.x)
+    const ys = pixels.map(p => p.y)
+    const minX = Math.min(...xs)
+    const maxX = Math.max(...xs)
+    const minY = Math.min(...ys)
+    const maxY = Math.max(...ys)
+
+    if (maxX - minX <= width - padding * 2 && maxY - minY <= height - padding * 2) {
+      return { center: fromPixel({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, zoom), zoom }
+    }
+  }
+
+  const pixels = positions.map(position => toPixel(position, MIN_ZOOM))
+  const x = pixels.reduce((sum, p) => sum + p.x, 0) / pixels.length
+  const y = pixels.reduce((sum, p) => sum + p.y, 0) / pixels.length
+  return { center: fromPixel({ x, y }, MIN_ZOOM), zoom: MIN_ZOOM }
+}
@@ -0,0 +1,25 @@
+import { supabase, type Database } from './supabase'
+
+// Shelters ranked for a donation by match_donation() in the good_fit migration
+export type DonationMatch = Database['public']['Tables']['donation_matches']['Row']
+
+// The donation is highlighted to shelters ranked this high
+export const RECOMMENDED_RANK = 3
+
+export const isRecommended = (match: Pick<DonationMatch, 'rank'> | null | undefined): boolean =>
+  !!match && match.rank <= RECOMMENDED_RANK
+
+// Best-ranked shelter for a donation, null when no shelter can take it.
+// Matches are written when the donation's transaction commits, so they're ready once createDonation returns.
+export const fetchTopMatch = async (donationId: string): Promise<DonationMatch | null> => {
+  const { data, error } = await supabase
+    .from('donation_matches')
+    .select('*')
+    .eq('donation_id', donationId)
+    .order('rank', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,27 @@
+import { supabase } from './supabase'
+import type { LatLng } from './coordinates'
+
+const EARTH_RADIUS_KM = 6371
+
+// Choices for the "Within" filter on Incoming Requests
+export const RADIUS_OPTIONS_KM = [5, 10, 25, 50]
+
+// Great-circle distance, close enough to PostGIS' spheroid for a label
+export const distanceKm = (from: LatLng, to: LatLng): number => {
+  const toRad = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRad(to.lat - from.lat)
+  const dLng = toRad(to.lng - from.lng)
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
+
+export const formatDistance = (km: number): string => {
+  if (km < 1) return `${Math.max(Math.round(km * 100) * 10, 10)} m away`
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)} km away`
+}
+
+// Donations the caller can see within radiusKm of origin, nearest first. Filter before
+// selecting related rows, e.g. .eq('status', 'pending').select('*, donation_items(*)')
+export const donationsWithin = (origin: LatLng, radiusKm: number) => {
+  return supabase.rpc('donations_within', { p_lat: origin.lat, p_lng: origin.lng, p_radius_km: radiusKm })
+}
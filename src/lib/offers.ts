@@ -0,0 +1,48 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+import type { Database } from './supabase'
+import { toLatLng, type LatLng } from './coordinates'
+import { distanceKm } from './nearby'
+
+type Donation = Database['public']['Tables']['donations']['Row']
+
+// Where a donation is in the staged rollout set up by the widening_rings migration
+export type DonationOffer = Pick<Donation, 'offer_tier' | 'offer_radius_km' | 'offer_widens_at'>
+
+// accept_donation raises PT403 with this DETAIL for a shelter outside the donation's current ring
+export const OFFER_NOT_REACHED_DETAIL = 'not_offered'
+
+export const isOfferRefusal = (error: PostgrestError | null): error is PostgrestError => {
+  return error?.code === 'PT403' && error.details === OFFER_NOT_REACHED_DETAIL
+}
+
+// Mirrors offer_reaches_caller() for rows that arrive over realtime; keep the two in step.
+// Shelters without a location only see a donation once it's offered to everyone.
+export const offerReaches = (
+  shelter: LatLng | null,
+  donation: DonationOffer & { pickup_lat: number | null; pickup_lng: number | null }
+): boolean => {
+  if (donation.offer_radius_km == null) return true
+
+  const position = toLatLng(donation.pickup_lat, donation.pickup_lng)
+  if (!position) return true
+  if (!shelter) return false
+
+  return distanceKm(shelter, position) <= donation.offer_radius_km
+}
+
+// Minutes until the next ring, null once the donation is offered to everyone
+export const getMinutesUntilWidening = (offer: DonationOffer, now: Date = new Date()): number | null => {
+  if (offer.offer_radius_km == null || !offer.offer_widens_at) return null
+  return Math.max(0, Math.ceil((new Date(offer.offer_widens_at).getTime() - now.getTime()) / 60000))
+}
+
+export const describeOffer = (offer: DonationOffer, now: Date = new Date()): string => {
+  if (offer.offer_radius_km == null) return 'Offered to all shelters'
+
+  const minutes = getMinutesUntilWidening(offer, now)
+  const reach = `Offered to shelters within ${offer.offer_radius_km} km`
+
+  // The server job runs every minute, so a due donation widens shortly
+  if (!minutes) return `${reach}, widening now`
+  return `${reach}, widening in ${minutes}m`
+}
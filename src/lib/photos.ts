@@ -0,0 +1,113 @@
+import { supabase, type Database } from './supabase'
+
+export type DonationPhoto = Database['public']['Tables']['donation_photos']['Row']
+
+export const PHOTO_BUCKET = 'donation-photos'
+export const MAX_PHOTOS = 4
+
+const FULL_SIZE = 1600
+const THUMBNAIL_SIZE = 320
+
+// Signed URLs are only needed while the card is on screen
+const SIGNED_URL_TTL = 60 * 60
+
+// Scale the image down so its longest side is at most maxSize and re-encode as JPEG
+export const resizeImage = async (file: File, maxSize: number, quality = 0.8): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file)
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not supported in this browser')
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))),
+      'image/jpeg',
+      quality
+    )
+  })
+}
+
+// Uploads a full-size and thumbnail copy of each photo and records them on the donation.
+// Returns how many photos failed so the caller can tell the donor.
+export const uploadDonationPhotos = async (
+  donationId: string,
+  files: File[],
+  kind: DonationPhoto['kind'] = 'listing'
+): Promise<number> => {
+  let failed = 0
+
+  for (const [position, file] of files.entries()) {
+    const id = crypto.randomUUID()
+    const storagePath = `${donationId}/${kind}-${id}.jpg`
+    const thumbnailPath = `${donationId}/${kind}-${id}_thumb.jpg`
+
+    try {
+      const [full, thumbnail] = await Promise.all([
+        resizeImage(file, FULL_SIZE),
+        resizeImage(file, THUMBNAIL_SIZE, 0.7),
+      ])
+
+      const bucket = supabase.storage.from(PHOTO_BUCKET)
+      const uploads = await Promise.all([
+        bucket.upload(storagePath, full, { contentType: 'image/jpeg' }),
+        bucket.upload(thumbnailPath, thumbnail, { contentType: 'image/jpeg' }),
+      ])
+      const uploadError = uploads.find(result => result.error)?.error
+      if (uploadError) throw uploadError
+
+      const { error } = await supabase.from('donation_photos').insert({
+        donation_id: donationId,
+        storage_path: storagePath,
+        thumbnail_path: thumbnailPath,
+        position,
+        kind,
+      })
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error uploading donation photo:', error)
+      failed += 1
+    }
+  }
+
+  return failed
+}
+
+// Returns signed URLs keyed by storage path
+export const getPhotoUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  if (paths.length === 0) return {}
+
+  const { data, error } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrls(paths, SIGNED_URL_TTL)
+  if (error) throw error
+
+  const urls: Record<string, string> = {}
+  for (const item of data || []) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl
+  }
+  return urls
+}
+
+// Called right after a donor cancels, the nightly purge catches anything left behind
+export const removeDonationPhotos = async (donationId: string) => {
+  const { data: photos, error } = await supabase
+    .from('donation_photos')
+    .select('storage_path, thumbnail_path')
+    .eq('donation_id', donationId)
+
+  if (error) throw error
+  if (!photos || photos.length === 0) return
+
+  const paths = photos.flatMap(photo => [photo.storage_path, photo.thumbnail_path])
+  const { error: removeError } = await supabase.storage.from(PHOTO_BUCKET).remove(paths)
+  if (removeError) throw removeError
+
+  const { error: deleteError } = await supabase.from('donation_photos').delete().eq('donation_id', donationId)
+  if (deleteError) throw deleteError
+}
@@ -0,0 +1,72 @@
+import type { Database } from './supabase'
+
+export type PickupWindow = Database['public']['Tables']['donation_pickup_windows']['Row']
+
+// Must match the slot length in claim_donation
+export const PICKUP_SLOT_MINUTES = 30
+
+// Pickups are flagged once the last window has this little time left
+export const CLOSING_SOON_MINUTES = 60
+
+// Windows and slots only matter until the volunteer has the food
+export const isAwaitingPickup = (status: string) => ['pending', 'accepted', 'claimed'].includes(status)
+
+// Form state for one window, datetime-local values
+export interface PickupWindowDraft {
+  starts_at: string
+  ends_at: string
+}
+
+export const sortWindows = <T extends Pick<PickupWindow, 'starts_at'>>(windows: T[] | null | undefined): T[] => {
+  return [...(windows || [])].sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime())
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+export const formatWindow = (window: Pick<PickupWindow, 'starts_at' | 'ends_at'>) => {
+  const start = new Date(window.starts_at)
+  const end = new Date(window.ends_at)
+  const day = start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+  return `${day}, ${formatTime(start)}–${formatTime(end)}`
+}
+
+export type PickupWindowState = 'none' | 'upcoming' | 'open' | 'closing' | 'closed'
+
+// Where a donation is relative to its pickup windows; 'closing' when the last chance
+// to collect it ends within CLOSING_SOON_MINUTES
+export const getPickupWindowState = (
+  windows: Pick<PickupWindow, 'starts_at' | 'ends_at'>[] | null | undefined,
+  now: Date = new Date()
+): { state: PickupWindowState; minutesLeft: number | null } => {
+  const sorted = sortWindows(windows)
+  if (sorted.length === 0) return { state: 'none', minutesLeft: null }
+
+  const remaining = sorted.filter(window => new Date(window.ends_at) > now)
+  if (remaining.length === 0) return { state: 'closed', minutesLeft: null }
+
+  const current = remaining.find(window => new Date(window.starts_at) <= now)
+  if (!current) return { state: 'upcoming', minutesLeft: null }
+
+  const minutesLeft = Math.round((new Date(current.ends_at).getTime() - now.getTime()) / (1000 * 60))
+  const isLast = remaining.length === 1
+  return { state: isLast && minutesLeft <= CLOSING_SOON_MINUTES ? 'closing' : 'open', minutesLeft }
+}
+
+// Bookable slot start times: every PICKUP_SLOT_MINUTES from the start of each window,
+// skipping slots that are already over
+export const getAvailableSlots = (
+  windows: Pick<PickupWindow, 'starts_at' | 'ends_at'>[] | null | undefined,
+  now: Date = new Date()
+): Date[] => {
+  const slotMs = PICKUP_SLOT_MINUTES * 60 * 1000
+  const slots: Date[] = []
+
+  for (const window of sortWindows(windows)) {
+    const end = new Date(window.ends_at).getTime()
+    for (let start = new Date(window.starts_at).getTime(); start + slotMs <= end; start += slotMs) {
+      if (start + slotMs > now.getTime()) slots.push(new Date(start))
+    }
+  }
+
+  return slots
+}
@@ -0,0 +1,53 @@
+import type { QuantityUnit } from './supabase'
+
+export const QUANTITY_UNITS: { value: QuantityUnit; label: string; singular: string }[] = [
+  { value: 'kg', label: 'kg', singular: 'kg' },
+  { value: 'lb', label: 'lb', singular: 'lb' },
+  { value: 'servings', label: 'servings', singular: 'serving' },
+  { value: 'items', label: 'items', singular: 'item' },
+  { value: 'litres', label: 'litres', singular: 'litre' },
+]
+
+// Rough weight per unit, used only for impact estimates. Servings and items
+// have no fixed weight so these are conservative averages.
+const KG_PER_UNIT: Record<QuantityUnit, number> = {
+  kg: 1,
+  lb: 0.45359237,
+  servings: 0.4,
+  items: 0.5,
+  litres: 1,
+}
+
+// Feeding America's convention of 1.2 lb of food per meal
+const KG_PER_MEAL = 1.2 * KG_PER_UNIT.lb
+
+interface Quantity {
+  quantity_amount: number
+  quantity_unit: QuantityUnit
+}
+
+export const formatQuantity = (amount: number, unit: QuantityUnit): string => {
+  const unitInfo = QUANTITY_UNITS.find(u => u.value === unit)
+  const formattedAmount = Number(amount).toLocaleString('en-US', { maximumFractionDigits: 2 })
+  const unitLabel = Number(amount) === 1 ? unitInfo?.singular ?? unit : unitInfo?.label ?? unit
+
+  return `${formattedAmount} ${unitLabel}`
+}
+
+export const toKilograms = (amount: number, unit: QuantityUnit): number => {
+  return Number(amount) * KG_PER_UNIT[unit]
+}
+
+export const estimateMeals = (amount: number, unit: QuantityUnit): number => {
+  // A serving is already a meal, everything else goes via weight
+  if (unit === 'servings') return Number(amount)
+  return toKilograms(amount, unit) / KG_PER_MEAL
+}
+
+export const totalKilograms = (donations: Quantity[]): number => {
+  return donations.reduce((sum, d) => sum + toKilograms(d.quantity_amount, d.quantity_unit), 0)
+}
+
+export const totalMeals = (donations: Quantity[]): number => {
+  return donations.reduce((sum, d) => sum + estimateMeals(d.quantity_amount, d.quantity_unit), 0)
+}
@@ -0,0 +1,136 @@
+import type { LatLng } from './coordinates'
+import { distanceKm } from './nearby'
+
+// Straight-line distance undersells the road network, and every stop takes a few minutes
+const ROAD_FACTOR = 1.3
+const AVERAGE_SPEED_KMH = 30
+const MINUTES_PER_STOP = 5
+
+export interface RouteStop {
+  id: string
+  kind: 'pickup' | 'dropoff'
+  name: string
+  address: string
+  position: LatLng
+  donationIds: string[]
+  // Stops that have to come earlier, e.g. the pickups for a drop-off
+  after: string[]
+}
+
+export interface PlannedRoute {
+  stops: RouteStop[]
+  distanceKm: number
+  minutes: number
+}
+
+const pathLength = (stops: RouteStop[], origin: LatLng | null): number => {
+  let total = 0
+  let from = origin
+  for (const stop of stops) {
+    if (from) total += distanceKm(from, stop.position)
+    from = stop.position
+  }
+  return total
+}
+
+const isFeasible = (stops: RouteStop[]): boolean => {
+  const visited = new Set<string>()
+  for (const stop of stops) {
+    if (stop.after.some(id => !visited.has(id))) return false
+    visited.add(stop.id)
+  }
+  return true
+}
+
+// Greedy first pass: always drive to the closest stop that's allowed next.
+// Without an origin the route starts at the first stop that can go first, so pass stops most urgent first.
+const nearestNeighbour = (stops: RouteStop[], origin: LatLng | null): RouteStop[] => {
+  const remaining = [...stops]
+  const visited = new Set<string>()
+  const order: RouteStop[] = []
+  let from = origin
+
+  while (remaining.length > 0) {
+    const available = remaining.filter(stop => stop.after.every(id => visited.has(id)))
+    // Only reachable when a stop waits on one that isn't in the list
+    if (available.length === 0) break
+
+    const current = from
+    const next = current
+      ? available.reduce((best, stop) => distanceKm(current, stop.position) < distanceKm(current, best.position) ? stop : best)
+      : available[0]
+
+    order.push(next)
+    visited.add(next.id)
+    remaining.splice(remaining.indexOf(next), 1)
+    from = next.position
+  }
+
+  return order
+}
+
+// Untangles the greedy route by reversing stretches of it while that shortens the drive
+// and every drop-off still comes after its pickups
+const twoOpt = (stops: RouteStop[], origin: LatLng | null): RouteStop[] => {
+  let best = stops
+  let bestLength = pathLength(best, origin)
+  let improved = true
+
+  while (improved) {
+    improved = false
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)]
+        const length = pathLength(candidate, origin)
+        if (length < bestLength - 1e-9 && isFeasible(candidate)) {
+          best = candidate
+          bestLength = length
+          improved = true
+        }
+      }
+    }
+  }
+
+  return best
+}
+
+// Orders the stops for one run, starting from origin when the volunteer has set a location
+export const planRoute = (stops: RouteStop[], origin: LatLng | null): PlannedRoute => {
+  const ordered = twoOpt(nearestNeighbour(stops, origin), origin)
+  const total = pathLength(ordered, origin)
+
+  return {
+    stops: ordered,
+    distanceKm: total,
+    minutes: Math.round((total * ROAD_FACTOR / AVERAGE_SPEED_KMH) * 60 + ordered.length * MINUTES_PER_STOP),
+  }
+}
+
+export const formatDuration = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// GPX 1.1 route for navigation apps that import files (OsmAnd, Organic Maps, Garmin, ...)
+export const toGpx = (route: PlannedRoute, name: string): string => {
+  const points = route.stops.map(stop => [
+    `    <rtept lat="${stop.position.lat}" lon="${stop.position.lng}">`,
+    `      <name>${escapeXml(`${stop.kind === 'pickup' ? 'Pick up from' : 'Drop off at'} ${stop.name}`)}</name>`,
+    `      <desc>${escapeXml(stop.address)}</desc>`,
+    '    </rtept>',
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="FoodWasteConnector" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <rte>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...points,
+    '  </rte>',
+    '</gpx>',
+    '',
+  ].join('\n')
+}
@@ -0,0 +1,77 @@
+import { supabase, type Database } from './supabase'
+
+export type DonationSchedule = Database['public']['Tables']['donation_schedules']['Row']
+export type NewDonationSchedule = Database['public']['Tables']['donation_schedules']['Insert']
+
+// Same numbering as Postgres extract(dow ...)
+export const WEEKDAYS = [
+  { value: 0, label: 'Sun' },
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+]
+
+// How far ahead materialize_scheduled_donations posts each occurrence
+export const MATERIALIZE_HORIZON_HOURS = 12
+
+// Value for a date input, in the browser's local time
+export const toDateValue = (date: Date): string => {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 10)
+}
+
+export const describeSchedule = (schedule: Pick<DonationSchedule, 'days_of_week' | 'ready_time'>) => {
+  const days = [...schedule.days_of_week].sort()
+  const time = schedule.ready_time.slice(0, 5)
+
+  if (days.length === 7) return `Every day at ${time}`
+  if (days.join() === '1,2,3,4,5') return `Weekdays at ${time}`
+  if (days.join() === '0,6') return `Weekends at ${time}`
+
+  const labels = days.map(day => WEEKDAYS[day].label)
+  return `Every ${labels.join(', ')} at ${time}`
+}
+
+export interface ScheduleOccurrence {
+  date: string
+  at: Date
+  skipped: boolean
+}
+
+// Next occurrences in the browser's time zone, which is the zone the schedule was created in
+// for the donor managing it
+export const upcomingOccurrences = (
+  schedule: Pick<DonationSchedule, 'days_of_week' | 'ready_time' | 'starts_on' | 'ends_on' | 'skip_dates'>,
+  count = 7,
+  now: Date = new Date()
+): ScheduleOccurrence[] => {
+  const [hours, minutes] = schedule.ready_time.split(':').map(Number)
+  const occurrences: ScheduleOccurrence[] = []
+  const day = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+
+  // Bounded so a schedule whose end date has passed can't loop forever
+  for (let i = 0; i < 366 && occurrences.length < count; i++, day.setDate(day.getDate() + 1)) {
+    const date = toDateValue(day)
+    if (schedule.ends_on && date > schedule.ends_on) break
+    if (date < schedule.starts_on || !schedule.days_of_week.includes(day.getDay())) continue
+
+    const at = new Date(day)
+    at.setHours(hours, minutes, 0, 0)
+    if (at <= now) continue
+
+    occurrences.push({ date, at, skipped: schedule.skip_dates.includes(date) })
+  }
+
+  return occurrences
+}
+
+export const subscribeToSchedule = (scheduleId: string) => {
+  return supabase.rpc('subscribe_to_schedule', { p_schedule_id: scheduleId })
+}
+
+export const unsubscribeFromSchedule = (scheduleId: string) => {
+  return supabase.rpc('unsubscribe_from_schedule', { p_schedule_id: scheduleId })
+}
@@ -0,0 +1,66 @@
+import { supabase, type Database } from './supabase'
+import { toLatLng, toPoint, type LatLng } from './coordinates'
+import { geocodeAddress } from './geocoding'
+import { distanceKm } from './nearby'
+
+type Profile = Database['public']['Tables']['profiles']['Row']
+
+export type ServiceArea = Pick<Profile, 'id' | 'location_lat' | 'location_lng' | 'service_radius_km'>
+export type ProfileLocation = Pick<Profile, 'location_label' | 'location_point' | 'service_radius_km'>
+
+export const SERVICE_RADIUS_OPTIONS_KM = [5, 10, 25, 50, 100]
+
+// What the location fields on ProfileSetup and Profile hold while editing
+export interface ProfileLocationDraft {
+  label: string
+  position: LatLng | null
+  radiusKm: number | null
+}
+
+export const hasServiceArea = (area: ServiceArea | null | undefined): boolean =>
+  area?.location_lat != null && area.location_lng != null && area.service_radius_km != null
+
+// Mirrors service_area_donations() for rows that arrive over realtime; keep the two in step
+export const isInServiceArea = (
+  area: ServiceArea | null | undefined,
+  donation: { pickup_lat: number | null; pickup_lng: number | null; shelter_id: string | null }
+): boolean => {
+  if (!area || !hasServiceArea(area)) return true
+
+  const position = toLatLng(donation.pickup_lat, donation.pickup_lng)
+  if (!position || donation.shelter_id === area.id) return true
+
+  return distanceKm(toLatLng(area.location_lat, area.location_lng)!, position) <= area.service_radius_km!
+}
+
+// Donations inside the caller's service area, or everything they can see when they haven't set one.
+// Filter before selecting related rows, e.g. .eq('status', 'pending').select('*, donation_items(*)')
+export const serviceAreaDonations = () => {
+  return supabase.rpc('service_area_donations')
+}
+
+export const toProfileLocationDraft = (
+  profile: Pick<Profile, 'location_label' | 'location_lat' | 'location_lng' | 'service_radius_km'> | null | undefined
+): ProfileLocationDraft => ({
+  label: profile?.location_label || '',
+  position: toLatLng(profile?.location_lat, profile?.location_lng),
+  radiusKm: profile?.service_radius_km ?? null,
+})
+
+// Turns the draft into profile columns, geocoding an address that was typed rather than picked.
+// Returns null when the address can't be found on the map.
+export const resolveProfileLocation = async (draft: ProfileLocationDraft): Promise<ProfileLocation | null> => {
+  const label = draft.label.trim()
+  if (!label) return { location_label: null, location_point: null, service_radius_km: null }
+
+  let position = draft.position
+  if (!position) {
+    position = await geocodeAddress(label).catch(error => {
+      console.error('Error geocoding address:', error)
+      return null
+    })
+    if (!position) return null
+  }
+
+  return { location_label: label, location_point: toPoint(position), service_radius_km: draft.radiusKm }
+}
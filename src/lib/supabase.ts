@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import { formatQuantity } from './quantity'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -31,6 +32,19 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
 
 console.log('✅ [SUPABASE] Client initialized successfully')
 
+export type DonationStatus =
+  | 'pending'
+  | 'accepted'
+  | 'claimed'
+  | 'in_transit'
+  | 'delivered'
+  | 'completed'
+  | 'disputed'
+  | 'cancelled'
+  | 'expired'
+
+export type QuantityUnit = 'kg' | 'lb' | 'servings' | 'items' | 'litres'
+
 export type Database = {
   public: {
     Tables: {
@@ -41,6 +55,15 @@ export type Database = {
           name: string
           user_type: 'donor' | 'shelter' | 'volunteer'
           phone: string | null
+          excluded_allergens: string[]
+          required_dietary_tags: string[]
+          location_label: string | null
+          location_point: string | null
+          location_lat: number | null
+          location_lng: number | null
+          service_radius_km: number | null
+          daily_capacity_kg: number | null
+          preferred_categories: string[]
           created_at: string
         }
         Insert: {
@@ -49,6 +72,13 @@ export type Database = {
           name: string
           user_type: 'donor' | 'shelter' | 'volunteer'
           phone?: string | null
+          excluded_allergens?: string[]
+          required_dietary_tags?: string[]
+          location_label?: string | null
+          location_point?: string | null
+          service_radius_km?: number | null
+          daily_capacity_kg?: number | null
+          preferred_categories?: string[]
           created_at?: string
         }
         Update: {
@@ -57,6 +87,13 @@ export type Database = {
           name?: string
           user_type?: 'donor' | 'shelter' | 'volunteer'
           phone?: string | null
+          excluded_allergens?: string[]
+          required_dietary_tags?: string[]
+          location_label?: string | null
+          location_point?: string | null
+          service_radius_km?: number | null
+          daily_capacity_kg?: number | null
+          preferred_categories?: string[]
           created_at?: string
         }
       }
@@ -65,52 +102,365 @@ export type Database = {
           id: string
           donor_name: string
           food_type: string
-          quantity: string
+          quantity: string | null
+          quantity_amount: number
+          quantity_unit: QuantityUnit
           pickup_location: string
-          pickup_coordinates: string | null
-          status: 'pending' | 'accepted' | 'completed'
+          pickup_point: string | null
+          pickup_lat: number | null
+          pickup_lng: number | null
+          status: DonationStatus
           shelter_id: string | null
           donor_id: string
           volunteer_id: string | null
           created_at: string
           accepted_at: string | null
+          claimed_at: string | null
+          picked_up_at: string | null
+          delivered_at: string | null
+          delivery_recipient_name: string | null
           completed_at: string | null
+          disputed_at: string | null
+          discrepancy_type: 'short' | 'spoiled' | 'other' | null
+          expired_at: string | null
+          cancelled_at: string | null
+          safe_until: string
+          status_reason: string | null
           notes: string | null
+          allergens: string[]
+          dietary_tags: string[]
+          prepared_at: string | null
+          holding_temperature: 'hot' | 'chilled' | 'frozen' | 'ambient' | null
+          packaging: 'sealed' | 'covered' | 'open' | null
+          needs_refrigeration: boolean
+          needs_freezer: boolean
+          schedule_id: string | null
+          occurrence_at: string | null
+          pickup_slot_starts_at: string | null
+          pickup_slot_ends_at: string | null
+          offer_tier: number | null
+          offer_radius_km: number | null
+          offer_widens_at: string | null
         }
         Insert: {
           id?: string
           donor_name: string
           food_type: string
-          quantity: string
+          quantity?: string | null
+          quantity_amount: number
+          quantity_unit: QuantityUnit
           pickup_location: string
-          pickup_coordinates?: string | null
-          status?: 'pending' | 'accepted' | 'completed'
+          pickup_point?: string | null
+          status?: DonationStatus
           shelter_id?: string | null
           donor_id: string
           volunteer_id?: string | null
           created_at?: string
           accepted_at?: string | null
+          claimed_at?: string | null
+          picked_up_at?: string | null
+          delivered_at?: string | null
+          delivery_recipient_name?: string | null
           completed_at?: string | null
+          disputed_at?: string | null
+          discrepancy_type?: 'short' | 'spoiled' | 'other' | null
+          expired_at?: string | null
+          cancelled_at?: string | null
+          safe_until: string
+          status_reason?: string | null
           notes?: string | null
+          allergens?: string[]
+          dietary_tags?: string[]
+          prepared_at?: string | null
+          holding_temperature?: 'hot' | 'chilled' | 'frozen' | 'ambient' | null
+          packaging?: 'sealed' | 'covered' | 'open' | null
+          needs_refrigeration?: boolean
+          needs_freezer?: boolean
+          schedule_id?: string | null
+          occurrence_at?: string | null
+          pickup_slot_starts_at?: string | null
+          pickup_slot_ends_at?: string | null
         }
         Update: {
           id?: string
           donor_name?: string
           food_type?: string
-          quantity?: string
+          quantity?: string | null
+          quantity_amount?: number
+          quantity_unit?: QuantityUnit
           pickup_location?: string
-          pickup_coordinates?: string | null
-          status?: 'pending' | 'accepted' | 'completed'
+          pickup_point?: string | null
+          status?: DonationStatus
           shelter_id?: string | null
           donor_id?: string
           volunteer_id?: string | null
           created_at?: string
           accepted_at?: string | null
+          claimed_at?: string | null
+          picked_up_at?: string | null
+          delivered_at?: string | null
+          delivery_recipient_name?: string | null
           completed_at?: string | null
+          disputed_at?: string | null
+          discrepancy_type?: 'short' | 'spoiled' | 'other' | null
+          expired_at?: string | null
+          cancelled_at?: string | null
+          safe_until?: string
+          status_reason?: string | null
+          notes?: string | null
+          allergens?: string[]
+          dietary_tags?: string[]
+          prepared_at?: string | null
+          holding_temperature?: 'hot' | 'chilled' | 'frozen' | 'ambient' | null
+          packaging?: 'sealed' | 'covered' | 'open' | null
+          needs_refrigeration?: boolean
+          needs_freezer?: boolean
+          schedule_id?: string | null
+          occurrence_at?: string | null
+          pickup_slot_starts_at?: string | null
+          pickup_slot_ends_at?: string | null
+        }
+      }
+      donation_items: {
+        Row: {
+          id: string
+          donation_id: string
+          position: number
+          category: string
+          description: string | null
+          quantity_amount: number
+          quantity_unit: QuantityUnit
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          donation_id: string
+          position?: number
+          category: string
+          description?: string | null
+          quantity_amount: number
+          quantity_unit: QuantityUnit
           notes?: string | null
+          created_at?: string
+        }
+      }
+      donation_photos: {
+        Row: {
+          id: string
+          donation_id: string
+          storage_path: string
+          thumbnail_path: string
+          position: number
+          kind: 'listing' | 'delivery'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          donation_id: string
+          storage_path: string
+          thumbnail_path: string
+          position?: number
+          kind?: 'listing' | 'delivery'
+          created_at?: string
+        }
+      }
+      donation_events: {
+        // Written by the donation_status_events trigger only
+        Row: {
+          id: string
+          donation_id: string
+          actor_id: string | null
+          actor_role: 'donor' | 'shelter' | 'volunteer' | 'system'
+          old_status: DonationStatus | null
+          new_status: DonationStatus
+          reason: string | null
+          created_at: string
+        }
+      }
+      donation_status_transitions: {
+        Row: {
+          from_status: DonationStatus
+          to_status: DonationStatus
+          description: string
+        }
+      }
+      donation_pickup_windows: {
+        Row: {
+          id: string
+          donation_id: string
+          starts_at: string
+          ends_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          donation_id: string
+          starts_at: string
+          ends_at: string
+          created_at?: string
+        }
+      }
+      donation_schedules: {
+        Row: {
+          id: string
+          donor_id: string
+          donor_name: string
+          pickup_location: string
+          pickup_point: string | null
+          pickup_lat: number | null
+          pickup_lng: number | null
+          notes: string | null
+          items: Pick<
+            Database['public']['Tables']['donation_items']['Row'],
+            'category' | 'description' | 'quantity_amount' | 'quantity_unit' | 'notes'
+          >[]
+          food_type: string
+          quantity_amount: number
+          quantity_unit: QuantityUnit
+          allergens: string[]
+          dietary_tags: string[]
+          holding_temperature: 'hot' | 'chilled' | 'frozen' | 'ambient' | null
+          packaging: 'sealed' | 'covered' | 'open' | null
+          needs_refrigeration: boolean
+          needs_freezer: boolean
+          days_of_week: number[]
+          ready_time: string
+          timezone: string
+          safe_for_hours: number
+          starts_on: string
+          ends_on: string | null
+          skip_dates: string[]
+          paused: boolean
+          subscribed_shelter_id: string | null
+          created_at: string
+        }
+        Insert: Omit<
+          Database['public']['Tables']['donation_schedules']['Row'],
+          'id' | 'pickup_lat' | 'pickup_lng' | 'subscribed_shelter_id' | 'created_at'
+        >
+        Update: Partial<Database['public']['Tables']['donation_schedules']['Insert']>
+      }
+      donation_matches: {
+        Row: {
+          donation_id: string
+          shelter_id: string
+          shelter_name: string
+          rank: number
+          score: number
+          distance_km: number | null
+          reasons: string[]
+          created_at: string
+        }
+        Insert: Database['public']['Tables']['donation_matches']['Row']
+        Update: Partial<Database['public']['Tables']['donation_matches']['Row']>
+      }
+      donation_offer_tiers: {
+        Row: {
+          tier: number
+          radius_km: number | null
+          minutes: number | null
+        }
+        Insert: Database['public']['Tables']['donation_offer_tiers']['Row']
+        Update: Partial<Database['public']['Tables']['donation_offer_tiers']['Row']>
+      }
+      donation_offer_events: {
+        // Written by widen_donation_offers() only
+        Row: {
+          id: string
+          donation_id: string
+          tier: number
+          radius_km: number | null
+          previous_radius_km: number | null
+          created_at: string
+        }
+      }
+      allocation_policy: {
+        Row: {
+          id: boolean
+          daily_cap_kg: number | null
+          weekly_cap_kg: number | null
+          population_reference: number | null
+          priority_minutes: number | null
+          priority_shelters: number
+          updated_at: string
+        }
+        Insert: Partial<Database['public']['Tables']['allocation_policy']['Row']>
+        Update: Partial<Database['public']['Tables']['allocation_policy']['Row']>
+      }
+      shelter_allocation_limits: {
+        Row: {
+          shelter_id: string
+          daily_cap_kg: number | null
+          weekly_cap_kg: number | null
+          population_served: number | null
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['shelter_allocation_limits']['Row'], 'updated_at'> & { updated_at?: string }
+        Update: Partial<Database['public']['Tables']['shelter_allocation_limits']['Row']>
+      }
+      geocode_cache: {
+        // Written by the geocode edge function only
+        Row: {
+          provider: string
+          query: string
+          found: boolean
+          label: string | null
+          latitude: number | null
+          longitude: number | null
+          created_at: string
+        }
+        Insert: Database['public']['Tables']['geocode_cache']['Row']
+        Update: Partial<Database['public']['Tables']['geocode_cache']['Row']>
+      }
+      donation_templates: {
+        Row: {
+          id: string
+          donor_id: string
+          name: string
+          donor_name: string
+          pickup_location: string
+          pickup_point: string | null
+          pickup_lat: number | null
+          pickup_lng: number | null
+          notes: string | null
+          items: Pick<
+            Database['public']['Tables']['donation_items']['Row'],
+            'category' | 'description' | 'quantity_amount' | 'quantity_unit' | 'notes'
+          >[]
+          allergens: string[]
+          dietary_tags: string[]
+          holding_temperature: 'hot' | 'chilled' | 'frozen' | 'ambient' | null
+          packaging: 'sealed' | 'covered' | 'open' | null
+          needs_refrigeration: boolean
+          needs_freezer: boolean
+          created_at: string
         }
+        Insert: Omit<Database['public']['Tables']['donation_templates']['Row'], 'id' | 'pickup_lat' | 'pickup_lng' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['donation_templates']['Insert']>
       }
     }
+    Functions: {
+      accept_donation: { Args: { p_donation_id: string }; Returns: Database['public']['Tables']['donations']['Row'] }
+      decline_donation: { Args: { p_donation_id: string; p_reason: string }; Returns: Database['public']['Tables']['donations']['Row'] }
+      claim_donation: { Args: { p_donation_id: string; p_slot_starts_at?: string | null }; Returns: Database['public']['Tables']['donations']['Row'] }
+      release_donation: { Args: { p_donation_id: string; p_reason: string }; Returns: Database['public']['Tables']['donations']['Row'] }
+      pick_up_donation: { Args: { p_donation_id: string }; Returns: Database['public']['Tables']['donations']['Row'] }
+      deliver_donation: { Args: { p_donation_id: string; p_recipient_name: string | null }; Returns: Database['public']['Tables']['donations']['Row'] }
+      confirm_donation_receipt: { Args: { p_donation_id: string }; Returns: Database['public']['Tables']['donations']['Row'] }
+      report_delivery_discrepancy: { Args: { p_donation_id: string; p_type: string; p_reason: string }; Returns: Database['public']['Tables']['donations']['Row'] }
+      resolve_delivery_discrepancy: { Args: { p_donation_id: string; p_resolution: string }; Returns: Database['public']['Tables']['donations']['Row'] }
+      cancel_donation: { Args: { p_donation_id: string; p_reason: string }; Returns: Database['public']['Tables']['donations']['Row'] }
+      donation_contacts: { Args: { p_donation_id: string }; Returns: { id: string; name: string; phone: string | null }[] }
+      create_donation: { Args: { p_donation: Record<string, unknown>; p_items: Record<string, unknown>[]; p_pickup_windows?: { starts_at: string; ends_at: string }[] }; Returns: Database['public']['Tables']['donations']['Row'] }
+      import_donations: { Args: { p_rows: { donation: Record<string, unknown>; items: Record<string, unknown>[] }[] }; Returns: Database['public']['Tables']['donations']['Row'][] }
+      my_allocation_blocks: { Args: { p_donation_ids: string[] }; Returns: { donation_id: string; reason: string; eligible_at: string | null }[] }
+      service_area_donations: { Args: Record<string, never>; Returns: Database['public']['Tables']['donations']['Row'][] }
+      donations_within: { Args: { p_lat: number; p_lng: number; p_radius_km: number }; Returns: Database['public']['Tables']['donations']['Row'][] }
+      route_dropoffs: { Args: { p_donation_ids: string[] }; Returns: { id: string; name: string; location_label: string | null; location_lat: number | null; location_lng: number | null }[] }
+      subscribe_to_schedule: { Args: { p_schedule_id: string }; Returns: Database['public']['Tables']['donation_schedules']['Row'] }
+      unsubscribe_from_schedule: { Args: { p_schedule_id: string }; Returns: Database['public']['Tables']['donation_schedules']['Row'] }
+    }
   }
 }
 
@@ -154,28 +504,5 @@ export const classifyFoodType = async (rawFoodInput: string): Promise<string> =>
 
 // Generate notification message
 export const generateNotificationMessage = (donation: any, shelterName: string): string => {
-  return `Hi ${donation.donor_name}, your donation of ${donation.quantity} ${donation.food_type} has been accepted by ${shelterName}. A volunteer will contact you soon for pickup!`
+  return `Hi ${donation.donor_name}, your donation of ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} ${donation.food_type} has been accepted by ${shelterName}. A volunteer will contact you soon for pickup!`
 }
-
-// Get coordinates from address (mock implementation)
-export const geocodeAddress = async (address: string): Promise<{ lat: number; lng: number } | null> => {
-  // In production, this would use a real geocoding service like Google Maps API
-  // For demo purposes, return mock coordinates
-  const mockCoordinates = {
-    'New York': { lat: 40.7128, lng: -74.0060 },
-    'Los Angeles': { lat: 34.0522, lng: -118.2437 },
-    'Chicago': { lat: 41.8781, lng: -87.6298 },
-    'Houston': { lat: 29.7604, lng: -95.3698 },
-    'Phoenix': { lat: 33.4484, lng: -112.0740 }
-  }
-  
-  // Simple matching for demo
-  for (const [city, coords] of Object.entries(mockCoordinates)) {
-    if (address.toLowerCase().includes(city.toLowerCase())) {
-      return coords
-    }
-  }
-  
-  // Default coordinates (San Francisco)
-  return { lat: 37.7749, lng: -122.4194 }
-}
\ No newline at end of file
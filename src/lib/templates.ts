@@ -0,0 +1,53 @@
+import type { Database } from './supabase'
+import { sortItems, toItemDraft, type DonationItem, type DonationItemDraft } from './donationItems'
+import type { FoodSafetyDraft } from './foodSafety'
+import { toLatLng, type LatLng } from './coordinates'
+
+export type DonationTemplate = Database['public']['Tables']['donation_templates']['Row']
+export type NewDonationTemplate = Database['public']['Tables']['donation_templates']['Insert']
+
+type Donation = Database['public']['Tables']['donations']['Row']
+
+// Everything DonateSurplus can fill in ahead of time. Times are left out on purpose,
+// safe-until and pickup windows are different for every donation.
+export interface DonationPrefill {
+  donor_name: string
+  pickup_location: string
+  pickup_position: LatLng | null
+  notes: string
+  items: DonationItemDraft[]
+  allergens: string[]
+  dietary_tags: string[]
+  food_safety: FoodSafetyDraft
+}
+
+type PrefillSource = Pick<
+  Donation,
+  | 'donor_name' | 'pickup_location' | 'pickup_lat' | 'pickup_lng' | 'notes' | 'allergens' | 'dietary_tags'
+  | 'holding_temperature' | 'packaging' | 'needs_refrigeration' | 'needs_freezer'
+>
+
+const toPrefill = (source: PrefillSource, items: DonationItemDraft[]): DonationPrefill => ({
+  donor_name: source.donor_name,
+  pickup_location: source.pickup_location,
+  pickup_position: toLatLng(source.pickup_lat, source.pickup_lng),
+  notes: source.notes || '',
+  items,
+  allergens: source.allergens,
+  dietary_tags: source.dietary_tags,
+  food_safety: {
+    prepared_at: '',
+    holding_temperature: source.holding_temperature || '',
+    packaging: source.packaging || '',
+    needs_refrigeration: source.needs_refrigeration,
+    needs_freezer: source.needs_freezer,
+  },
+})
+
+export const prefillFromTemplate = (template: DonationTemplate) => {
+  return toPrefill(template, template.items.map(toItemDraft))
+}
+
+export const prefillFromDonation = (donation: PrefillSource & { donation_items: DonationItem[] }) => {
+  return toPrefill(donation, sortItems(donation.donation_items).map(toItemDraft))
+}
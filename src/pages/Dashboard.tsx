@@ -1,14 +1,22 @@
 import React, { useState, useEffect } from 'react'
 import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
+import { formatQuantity, totalKilograms, totalMeals } from '../lib/quantity'
+import { isAwaitingPickup } from '../lib/pickupWindows'
+import { serviceAreaDonations } from '../lib/serviceArea'
 import { Link } from 'react-router-dom'
-import { Heart, Plus, Inbox, MapPin, Users, Utensils, TrendingUp, Clock } from 'lucide-react'
+import { Heart, Plus, Inbox, MapPin, Users, Utensils, TrendingUp, Clock, Scale, Soup } from 'lucide-react'
+import DonationTimeline from '../components/DonationTimeline'
+import DonationItemList from '../components/DonationItemList'
+import PickupWindows from '../components/PickupWindows'
 
 interface DashboardStats {
   totalDonations: number
   activeDonations: number
   completedDonations: number
   userDonations?: number
+  kgRescued: number
+  estimatedMeals: number
 }
 
 export default function Dashboard() {
@@ -17,6 +25,8 @@ export default function Dashboard() {
     totalDonations: 0,
     activeDonations: 0,
     completedDonations: 0,
+    kgRescued: 0,
+    estimatedMeals: 0,
   })
   const [recentActivity, setRecentActivity] = useState<any[]>([])
   const [loading, setLoading] = useState(true)
@@ -27,41 +37,54 @@ export default function Dashboard() {
 
   const fetchDashboardData = async () => {
     try {
-      // Fetch overall stats
-      const { data: allDonations, error: donationsError } = await supabase
-        .from('donations')
-        .select('status, created_at, donor_id')
+      // Fetch overall stats, limited to the service area for shelters that have set one
+      const statsColumns = 'status, created_at, donor_id, quantity_amount, quantity_unit'
+      const { data: allDonations, error: donationsError } = profile?.user_type === 'shelter'
+        ? await serviceAreaDonations().select(statsColumns)
+        : await supabase.from('donations').select(statsColumns)
 
       if (donationsError) throw donationsError
 
       const totalDonations = allDonations?.length || 0
-      const activeDonations = allDonations?.filter(d => d.status === 'pending' || d.status === 'accepted').length || 0
+      const activeDonations = allDonations?.filter(d => ['pending', 'accepted', 'claimed', 'in_transit', 'delivered'].includes(d.status)).length || 0
       const completedDonations = allDonations?.filter(d => d.status === 'completed').length || 0
       const userDonations = profile ? allDonations?.filter(d => d.donor_id === profile.id).length || 0 : 0
 
+      // Donors see the impact of their own donations, everyone else sees the total for their area
+      const rescued = (allDonations || []).filter(d =>
+        d.status === 'completed' && (profile?.user_type !== 'donor' || d.donor_id === profile.id)
+      )
+
       setStats({
         totalDonations,
         activeDonations,
         completedDonations,
         userDonations,
+        kgRescued: totalKilograms(rescued),
+        estimatedMeals: totalMeals(rescued),
       })
 
       // Fetch recent activity based on user type
+      const activityColumns = '*, donation_items(*), donation_pickup_windows(*)'
       let activityQuery = supabase
         .from('donations')
-        .select('*')
+        .select(activityColumns)
         .order('created_at', { ascending: false })
         .limit(5)
 
       if (profile?.user_type === 'donor') {
         activityQuery = activityQuery.eq('donor_id', profile.id)
-      } else if (profile?.user_type === 'shelter') {
-        activityQuery = activityQuery.or('status.eq.pending,shelter_id.eq.' + profile.id)
       } else if (profile?.user_type === 'volunteer') {
-        activityQuery = activityQuery.in('status', ['accepted', 'completed'])
+        activityQuery = activityQuery.or('status.eq.accepted,volunteer_id.eq.' + profile.id)
       }
 
-      const { data: activity, error: activityError } = await activityQuery
+      const { data: activity, error: activityError } = profile?.user_type === 'shelter'
+        ? await serviceAreaDonations()
+          .or('status.eq.pending,shelter_id.eq.' + profile.id)
+          .select(activityColumns)
+          .order('created_at', { ascending: false })
+          .limit(5)
+        : await activityQuery
 
       if (activityError) throw activityError
       setRecentActivity(activity || [])
@@ -115,6 +138,8 @@ export default function Dashboard() {
       { name: 'Total Donations', value: stats.totalDonations.toString(), icon: Utensils, color: 'text-green-600' },
       { name: 'Active Donations', value: stats.activeDonations.toString(), icon: TrendingUp, color: 'text-blue-600' },
       { name: 'Completed', value: stats.completedDonations.toString(), icon: Heart, color: 'text-red-600' },
+      { name: 'Kg Rescued', value: Math.round(stats.kgRescued).toLocaleString('en-US'), icon: Scale, color: 'text-purple-600' },
+      { name: 'Estimated Meals', value: Math.round(stats.estimatedMeals).toLocaleString('en-US'), icon: Soup, color: 'text-orange-600' },
     ]
 
     if (profile?.user_type === 'donor' && stats.userDonations !== undefined) {
@@ -139,8 +164,20 @@ export default function Dashboard() {
         return 'bg-yellow-100 text-yellow-800'
       case 'accepted':
         return 'bg-blue-100 text-blue-800'
+      case 'claimed':
+        return 'bg-indigo-100 text-indigo-800'
+      case 'in_transit':
+        return 'bg-purple-100 text-purple-800'
+      case 'delivered':
+        return 'bg-teal-100 text-teal-800'
       case 'completed':
         return 'bg-green-100 text-green-800'
+      case 'disputed':
+        return 'bg-red-100 text-red-800'
+      case 'cancelled':
+        return 'bg-red-100 text-red-800'
+      case 'expired':
+        return 'bg-gray-200 text-gray-600'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -170,7 +207,7 @@ export default function Dashboard() {
       </div>
 
       {/* Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-8">
         {getStatsForUserType().map((stat) => (
           <div key={stat.name} className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
             <div className="flex items-center">
@@ -248,16 +285,29 @@ export default function Dashboard() {
                         {item.donor_name}
                       </p>
                       <p className="text-sm text-gray-600">
-                        {item.quantity} of {item.food_type}
+                        {formatQuantity(item.quantity_amount, item.quantity_unit)} of {item.food_type}
                       </p>
+                      <DonationItemList items={item.donation_items} className="mt-1" />
+                      {isAwaitingPickup(item.status) && (
+                        <PickupWindows
+                          windows={item.donation_pickup_windows}
+                          slotStartsAt={item.pickup_slot_starts_at}
+                          slotEndsAt={item.pickup_slot_ends_at}
+                          className="mt-1"
+                        />
+                      )}
                       <div className="flex items-center space-x-2 mt-1">
                         <span className={`text-xs px-2 py-1 rounded-full font-medium ${getStatusColor(item.status)}`}>
-                          {item.status}
+                          {item.status.replace('_', ' ')}
                         </span>
                         <span className="text-xs text-gray-500">
                           {formatDate(item.created_at)}
                         </span>
+                        <Link to={`/donations/${item.id}`} className="text-xs text-green-600 hover:text-green-700 font-medium">
+                          View details
+                        </Link>
                       </div>
+                      <DonationTimeline donationId={item.id} className="mt-2" />
                     </div>
                   </div>
                 ))}
@@ -1,104 +1,434 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
-import { supabase, classifyFoodType, geocodeAddress } from '../lib/supabase'
-import { Heart, Package, User, CheckCircle, Loader } from 'lucide-react'
+import { supabase, QuantityUnit } from '../lib/supabase'
+import { geocodeAddress, GeocodingError } from '../lib/geocoding'
+import { toDateTimeLocalValue } from '../lib/expiry'
+import { toPoint } from '../lib/coordinates'
+import { formatQuantity } from '../lib/quantity'
+import { toMapMarkers } from '../lib/mapMarkers'
+import { createDonation, emptyItemDraft, type DonationItem, type DonationItemDraft } from '../lib/donationItems'
+import { removeDonationPhotos, uploadDonationPhotos } from '../lib/photos'
+import { ALLERGENS, DIETARY_TAGS } from '../lib/dietary'
+import { isAwaitingPickup, type PickupWindow, type PickupWindowDraft } from '../lib/pickupWindows'
+import { checkFoodSafety, emptyFoodSafetyDraft, toFoodSafetyChecklist, type FoodSafetyDraft } from '../lib/foodSafety'
+import { prefillFromDonation, prefillFromTemplate, type DonationPrefill, type DonationTemplate } from '../lib/templates'
+import * as transitions from '../lib/donationTransitions'
+import { fetchTopMatch, type DonationMatch } from '../lib/matching'
+import { Heart, Package, User, CheckCircle, Timer, XCircle, Camera, ShieldAlert, Leaf, Thermometer, CalendarClock, Bookmark, Trash2, Sparkles } from 'lucide-react'
 import LocationPicker from '../components/LocationPicker'
+import DonationItemsEditor from '../components/DonationItemsEditor'
+import DonationItemList from '../components/DonationItemList'
+import PhotoPicker from '../components/PhotoPicker'
+import TagPicker from '../components/TagPicker'
+import FoodSafetyFields from '../components/FoodSafetyFields'
+import PickupWindowsEditor from '../components/PickupWindowsEditor'
+import PickupWindows from '../components/PickupWindows'
+import ExpiryBadge from '../components/ExpiryBadge'
+import OfferBadge from '../components/OfferBadge'
+import DonationMap from '../components/DonationMap'
+import ViewToggle, { type DonationView } from '../components/ViewToggle'
+import ReasonModal from '../components/ReasonModal'
+
+interface ActiveDonation {
+  id: string
+  food_type: string
+  quantity_amount: number
+  quantity_unit: QuantityUnit
+  status: string
+  safe_until: string
+  created_at: string
+  pickup_lat: number | null
+  pickup_lng: number | null
+  pickup_slot_starts_at: string | null
+  pickup_slot_ends_at: string | null
+  offer_tier: number | null
+  offer_radius_km: number | null
+  offer_widens_at: string | null
+  donation_items: DonationItem[]
+  donation_pickup_windows: PickupWindow[]
+}
 
 export default function DonateSurplus() {
   const { user, profile } = useAuth()
   const [formData, setFormData] = useState({
     donor_name: profile?.name || '',
-    food_type: '',
-    quantity: '',
     pickup_location: '',
+    safe_until: '',
     notes: '',
   })
+  const [items, setItems] = useState<DonationItemDraft[]>([emptyItemDraft()])
+  const [photos, setPhotos] = useState<File[]>([])
+  const [allergens, setAllergens] = useState<string[]>([])
+  const [dietaryTags, setDietaryTags] = useState<string[]>([])
+  const [foodSafety, setFoodSafety] = useState<FoodSafetyDraft>(emptyFoodSafetyDraft())
+  const [pickupWindows, setPickupWindows] = useState<PickupWindowDraft[]>([])
   const [coordinates, setCoordinates] = useState<{ lat: number; lng: number } | null>(null)
   const [loading, setLoading] = useState(false)
   const [showSuccessModal, setShowSuccessModal] = useState(false)
   const [submittedDonation, setSubmittedDonation] = useState<any>(null)
-  const [classifying, setClassifying] = useState(false)
-
-  const foodTypeOptions = [
-    'Prepared Meals',
-    'Bakery Items', 
-    'Dairy Products',
-    'Fresh Produce',
-    'Packaged Foods',
-    'Beverages',
-    'Canned Goods',
-    'Frozen Items',
-    'Other Food Items',
-  ]
+  const [submittedItems, setSubmittedItems] = useState<DonationItemDraft[]>([])
+  const [submittedMatch, setSubmittedMatch] = useState<DonationMatch | null>(null)
+  const [activeDonations, setActiveDonations] = useState<ActiveDonation[]>([])
+  const [cancelTarget, setCancelTarget] = useState<ActiveDonation | null>(null)
+  const [activeView, setActiveView] = useState<DonationView>('cards')
+  const [cancelling, setCancelling] = useState(false)
+  const [templates, setTemplates] = useState<DonationTemplate[]>([])
+  const [selectedTemplateId, setSelectedTemplateId] = useState('')
+  const [templateName, setTemplateName] = useState<string | null>(null)
+  const [savingTemplate, setSavingTemplate] = useState(false)
+  // LocationPicker only reads its initial value on mount, so prefills remount it
+  const [locationKey, setLocationKey] = useState(0)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const donateAgainId = searchParams.get('from')
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target
-    setFormData(prev => ({ ...prev, [name]: value }))
+  useEffect(() => {
+    fetchActiveDonations()
+    fetchTemplates()
+  }, [user])
+
+  useEffect(() => {
+    if (!user) return
+
+    // Offers widen on the server, so keep the donor's list current
+    const subscription = supabase
+      .channel(`donor-donations-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'donations',
+          filter: `donor_id=eq.${user.id}`,
+        },
+        () => {
+          fetchActiveDonations()
+        }
+      )
+      .subscribe()
+
+    return () => {
+      subscription.unsubscribe()
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (donateAgainId) {
+      prefillFromPastDonation(donateAgainId)
+    }
+  }, [donateAgainId])
+
+  const fetchTemplates = async () => {
+    if (!user) return
+
+    try {
+      const { data, error } = await supabase
+        .from('donation_templates')
+        .select('*')
+        .eq('donor_id', user.id)
+        .order('name', { ascending: true })
+
+      if (error) throw error
+      setTemplates(data || [])
+    } catch (error) {
+      console.error('Error fetching templates:', error)
+    }
   }
 
-  const handleLocationSelect = (location: string, coords?: { lat: number; lng: number }) => {
-    setFormData(prev => ({ ...prev, pickup_location: location }))
-    if (coords) {
-      setCoordinates(coords)
+  const prefillFromPastDonation = async (donationId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('donations')
+        .select('*, donation_items(*)')
+        .eq('id', donationId)
+        .maybeSingle()
+
+      if (error) throw error
+      if (data) {
+        applyPrefill(prefillFromDonation(data))
+      }
+    } catch (error) {
+      console.error('Error loading donation to donate again:', error)
+      alert('Failed to load your previous donation. Please fill in the form instead.')
+    } finally {
+      // Drop the query so a reload doesn't wipe edits made since
+      setSearchParams({}, { replace: true })
     }
   }
 
-  const classifyFood = async () => {
-    if (!formData.food_type) return
+  const applyPrefill = (prefill: DonationPrefill) => {
+    setFormData({
+      donor_name: prefill.donor_name,
+      pickup_location: prefill.pickup_location,
+      safe_until: '',
+      notes: prefill.notes,
+    })
+    setItems(prefill.items.length > 0 ? prefill.items : [emptyItemDraft()])
+    setAllergens(prefill.allergens)
+    setDietaryTags(prefill.dietary_tags)
+    setFoodSafety(prefill.food_safety)
+    setCoordinates(prefill.pickup_position)
+    setPickupWindows([])
+    setLocationKey(key => key + 1)
+  }
+
+  const handleTemplateSelect = (templateId: string) => {
+    setSelectedTemplateId(templateId)
+    const template = templates.find(t => t.id === templateId)
+    if (template) {
+      applyPrefill(prefillFromTemplate(template))
+    }
+  }
+
+  const deleteTemplate = async () => {
+    const template = templates.find(t => t.id === selectedTemplateId)
+    if (!template || !window.confirm(`Delete the template "${template.name}"?`)) return
 
-    setClassifying(true)
     try {
-      const classified = await classifyFoodType(formData.food_type)
-      setFormData(prev => ({ ...prev, food_type: classified }))
+      const { error } = await supabase.from('donation_templates').delete().eq('id', template.id)
+
+      if (error) throw error
+      setSelectedTemplateId('')
+      fetchTemplates()
     } catch (error) {
-      console.error('Error classifying food:', error)
+      console.error('Error deleting template:', error)
+      alert('Failed to delete template. Please try again.')
+    }
+  }
+
+  const saveTemplate = async () => {
+    if (!user || !templateName?.trim()) return
+
+    if (!formData.pickup_location || items.some(item => !item.category || !(Number(item.quantity_amount) > 0))) {
+      alert('Add a pickup location and at least one complete item before saving a template.')
+      return
+    }
+
+    setSavingTemplate(true)
+
+    try {
+      const { data, error } = await supabase
+        .from('donation_templates')
+        .insert({
+          donor_id: user.id,
+          name: templateName.trim(),
+          donor_name: formData.donor_name,
+          pickup_location: formData.pickup_location,
+          pickup_point: coordinates ? toPoint(coordinates) : null,
+          notes: formData.notes || null,
+          items: toDonationItems(),
+          allergens,
+          dietary_tags: dietaryTags,
+          holding_temperature: foodSafety.holding_temperature || null,
+          packaging: foodSafety.packaging || null,
+          needs_refrigeration: foodSafety.needs_refrigeration,
+          needs_freezer: foodSafety.needs_freezer,
+        })
+        .select()
+        .single()
+
+      if (error?.code === '23505') {
+        alert(`You already have a template called "${templateName.trim()}".`)
+        return
+      }
+      if (error) throw error
+
+      setTemplateName(null)
+      setSelectedTemplateId(data.id)
+      fetchTemplates()
+    } catch (error) {
+      console.error('Error saving template:', error)
+      alert('Failed to save template. Please try again.')
     } finally {
-      setClassifying(false)
+      setSavingTemplate(false)
     }
   }
 
+  const fetchActiveDonations = async () => {
+    if (!user) return
+
+    try {
+      const { data, error } = await supabase
+        .from('donations')
+        .select('id, food_type, quantity_amount, quantity_unit, status, safe_until, created_at, pickup_lat, pickup_lng, pickup_slot_starts_at, pickup_slot_ends_at, offer_tier, offer_radius_km, offer_widens_at, donation_items(*), donation_pickup_windows(*)')
+        .eq('donor_id', user.id)
+        .in('status', ['pending', 'accepted', 'claimed', 'in_transit', 'delivered'])
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setActiveDonations(data || [])
+    } catch (error) {
+      console.error('Error fetching active donations:', error)
+    }
+  }
+
+  const cancelDonation = async (reason: string) => {
+    if (!cancelTarget) return
+
+    setCancelling(true)
+
+    try {
+      const { error } = await transitions.cancelDonation(cancelTarget.id, reason)
+
+      if (transitions.isTransitionConflict(error)) {
+        alert(`${error.message}.`)
+      } else if (error) {
+        throw error
+      } else {
+        // Photos are only useful while the donation is on offer
+        removeDonationPhotos(cancelTarget.id).catch(photoError => {
+          console.error('Error removing donation photos:', photoError)
+        })
+      }
+
+      setCancelTarget(null)
+      fetchActiveDonations()
+    } catch (error) {
+      console.error('Error cancelling donation:', error)
+      alert('Failed to cancel donation. Please try again.')
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  const foodSafetyChecklist = toFoodSafetyChecklist(
+    foodSafety,
+    items.map(item => item.category).join(', '),
+    formData.safe_until
+  )
+  const foodSafetyIssues = checkFoodSafety(foodSafetyChecklist)
+
+  const toDonationItems = () => items.map(item => ({
+    category: item.category,
+    description: item.description.trim() || null,
+    quantity_amount: Number(item.quantity_amount),
+    quantity_unit: item.quantity_unit,
+    notes: item.notes.trim() || null,
+  }))
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target
+    setFormData(prev => ({ ...prev, [name]: value }))
+  }
+
+  const handleLocationSelect = (location: string, coords?: { lat: number; lng: number }) => {
+    setFormData(prev => ({ ...prev, pickup_location: location }))
+    setCoordinates(coords ?? null)
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!user) return
 
+    if (items.some(item => !(Number(item.quantity_amount) > 0))) {
+      alert('Please enter a quantity greater than zero for every item.')
+      return
+    }
+
+    if (new Date(formData.safe_until) <= new Date()) {
+      alert('The "safe until" time must be in the future.')
+      return
+    }
+
+    const safeUntil = new Date(formData.safe_until)
+    if (pickupWindows.some(window => new Date(window.ends_at) <= new Date(window.starts_at))) {
+      alert('Each pickup window must end after it starts.')
+      return
+    }
+
+    if (pickupWindows.some(window => new Date(window.ends_at) > safeUntil)) {
+      alert('Pickup windows must end before the "safe until" time.')
+      return
+    }
+
+    const blockingIssue = foodSafetyIssues.find(issue => issue.severity === 'danger')
+    if (blockingIssue) {
+      alert(blockingIssue.message)
+      return
+    }
+
     setLoading(true)
 
     try {
       // Get coordinates if not already available
       let finalCoordinates = coordinates
       if (!finalCoordinates && formData.pickup_location) {
-        finalCoordinates = await geocodeAddress(formData.pickup_location)
+        let geocodeError: unknown = null
+        finalCoordinates = await geocodeAddress(formData.pickup_location).catch(error => {
+          geocodeError = error
+          return null
+        })
+
+        if (!finalCoordinates) {
+          if (geocodeError) console.error('Error geocoding address:', geocodeError)
+          const problem = geocodeError instanceof GeocodingError
+            ? 'The map service is unavailable right now'
+            : `We couldn't find "${formData.pickup_location}" on the map`
+          if (!window.confirm(`${problem}. Post the donation anyway? Volunteers will get directions from the address as written.`)) {
+            return
+          }
+        }
       }
 
-      const { data, error } = await supabase
-        .from('donations')
-        .insert({
+      const { data, error } = await createDonation(
+        {
           donor_name: formData.donor_name,
-          food_type: formData.food_type,
-          quantity: formData.quantity,
           pickup_location: formData.pickup_location,
-          pickup_coordinates: finalCoordinates ? `(${finalCoordinates.lat},${finalCoordinates.lng})` : null,
-          donor_id: user.id,
-          status: 'pending',
+          pickup_point: finalCoordinates ? toPoint(finalCoordinates) : null,
+          safe_until: new Date(formData.safe_until).toISOString(),
           notes: formData.notes || null,
-        })
-        .select()
-        .single()
+          allergens,
+          dietary_tags: dietaryTags,
+          prepared_at: foodSafetyChecklist.prepared_at,
+          holding_temperature: foodSafetyChecklist.holding_temperature,
+          packaging: foodSafetyChecklist.packaging,
+          needs_refrigeration: foodSafety.needs_refrigeration,
+          needs_freezer: foodSafety.needs_freezer,
+        },
+        toDonationItems(),
+        pickupWindows.map(window => ({
+          starts_at: new Date(window.starts_at).toISOString(),
+          ends_at: new Date(window.ends_at).toISOString(),
+        }))
+      )
 
       if (error) throw error
 
+      if (photos.length > 0) {
+        const failedPhotos = await uploadDonationPhotos(data.id, photos)
+        if (failedPhotos > 0) {
+          alert(`Your donation was posted, but ${failedPhotos} of ${photos.length} photos could not be uploaded.`)
+        }
+      }
+
+      // The suggestion is a nice-to-have, the donation is posted either way
+      const topMatch = await fetchTopMatch(data.id).catch(error => {
+        console.error('Error fetching donation match:', error)
+        return null
+      })
+
       setSubmittedDonation(data)
+      setSubmittedItems(items)
+      setSubmittedMatch(topMatch)
       setShowSuccessModal(true)
+      fetchActiveDonations()
       
       // Reset form
       setFormData({
         donor_name: profile?.name || '',
-        food_type: '',
-        quantity: '',
         pickup_location: '',
+        safe_until: '',
         notes: '',
       })
+      setItems([emptyItemDraft()])
+      setPhotos([])
+      setAllergens([])
+      setDietaryTags([])
+      setFoodSafety(emptyFoodSafetyDraft())
+      setPickupWindows([])
       setCoordinates(null)
+      setSelectedTemplateId('')
+      setLocationKey(key => key + 1)
     } catch (error) {
       console.error('Error creating donation:', error)
       alert('Failed to submit donation. Please try again.')
@@ -107,6 +437,50 @@ export default function DonateSurplus() {
     }
   }
 
+  const activeMarkers = toMapMarkers(activeDonations, d =>
+    `${formatQuantity(d.quantity_amount, d.quantity_unit)} of ${d.food_type}, ${d.status.replace('_', ' ')}`
+  )
+
+  const renderActiveDonation = (donation: ActiveDonation) => (
+    <div key={donation.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 flex items-center justify-between">
+      <div>
+        <p className="text-sm font-medium text-gray-900">
+          {formatQuantity(donation.quantity_amount, donation.quantity_unit)} of {donation.food_type}
+        </p>
+        <DonationItemList items={donation.donation_items} className="mt-1" />
+        {isAwaitingPickup(donation.status) && (
+          <PickupWindows
+            windows={donation.donation_pickup_windows}
+            slotStartsAt={donation.pickup_slot_starts_at}
+            slotEndsAt={donation.pickup_slot_ends_at}
+            className="mt-1"
+          />
+        )}
+        <div className="flex items-center space-x-2 mt-1">
+          <span className={`text-xs px-2 py-1 rounded-full font-medium ${
+            donation.status === 'pending' ? 'bg-yellow-100 text-yellow-800' : 'bg-blue-100 text-blue-800'
+          }`}>
+            {donation.status.replace('_', ' ')}
+          </span>
+          <ExpiryBadge safeUntil={donation.safe_until} />
+          <Link to={`/donations/${donation.id}`} className="text-xs text-green-600 hover:text-green-700 font-medium">
+            View details
+          </Link>
+        </div>
+        {donation.status === 'pending' && <OfferBadge offer={donation} className="mt-1" />}
+      </div>
+      {['pending', 'accepted', 'claimed'].includes(donation.status) && (
+        <button
+          onClick={() => setCancelTarget(donation)}
+          className="flex items-center space-x-1 text-sm text-gray-500 hover:text-red-600 transition-colors"
+        >
+          <XCircle className="h-4 w-4" />
+          <span>Cancel</span>
+        </button>
+      )}
+    </div>
+  )
+
   return (
     <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="mb-8">
@@ -115,9 +489,51 @@ export default function DonateSurplus() {
           Help reduce food waste by sharing your surplus food with local shelters and food banks.
           Your donation will be visible to shelters in your area who can accept and arrange pickup.
         </p>
+        <p className="text-sm text-gray-500 mt-2">
+          Donate the same food every week?{' '}
+          <Link to="/schedules" className="text-green-600 hover:text-green-700 font-medium">
+            Set up a recurring schedule
+          </Link>
+          {' '}or{' '}
+          <Link to="/import" className="text-green-600 hover:text-green-700 font-medium">
+            import a spreadsheet
+          </Link>
+        </p>
       </div>
 
       <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-lg p-8 space-y-6">
+        {templates.length > 0 && (
+          <div className="bg-gray-50 rounded-lg p-4">
+            <label htmlFor="template" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+              <Bookmark className="h-4 w-4 mr-2" />
+              Start From a Template
+            </label>
+            <div className="flex space-x-2">
+              <select
+                id="template"
+                value={selectedTemplateId}
+                onChange={(e) => handleTemplateSelect(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              >
+                <option value="">Choose a saved template...</option>
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+              {selectedTemplateId && (
+                <button
+                  type="button"
+                  onClick={deleteTemplate}
+                  className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                  aria-label="Delete template"
+                >
+                  <Trash2 className="h-5 w-5" />
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         <div>
           <label htmlFor="donor_name" className="flex items-center text-sm font-medium text-gray-700 mb-2">
             <User className="h-4 w-4 mr-2" />
@@ -136,59 +552,64 @@ export default function DonateSurplus() {
         </div>
 
         <div>
-          <label htmlFor="food_type" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+          <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
             <Package className="h-4 w-4 mr-2" />
-            Food Type
+            Items
           </label>
-          <div className="flex space-x-2">
-            <select
-              id="food_type"
-              name="food_type"
-              required
-              value={formData.food_type}
-              onChange={handleInputChange}
-              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
-            >
-              <option value="">Select food type</option>
-              {foodTypeOptions.map(type => (
-                <option key={type} value={type}>{type}</option>
-              ))}
-            </select>
-            <button
-              type="button"
-              onClick={classifyFood}
-              disabled={!formData.food_type || classifying}
-              className="px-4 py-2 text-sm bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              {classifying ? (
-                <Loader className="h-4 w-4 animate-spin" />
-              ) : (
-                'AI Classify'
-              )}
-            </button>
-          </div>
+          <DonationItemsEditor items={items} onChange={setItems} />
           <p className="mt-1 text-xs text-gray-500">
-            Select the closest match or use AI to classify your food description
+            Add one line per kind of food so it all goes out in one pickup. Describe each item and AI will
+            suggest a food type. Use weight where you can.
           </p>
         </div>
 
         <div>
-          <label htmlFor="quantity" className="flex items-center text-sm font-medium text-gray-700 mb-2">
-            <Package className="h-4 w-4 mr-2" />
-            Quantity & Details
+          <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+            <ShieldAlert className="h-4 w-4 mr-2" />
+            Contains Allergens
+          </label>
+          <TagPicker options={ALLERGENS} selected={allergens} onChange={setAllergens} tone="red" />
+          <p className="mt-1 text-xs text-gray-500">
+            Select everything the food contains or may contain. Shelters serving people with allergies rely on this.
+          </p>
+        </div>
+
+        <div>
+          <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+            <Leaf className="h-4 w-4 mr-2" />
+            Suitable For (Optional)
+          </label>
+          <TagPicker options={DIETARY_TAGS} selected={dietaryTags} onChange={setDietaryTags} />
+        </div>
+
+        <div>
+          <label htmlFor="safe_until" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+            <Timer className="h-4 w-4 mr-2" />
+            Safe Until
           </label>
           <input
-            type="text"
-            id="quantity"
-            name="quantity"
+            type="datetime-local"
+            id="safe_until"
+            name="safe_until"
             required
-            value={formData.quantity}
+            min={toDateTimeLocalValue(new Date())}
+            value={formData.safe_until}
             onChange={handleInputChange}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
-            placeholder="e.g., 50 sandwiches, 20 pounds of vegetables, 15 servings"
           />
           <p className="mt-1 text-xs text-gray-500">
-            Be specific about quantity and include any relevant details (expiration, temperature requirements, etc.)
+            The latest time this food is safe to eat. Unclaimed donations expire automatically after this time.
+          </p>
+        </div>
+
+        <div>
+          <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+            <Thermometer className="h-4 w-4 mr-2" />
+            Food Safety Checklist
+          </label>
+          <FoodSafetyFields value={foodSafety} onChange={setFoodSafety} issues={foodSafetyIssues} />
+          <p className="mt-1 text-xs text-gray-500">
+            Volunteers see these handling requirements before they pick up.
           </p>
         </div>
 
@@ -197,14 +618,39 @@ export default function DonateSurplus() {
             Pickup Location
           </label>
           <LocationPicker
+            key={locationKey}
             onLocationSelect={handleLocationSelect}
             initialLocation={formData.pickup_location}
+            initialCoordinates={coordinates}
           />
           <p className="mt-1 text-xs text-gray-500">
             Provide the complete address where the food can be picked up
           </p>
         </div>
 
+        <div>
+          <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+            <CalendarClock className="h-4 w-4 mr-2" />
+            Pickup Windows (Optional)
+          </label>
+          <PickupWindowsEditor windows={pickupWindows} onChange={setPickupWindows} safeUntil={formData.safe_until} />
+          <p className="mt-1 text-xs text-gray-500">
+            When someone will be there to hand the food over. Volunteers book a slot inside one of these.
+            Leave empty if the food can be collected any time before it expires.
+          </p>
+        </div>
+
+        <div>
+          <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+            <Camera className="h-4 w-4 mr-2" />
+            Photos (Optional)
+          </label>
+          <PhotoPicker files={photos} onChange={setPhotos} />
+          <p className="mt-1 text-xs text-gray-500">
+            Help shelters see what they are accepting. Photos are resized before upload.
+          </p>
+        </div>
+
         <div>
           <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-2">
             Additional Notes (Optional)
@@ -220,6 +666,43 @@ export default function DonateSurplus() {
           />
         </div>
 
+        {templateName === null ? (
+          <button
+            type="button"
+            onClick={() => setTemplateName('')}
+            className="flex items-center text-sm text-green-600 hover:text-green-700 font-medium"
+          >
+            <Bookmark className="h-4 w-4 mr-1" />
+            Save as template for next time
+          </button>
+        ) : (
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              autoFocus
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              placeholder='Template name, e.g. "Friday bread surplus"'
+            />
+            <button
+              type="button"
+              onClick={saveTemplate}
+              disabled={savingTemplate || !templateName.trim()}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setTemplateName(null)}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
         <button
           type="submit"
           disabled={loading}
@@ -236,6 +719,45 @@ export default function DonateSurplus() {
         </button>
       </form>
 
+      {/* Active Donations */}
+      {activeDonations.length > 0 && (
+        <div className="mt-8">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Your Active Donations</h2>
+            <ViewToggle value={activeView} onChange={setActiveView} />
+          </div>
+          {activeView === 'map' ? (
+            <DonationMap
+              markers={activeMarkers}
+              unmappedCount={activeDonations.length - activeMarkers.length}
+              renderCard={(id) => {
+                const donation = activeDonations.find(d => d.id === id)
+                return donation ? renderActiveDonation(donation) : null
+              }}
+            />
+          ) : (
+            <div className="space-y-3">
+              {activeDonations.map(donation => renderActiveDonation(donation))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {cancelTarget && (
+        <ReasonModal
+          title="Cancel this donation?"
+          description={
+            cancelTarget.status === 'pending'
+              ? 'Shelters will no longer see this donation.'
+              : 'A shelter has already accepted this donation. The shelter and any assigned volunteer will be notified that it is no longer available.'
+          }
+          confirmLabel="Cancel Donation"
+          submitting={cancelling}
+          onConfirm={cancelDonation}
+          onClose={() => setCancelTarget(null)}
+        />
+      )}
+
       {/* Success Modal */}
       {showSuccessModal && submittedDonation && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -243,12 +765,32 @@ export default function DonateSurplus() {
             <div className="text-center">
               <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
               <h3 className="text-xl font-bold text-gray-900 mb-2">Thank You!</h3>
-              <p className="text-gray-600 mb-6">
+              <p className="text-gray-600 mb-4">
                 Thank you, {submittedDonation.donor_name}! Your donation of{' '}
-                <span className="font-semibold">{submittedDonation.quantity}</span> of{' '}
+                <span className="font-semibold">{formatQuantity(submittedDonation.quantity_amount, submittedDonation.quantity_unit)}</span> of{' '}
                 <span className="font-semibold">{submittedDonation.food_type}</span> has been posted 
                 and is now visible to local shelters. You'll receive a notification when a shelter accepts your donation.
               </p>
+              {submittedItems.length > 1 && (
+                <ul className="text-sm text-gray-600 mb-6 space-y-1">
+                  {submittedItems.map((item, index) => (
+                    <li key={index}>
+                      {formatQuantity(Number(item.quantity_amount), item.quantity_unit)} {item.description || item.category}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {submittedMatch && (
+                <div className="flex items-start space-x-2 text-left bg-blue-50 rounded-lg p-3 mb-4">
+                  <Sparkles className="h-4 w-4 text-blue-600 mt-0.5 flex-shrink-0" />
+                  <div className="text-sm text-blue-800">
+                    Likely to go to <span className="font-semibold">{submittedMatch.shelter_name}</span>
+                    {submittedMatch.reasons.length > 0 && (
+                      <span className="block text-xs text-blue-600">{submittedMatch.reasons.join(' · ')}</span>
+                    )}
+                  </div>
+                </div>
+              )}
               <div className="bg-green-50 rounded-lg p-4 mb-6">
                 <p className="text-sm text-green-700">
                   <strong>What happens next:</strong>
@@ -0,0 +1,671 @@
+import { useState, useEffect } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import type { PostgrestError } from '@supabase/supabase-js'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase, QuantityUnit } from '../lib/supabase'
+import { formatQuantity } from '../lib/quantity'
+import { directionsUrl, toLatLng } from '../lib/coordinates'
+import { getDietaryConflicts } from '../lib/dietary'
+import type { DonationItem } from '../lib/donationItems'
+import type { HoldingTemperature, Packaging } from '../lib/foodSafety'
+import { isAwaitingPickup, type PickupWindow } from '../lib/pickupWindows'
+import { removeDonationPhotos, uploadDonationPhotos, type DonationPhoto } from '../lib/photos'
+import * as transitions from '../lib/donationTransitions'
+import { describeAllocationBlock, fetchAllocationBlocks, isAllocationRefusal, toAllocationBlock, type AllocationBlock } from '../lib/allocation'
+import { isOfferRefusal } from '../lib/offers'
+import ExpiryBadge from '../components/ExpiryBadge'
+import OfferBadge from '../components/OfferBadge'
+import AllocationNotice from '../components/AllocationNotice'
+import DonationTimeline from '../components/DonationTimeline'
+import DonationItemList from '../components/DonationItemList'
+import DonationPhotos from '../components/DonationPhotos'
+import DietaryBadges from '../components/DietaryBadges'
+import HandlingRequirements from '../components/HandlingRequirements'
+import PickupWindows from '../components/PickupWindows'
+import MapPreview from '../components/MapPreview'
+import ReasonModal from '../components/ReasonModal'
+import DiscrepancyModal from '../components/DiscrepancyModal'
+import DeliveryModal from '../components/DeliveryModal'
+import SlotPickerModal from '../components/SlotPickerModal'
+import {
+  ArrowLeft,
+  MapPin,
+  Package,
+  MessageSquare,
+  Navigation,
+  Phone,
+  User,
+  CheckCircle,
+  Hand,
+  PackageCheck,
+  LogOut,
+  XCircle,
+  Undo2,
+  ClipboardCheck,
+  AlertTriangle,
+  ShieldAlert,
+} from 'lucide-react'
+
+interface Donation {
+  id: string
+  donor_name: string
+  food_type: string
+  quantity_amount: number
+  quantity_unit: QuantityUnit
+  pickup_location: string
+  pickup_lat: number | null
+  pickup_lng: number | null
+  status: string
+  status_reason: string | null
+  donor_id: string
+  shelter_id: string | null
+  volunteer_id: string | null
+  created_at: string
+  accepted_at: string | null
+  claimed_at: string | null
+  picked_up_at: string | null
+  delivered_at: string | null
+  delivery_recipient_name: string | null
+  completed_at: string | null
+  disputed_at: string | null
+  discrepancy_type: transitions.DiscrepancyType | null
+  cancelled_at: string | null
+  expired_at: string | null
+  safe_until: string
+  notes: string | null
+  allergens: string[]
+  dietary_tags: string[]
+  prepared_at: string | null
+  holding_temperature: HoldingTemperature | null
+  packaging: Packaging | null
+  needs_refrigeration: boolean
+  needs_freezer: boolean
+  pickup_slot_starts_at: string | null
+  pickup_slot_ends_at: string | null
+  offer_tier: number | null
+  offer_radius_km: number | null
+  offer_widens_at: string | null
+  donation_items: DonationItem[]
+  donation_photos: DonationPhoto[]
+  donation_pickup_windows: PickupWindow[]
+}
+
+interface Party {
+  id: string
+  name: string
+  phone: string | null
+}
+
+type ModalKind = 'cancel' | 'decline' | 'release' | 'discrepancy' | 'resolve' | 'deliver' | 'slot'
+
+const MILESTONES: { key: keyof Donation; label: string }[] = [
+  { key: 'created_at', label: 'Posted' },
+  { key: 'accepted_at', label: 'Accepted by shelter' },
+  { key: 'claimed_at', label: 'Claimed by volunteer' },
+  { key: 'picked_up_at', label: 'Picked up' },
+  { key: 'delivered_at', label: 'Delivered' },
+  { key: 'completed_at', label: 'Receipt confirmed' },
+  { key: 'disputed_at', label: 'Problem reported' },
+  { key: 'cancelled_at', label: 'Cancelled' },
+  { key: 'expired_at', label: 'Expired' },
+]
+
+export default function DonationDetail() {
+  const { id } = useParams<{ id: string }>()
+  const { user, profile } = useAuth()
+  const [donation, setDonation] = useState<Donation | null>(null)
+  const [parties, setParties] = useState<Party[]>([])
+  const [loading, setLoading] = useState(true)
+  const [updating, setUpdating] = useState(false)
+  const [modal, setModal] = useState<ModalKind | null>(null)
+  const [allocationBlock, setAllocationBlock] = useState<AllocationBlock | null>(null)
+
+  useEffect(() => {
+    fetchDonation()
+
+    const subscription = supabase
+      .channel(`donation-${id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'donations',
+          filter: `id=eq.${id}`,
+        },
+        () => {
+          fetchDonation()
+        }
+      )
+      .subscribe()
+
+    return () => {
+      subscription.unsubscribe()
+    }
+  }, [id])
+
+  const fetchDonation = async () => {
+    if (!id) return
+
+    try {
+      const { data, error } = await supabase
+        .from('donations')
+        .select('*, donation_items(*), donation_photos(*), donation_pickup_windows(*)')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) throw error
+      setDonation(data)
+
+      if (data) {
+        const { data: contacts, error: contactsError } = await supabase.rpc('donation_contacts', { p_donation_id: data.id })
+
+        if (contactsError) throw contactsError
+        setParties(contacts || [])
+
+        if (profile?.user_type === 'shelter' && data.status === 'pending') {
+          const blocks = await fetchAllocationBlocks([data.id])
+          setAllocationBlock(blocks[data.id] ?? null)
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching donation:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Shared handling for every action on the page
+  const runAction = async (
+    action: () => PromiseLike<{ error: PostgrestError | null }>,
+    failureMessage: string,
+    successMessage?: string
+  ) => {
+    setUpdating(true)
+
+    try {
+      const { error } = await action()
+
+      if (transitions.isTransitionConflict(error) || isOfferRefusal(error)) {
+        alert(`${error.message}.`)
+      } else if (isAllocationRefusal(error)) {
+        alert(describeAllocationBlock(toAllocationBlock(error)))
+      } else if (error) {
+        throw error
+      } else if (successMessage) {
+        alert(successMessage)
+      }
+
+      setModal(null)
+      fetchDonation()
+      return !error
+    } catch (error) {
+      console.error('Error updating donation:', error)
+      alert(failureMessage)
+      return false
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'pending':
+        return 'bg-yellow-100 text-yellow-800'
+      case 'accepted':
+        return 'bg-blue-100 text-blue-800'
+      case 'claimed':
+        return 'bg-indigo-100 text-indigo-800'
+      case 'in_transit':
+        return 'bg-purple-100 text-purple-800'
+      case 'delivered':
+        return 'bg-teal-100 text-teal-800'
+      case 'completed':
+        return 'bg-green-100 text-green-800'
+      case 'disputed':
+        return 'bg-red-100 text-red-800'
+      case 'cancelled':
+        return 'bg-red-100 text-red-800'
+      case 'expired':
+        return 'bg-gray-200 text-gray-600'
+      default:
+        return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    )
+  }
+
+  if (!donation) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+        <Package className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">Donation not found</h1>
+        <p className="text-gray-600 mb-6">It may have been removed, or you don't have access to it.</p>
+        <Link to="/" className="text-green-600 hover:text-green-700 font-medium">Back to dashboard</Link>
+      </div>
+    )
+  }
+
+  const isDonor = donation.donor_id === user?.id
+  const isShelter = profile?.user_type === 'shelter'
+  const isVolunteer = profile?.user_type === 'volunteer'
+  const isMyShelter = isShelter && donation.shelter_id === user?.id
+  const isMyPickup = isVolunteer && donation.volunteer_id === user?.id
+  const conflicts = isShelter ? getDietaryConflicts(donation, profile) : []
+
+  const canGetDirections = isVolunteer && (isMyPickup || isAwaitingPickup(donation.status))
+  const hasActions =
+    (isShelter && donation.status === 'pending') ||
+    (isMyShelter && ['accepted', 'delivered'].includes(donation.status)) ||
+    (isVolunteer && donation.status === 'accepted' && !donation.volunteer_id) ||
+    (isMyPickup && ['claimed', 'in_transit'].includes(donation.status)) ||
+    canGetDirections ||
+    (isDonor && ['pending', 'accepted', 'claimed'].includes(donation.status))
+
+  const actionButtonClassName = 'w-full flex justify-center items-center space-x-2 py-2 px-4 rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors'
+  const primaryClassName = `${actionButtonClassName} text-white bg-green-600 hover:bg-green-700`
+  const secondaryClassName = `${actionButtonClassName} text-gray-700 border border-gray-300 hover:bg-gray-50`
+
+  const actions = (
+    <div className="space-y-2">
+      {isShelter && donation.status === 'pending' && <AllocationNotice block={allocationBlock} />}
+
+      {isShelter && donation.status === 'pending' && (
+        <button
+          onClick={() => runAction(
+            () => transitions.acceptDonation(donation.id),
+            'Failed to accept donation. Please try again.',
+            `Donation accepted! ${donation.donor_name} has been notified.`
+          )}
+          disabled={updating}
+          className={primaryClassName}
+        >
+          <CheckCircle className="h-4 w-4" />
+          <span>Accept Donation</span>
+        </button>
+      )}
+
+      {isMyShelter && donation.status === 'accepted' && (
+        <button onClick={() => setModal('decline')} className={secondaryClassName}>
+          <Undo2 className="h-4 w-4" />
+          <span>Decline</span>
+        </button>
+      )}
+
+      {isMyShelter && donation.status === 'delivered' && (
+        <>
+          <button
+            onClick={() => runAction(
+              () => transitions.confirmDonationReceipt(donation.id),
+              'Failed to confirm receipt. Please try again.',
+              'Receipt confirmed! The donor and volunteer have been notified.'
+            )}
+            disabled={updating}
+            className={primaryClassName}
+          >
+            <ClipboardCheck className="h-4 w-4" />
+            <span>Confirm Receipt</span>
+          </button>
+          <button onClick={() => setModal('discrepancy')} className={secondaryClassName}>
+            <AlertTriangle className="h-4 w-4" />
+            <span>Report Problem</span>
+          </button>
+        </>
+      )}
+
+      {(isMyShelter || isDonor) && donation.status === 'disputed' && (
+        <button onClick={() => setModal('resolve')} className={secondaryClassName}>
+          <CheckCircle className="h-4 w-4" />
+          <span>Mark Resolved</span>
+        </button>
+      )}
+
+      {isVolunteer && donation.status === 'accepted' && !donation.volunteer_id && (
+        <button
+          onClick={() =>
+            donation.donation_pickup_windows.length > 0
+              ? setModal('slot')
+              : runAction(
+                  () => transitions.claimDonation(donation.id),
+                  'Failed to claim pickup. Please try again.',
+                  'Pickup claimed! Contact the donor to arrange a pickup time.'
+                )
+          }
+          disabled={updating}
+          className={primaryClassName}
+        >
+          <Hand className="h-4 w-4" />
+          <span>Claim Pickup</span>
+        </button>
+      )}
+
+      {isMyPickup && donation.status === 'claimed' && (
+        <>
+          <button
+            onClick={() => runAction(
+              () => transitions.pickUpDonation(donation.id),
+              'Failed to update pickup. Please try again.'
+            )}
+            disabled={updating}
+            className={primaryClassName}
+          >
+            <PackageCheck className="h-4 w-4" />
+            <span>Mark Picked Up</span>
+          </button>
+          <button onClick={() => setModal('release')} className={secondaryClassName}>
+            <LogOut className="h-4 w-4" />
+            <span>Release Pickup</span>
+          </button>
+        </>
+      )}
+
+      {isMyPickup && donation.status === 'in_transit' && (
+        <button onClick={() => setModal('deliver')} className={primaryClassName}>
+          <CheckCircle className="h-4 w-4" />
+          <span>Mark Delivered</span>
+        </button>
+      )}
+
+      {canGetDirections && (
+        <a
+          href={directionsUrl(toLatLng(donation.pickup_lat, donation.pickup_lng), donation.pickup_location)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`${actionButtonClassName} text-blue-700 border border-blue-300 bg-blue-50 hover:bg-blue-100`}
+        >
+          <Navigation className="h-4 w-4" />
+          <span>Get Directions</span>
+        </a>
+      )}
+
+      {isDonor && ['pending', 'accepted', 'claimed'].includes(donation.status) && (
+        <button onClick={() => setModal('cancel')} className={`${secondaryClassName} hover:text-red-600`}>
+          <XCircle className="h-4 w-4" />
+          <span>Cancel Donation</span>
+        </button>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Link to="/" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-6">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to dashboard
+      </Link>
+
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            {formatQuantity(donation.quantity_amount, donation.quantity_unit)} of {donation.food_type}
+          </h1>
+          <p className="text-gray-600">From {donation.donor_name} · posted {formatDate(donation.created_at)}</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className={`text-sm px-3 py-1 rounded-full font-medium ${getStatusColor(donation.status)}`}>
+            {donation.status.replace('_', ' ')}
+          </span>
+          {isAwaitingPickup(donation.status) && <ExpiryBadge safeUntil={donation.safe_until} />}
+          {isDonor && donation.status === 'pending' && <OfferBadge offer={donation} />}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">Food</h2>
+
+            <HandlingRequirements donation={donation} />
+            <DonationItemList items={donation.donation_items} />
+            <DietaryBadges allergens={donation.allergens} dietaryTags={donation.dietary_tags} />
+
+            {conflicts.length > 0 && (
+              <div className="flex items-start space-x-2 bg-red-50 border border-red-200 rounded-lg p-2">
+                <ShieldAlert className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+                <span className="text-xs text-red-700">
+                  Doesn't match your preferences: {conflicts.join(', ')}
+                </span>
+              </div>
+            )}
+
+            <p className="text-sm text-gray-600">
+              Safe until {formatDate(donation.safe_until)}
+            </p>
+
+            {donation.notes && (
+              <div className="flex items-start space-x-2">
+                <MessageSquare className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                <div className="text-sm text-gray-600 bg-gray-50 rounded p-2">{donation.notes}</div>
+              </div>
+            )}
+
+            <DonationPhotos photos={donation.donation_photos} />
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">Pickup</h2>
+
+            <div className="flex items-start space-x-2">
+              <MapPin className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+              <span className="text-sm text-gray-600">{donation.pickup_location}</span>
+            </div>
+
+            <MapPreview position={toLatLng(donation.pickup_lat, donation.pickup_lng)} label={donation.pickup_location} />
+
+            {isAwaitingPickup(donation.status) && (
+              <PickupWindows
+                windows={donation.donation_pickup_windows}
+                slotStartsAt={donation.pickup_slot_starts_at}
+                slotEndsAt={donation.pickup_slot_ends_at}
+              />
+            )}
+          </div>
+
+          {(donation.delivered_at || donation.status_reason) && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-3">
+              <h2 className="text-lg font-semibold text-gray-900">Outcome</h2>
+
+              {donation.delivery_recipient_name && (
+                <p className="text-sm text-gray-600">
+                  Received by <span className="font-medium">{donation.delivery_recipient_name}</span>
+                  {donation.delivered_at && <> on {formatDate(donation.delivered_at)}</>}
+                </p>
+              )}
+
+              {donation.discrepancy_type && (
+                <p className="text-sm text-red-700">
+                  Problem reported: {transitions.DISCREPANCY_TYPES.find(type => type.value === donation.discrepancy_type)?.label}
+                </p>
+              )}
+
+              {donation.status_reason && (
+                <p className="text-sm text-gray-600 italic">"{donation.status_reason}"</p>
+              )}
+
+              <DonationPhotos photos={donation.donation_photos} kind="delivery" />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {hasActions && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Actions</h2>
+              {actions}
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">People</h2>
+            <ul className="space-y-3">
+              {(['donor', 'shelter', 'volunteer'] as const).map(role => {
+                const partyId = role === 'donor' ? donation.donor_id : role === 'shelter' ? donation.shelter_id : donation.volunteer_id
+                const party = parties.find(p => p.id === partyId)
+
+                return (
+                  <li key={role} className="flex items-start space-x-2">
+                    <User className="h-4 w-4 text-gray-400 mt-0.5" />
+                    <div>
+                      <p className="text-xs uppercase tracking-wide text-gray-500">{role}</p>
+                      <p className="text-sm text-gray-900">
+                        {party?.name || (role === 'donor' ? donation.donor_name : partyId ? 'Assigned' : 'Not yet assigned')}
+                      </p>
+                      {party?.phone && (
+                        <a href={`tel:${party.phone}`} className="flex items-center text-sm text-blue-600 hover:text-blue-700">
+                          <Phone className="h-3 w-3 mr-1" />
+                          {party.phone}
+                        </a>
+                      )}
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Timeline</h2>
+            <ol className="border-l border-gray-200 ml-1 space-y-3 mb-4">
+              {MILESTONES.filter(milestone => donation[milestone.key]).map(milestone => (
+                <li key={milestone.key} className="relative pl-4">
+                  <span className="absolute -left-1 top-1 h-2 w-2 rounded-full bg-green-500"></span>
+                  <p className="text-sm font-medium text-gray-900">{milestone.label}</p>
+                  <p className="text-xs text-gray-500">{formatDate(donation[milestone.key] as string)}</p>
+                </li>
+              ))}
+            </ol>
+            <DonationTimeline donationId={donation.id} defaultOpen />
+          </div>
+        </div>
+      </div>
+
+      {modal === 'cancel' && (
+        <ReasonModal
+          title="Cancel this donation?"
+          description={
+            donation.status === 'pending'
+              ? 'Shelters will no longer see this donation.'
+              : 'A shelter has already accepted this donation. The shelter and any assigned volunteer will be notified that it is no longer available.'
+          }
+          confirmLabel="Cancel Donation"
+          submitting={updating}
+          onConfirm={async (reason) => {
+            const cancelled = await runAction(
+              () => transitions.cancelDonation(donation.id, reason),
+              'Failed to cancel donation. Please try again.'
+            )
+            if (cancelled) {
+              removeDonationPhotos(donation.id).catch(photoError => {
+                console.error('Error removing donation photos:', photoError)
+              })
+            }
+          }}
+          onClose={() => setModal(null)}
+        />
+      )}
+
+      {modal === 'decline' && (
+        <ReasonModal
+          title="Decline this donation?"
+          description="It goes back on offer to other shelters."
+          confirmLabel="Decline"
+          submitting={updating}
+          onConfirm={(reason) => runAction(
+            () => transitions.declineDonation(donation.id, reason),
+            'Failed to decline donation. Please try again.'
+          )}
+          onClose={() => setModal(null)}
+        />
+      )}
+
+      {modal === 'release' && (
+        <ReasonModal
+          title="Release this pickup?"
+          description="Other volunteers will be able to claim it again."
+          confirmLabel="Release Pickup"
+          submitting={updating}
+          onConfirm={(reason) => runAction(
+            () => transitions.releaseDonation(donation.id, reason),
+            'Failed to release pickup. Please try again.'
+          )}
+          onClose={() => setModal(null)}
+        />
+      )}
+
+      {modal === 'discrepancy' && (
+        <DiscrepancyModal
+          donorName={donation.donor_name}
+          submitting={updating}
+          onConfirm={(type, reason) => runAction(
+            () => transitions.reportDeliveryDiscrepancy(donation.id, type, reason),
+            'Failed to report the problem. Please try again.'
+          )}
+          onClose={() => setModal(null)}
+        />
+      )}
+
+      {modal === 'resolve' && (
+        <ReasonModal
+          title="Mark this problem resolved?"
+          description="Note how it was sorted out. The donation is then marked completed and everyone involved can see the note."
+          confirmLabel="Mark Resolved"
+          submitting={updating}
+          onConfirm={(resolution) => runAction(
+            () => transitions.resolveDeliveryDiscrepancy(donation.id, resolution),
+            'Failed to resolve the problem. Please try again.'
+          )}
+          onClose={() => setModal(null)}
+        />
+      )}
+
+      {modal === 'deliver' && (
+        <DeliveryModal
+          submitting={updating}
+          onConfirm={async (recipientName, photo) => {
+            // Photos can only be added while the pickup is still ours, so upload before handing over
+            if (photo) {
+              const failedPhotos = await uploadDonationPhotos(donation.id, [photo], 'delivery')
+              if (failedPhotos > 0) {
+                alert('The delivery photo could not be uploaded. The delivery will be recorded without it.')
+              }
+            }
+            runAction(
+              () => transitions.deliverDonation(donation.id, recipientName),
+              'Failed to record delivery. Please try again.',
+              'Delivery recorded! The shelter will confirm they received it.'
+            )
+          }}
+          onClose={() => setModal(null)}
+        />
+      )}
+
+      {modal === 'slot' && (
+        <SlotPickerModal
+          windows={donation.donation_pickup_windows}
+          submitting={updating}
+          onConfirm={(slotStartsAt) => runAction(
+            () => transitions.claimDonation(donation.id, slotStartsAt),
+            'Failed to claim pickup. Please try again.',
+            'Pickup claimed! Your slot is booked.'
+          )}
+          onClose={() => setModal(null)}
+        />
+      )}
+    </div>
+  )
+}
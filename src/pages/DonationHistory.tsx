@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase, QuantityUnit } from '../lib/supabase'
+import { formatQuantity } from '../lib/quantity'
+import type { DonationItem } from '../lib/donationItems'
+import DonationItemList from '../components/DonationItemList'
+import { History, MapPin, Package, RotateCcw } from 'lucide-react'
+
+interface Donation {
+  id: string
+  food_type: string
+  quantity_amount: number
+  quantity_unit: QuantityUnit
+  pickup_location: string
+  status: string
+  created_at: string
+  donation_items: DonationItem[]
+}
+
+const STATUS_FILTERS = [
+  { value: 'all', label: 'All', statuses: [] },
+  { value: 'active', label: 'Active', statuses: ['pending', 'accepted', 'claimed', 'in_transit', 'delivered'] },
+  { value: 'completed', label: 'Completed', statuses: ['completed'] },
+  { value: 'disputed', label: 'Disputed', statuses: ['disputed'] },
+  { value: 'cancelled', label: 'Cancelled', statuses: ['cancelled'] },
+  { value: 'expired', label: 'Expired', statuses: ['expired'] },
+]
+
+export default function DonationHistory() {
+  const { user } = useAuth()
+  const [donations, setDonations] = useState<Donation[]>([])
+  const [filter, setFilter] = useState('all')
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchDonations()
+  }, [user])
+
+  const fetchDonations = async () => {
+    if (!user) return
+
+    try {
+      const { data, error } = await supabase
+        .from('donations')
+        .select('id, food_type, quantity_amount, quantity_unit, pickup_location, status, created_at, donation_items(*)')
+        .eq('donor_id', user.id)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setDonations(data || [])
+    } catch (error) {
+      console.error('Error fetching donation history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    })
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'pending':
+        return 'bg-yellow-100 text-yellow-800'
+      case 'accepted':
+        return 'bg-blue-100 text-blue-800'
+      case 'claimed':
+        return 'bg-indigo-100 text-indigo-800'
+      case 'in_transit':
+        return 'bg-purple-100 text-purple-800'
+      case 'delivered':
+        return 'bg-teal-100 text-teal-800'
+      case 'completed':
+        return 'bg-green-100 text-green-800'
+      case 'disputed':
+        return 'bg-red-100 text-red-800'
+      case 'cancelled':
+        return 'bg-red-100 text-red-800'
+      case 'expired':
+        return 'bg-gray-200 text-gray-600'
+      default:
+        return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  const countFor = (statuses: string[]) => {
+    return statuses.length === 0
+      ? donations.length
+      : donations.filter(donation => statuses.includes(donation.status)).length
+  }
+
+  const activeFilter = STATUS_FILTERS.find(f => f.value === filter) || STATUS_FILTERS[0]
+  const filteredDonations = activeFilter.statuses.length === 0
+    ? donations
+    : donations.filter(donation => activeFilter.statuses.includes(donation.status))
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Donation History</h1>
+        <p className="text-gray-600">
+          Everything you have donated. Use "Donate again" to post the same food without retyping it.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {STATUS_FILTERS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setFilter(option.value)}
+            aria-pressed={filter === option.value}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+              filter === option.value
+                ? 'bg-green-600 text-white border-green-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {option.label} ({countFor(option.statuses)})
+          </button>
+        ))}
+      </div>
+
+      {filteredDonations.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl shadow-sm border border-gray-100">
+          <History className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No donations here</h3>
+          <p className="text-gray-600">
+            {donations.length === 0 ? 'Donations you post will show up here.' : 'No donations match this filter.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filteredDonations.map((donation) => (
+            <div key={donation.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 flex items-start justify-between">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2 mb-1">
+                  <Package className="h-4 w-4 text-gray-400" />
+                  <p className="text-sm font-medium text-gray-900">
+                    {formatQuantity(donation.quantity_amount, donation.quantity_unit)} of {donation.food_type}
+                  </p>
+                </div>
+                <DonationItemList items={donation.donation_items} className="mt-1" />
+                <div className="flex items-center space-x-2 mt-1">
+                  <MapPin className="h-4 w-4 text-gray-400" />
+                  <span className="text-sm text-gray-600 truncate">{donation.pickup_location}</span>
+                </div>
+                <div className="flex items-center space-x-2 mt-2">
+                  <span className={`text-xs px-2 py-1 rounded-full font-medium ${getStatusColor(donation.status)}`}>
+                    {donation.status.replace('_', ' ')}
+                  </span>
+                  <span className="text-xs text-gray-500">{formatDate(donation.created_at)}</span>
+                  <Link to={`/donations/${donation.id}`} className="text-xs text-green-600 hover:text-green-700 font-medium">
+                    View details
+                  </Link>
+                </div>
+              </div>
+              <Link
+                to={`/donate?from=${donation.id}`}
+                className="flex-shrink-0 flex items-center space-x-1 text-sm text-green-600 hover:text-green-700 font-medium"
+              >
+                <RotateCcw className="h-4 w-4" />
+                <span>Donate again</span>
+              </Link>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
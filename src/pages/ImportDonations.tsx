@@ -0,0 +1,283 @@
+import React, { useState, useEffect } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import { formatQuantity } from '../lib/quantity'
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  guessColumnMapping,
+  importDonations,
+  parseImportFile,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRecords,
+  type ImportRow,
+} from '../lib/donationImport'
+import type { QuantityUnit } from '../lib/supabase'
+import { FileSpreadsheet, Upload, CheckCircle, AlertTriangle, Columns } from 'lucide-react'
+
+export default function ImportDonations() {
+  const { profile } = useAuth()
+  const navigate = useNavigate()
+  const [fileName, setFileName] = useState('')
+  const [parsed, setParsed] = useState<ImportRecords | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [validating, setValidating] = useState(false)
+  const [importing, setImporting] = useState(false)
+
+  useEffect(() => {
+    if (!parsed) return
+
+    // Geocoding is async, ignore results for a mapping that has since changed
+    let stale = false
+    setValidating(true)
+
+    validateImportRows(parsed.records, mapping, profile?.name || '')
+      .then(result => {
+        if (!stale) setRows(result)
+      })
+      .catch(error => {
+        console.error('Error validating import:', error)
+      })
+      .finally(() => {
+        if (!stale) setValidating(false)
+      })
+
+    return () => {
+      stale = true
+    }
+  }, [parsed, mapping])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv'
+
+    try {
+      const result = parseImportFile(await file.text(), format)
+
+      if (result.records.length === 0) {
+        alert('That file has no rows to import.')
+        return
+      }
+
+      if (result.records.length > MAX_IMPORT_ROWS) {
+        alert(`That file has ${result.records.length} rows. Please split it into files of at most ${MAX_IMPORT_ROWS}.`)
+        return
+      }
+
+      setFileName(file.name)
+      setRows([])
+      setMapping(guessColumnMapping(result.headers))
+      setParsed(result)
+    } catch (error) {
+      console.error('Error reading import file:', error)
+      alert(`Couldn't read ${file.name}. Please check it is a valid ${format.toUpperCase()} file.`)
+    }
+  }
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    setMapping(prev => ({ ...prev, [field]: column || undefined }))
+  }
+
+  const validRows = rows.filter(row => row.errors.length === 0)
+  const invalidRows = rows.length - validRows.length
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return
+
+    setImporting(true)
+
+    try {
+      const { data, error } = await importDonations(validRows)
+
+      // import_donations numbers the rows it was sent, which skips the invalid ones
+      if (error?.code === '22023' || error?.message.startsWith('Row ')) {
+        alert(`${error.message.replace(/^Row (\d+)/, (_, n) => `Row ${validRows[Number(n) - 1]?.row ?? n}`)}.`)
+        return
+      }
+      if (error) throw error
+
+      alert(`${data.length} donations posted! Shelters can see them now.`)
+      navigate('/history')
+    } catch (error) {
+      console.error('Error importing donations:', error)
+      alert('Failed to import donations. Nothing was posted, please try again.')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Import Donations</h1>
+        <p className="text-gray-600">
+          Post a whole surplus list at once from a CSV or JSON file. Each row becomes one donation.
+          Nothing is posted until you've checked the preview.
+        </p>
+        <p className="text-sm text-gray-500 mt-2">
+          Only a few items?{' '}
+          <Link to="/donate" className="text-green-600 hover:text-green-700 font-medium">
+            Use the donation form
+          </Link>
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-8 space-y-6">
+        <div>
+          <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            File
+          </label>
+          <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-6 cursor-pointer hover:border-green-500 transition-colors">
+            <Upload className="h-8 w-8 text-gray-400 mb-2" />
+            <span className="text-sm text-gray-700">{fileName || 'Choose a .csv or .json file'}</span>
+            <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} className="hidden" />
+          </label>
+          <p className="mt-1 text-xs text-gray-500">
+            Needs columns for the food, quantity, pickup location and safe-until time. Unit defaults to kg,
+            food type is worked out from the description when there's no column for it. Separate allergens
+            with semicolons. Up to {MAX_IMPORT_ROWS} rows per file.
+          </p>
+        </div>
+
+        {parsed && (
+          <div>
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+              <Columns className="h-4 w-4 mr-2" />
+              Columns
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.value} className="flex items-center space-x-2">
+                  <label htmlFor={`column-${field.value}`} className="w-36 text-sm text-gray-600 flex-shrink-0">
+                    {field.label}{field.required && <span className="text-red-500"> *</span>}
+                  </label>
+                  <select
+                    id={`column-${field.value}`}
+                    value={mapping[field.value] || ''}
+                    onChange={(e) => handleMappingChange(field.value, e.target.value)}
+                    className="flex-1 px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  >
+                    <option value="">{field.required ? 'Choose a column...' : 'Not in file'}</option>
+                    {parsed.headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {parsed && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-sm font-medium text-gray-700">Preview</h2>
+              {validating ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-green-600"></div>
+              ) : (
+                <span className="text-sm text-gray-500">
+                  {validRows.length} ready{invalidRows > 0 && `, ${invalidRows} with problems`}
+                </span>
+              )}
+            </div>
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-500">
+                  <tr>
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Food</th>
+                    <th className="px-3 py-2">Quantity</th>
+                    <th className="px-3 py-2">Pickup</th>
+                    <th className="px-3 py-2">Safe until</th>
+                    <th className="px-3 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.map(row => {
+                    const record = parsed.records[row.row - 1]
+                    const item = row.items[0]
+                    const column = (field: ImportField) => (mapping[field] && record[mapping[field]!]) || ''
+
+                    return (
+                      <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                        <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {column('description')}
+                          {item && <span className="block text-xs text-gray-500">{String(item.category)}</span>}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {item
+                            ? formatQuantity(item.quantity_amount as number, item.quantity_unit as QuantityUnit)
+                            : `${column('quantity_amount')} ${column('quantity_unit')}`}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">{column('pickup_location')}</td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {row.donation ? formatDate(row.donation.safe_until as string) : column('safe_until')}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.errors.length === 0 ? (
+                            <span className="flex items-center text-green-700">
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Ready
+                            </span>
+                          ) : (
+                            <ul className="text-xs text-red-700 space-y-0.5">
+                              {row.errors.map(error => (
+                                <li key={error} className="flex items-start">
+                                  <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                                  {error}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {invalidRows > 0 && !validating && (
+              <p className="mt-2 text-xs text-gray-500">
+                Rows with problems are skipped. Fix them in your file and import it again, or change the columns above.
+              </p>
+            )}
+          </div>
+        )}
+
+        {parsed && (
+          <button
+            onClick={handleImport}
+            disabled={importing || validating || validRows.length === 0}
+            className="w-full flex justify-center items-center space-x-2 py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {importing ? (
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+            ) : (
+              <>
+                <Upload className="h-5 w-5" />
+                <span>Post {validRows.length} Donations</span>
+              </>
+            )}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,19 +1,60 @@
 import React, { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
-import { supabase, generateNotificationMessage } from '../lib/supabase'
-import { MapPin, Package, Clock, User, CheckCircle, Phone, MessageSquare } from 'lucide-react'
+import { supabase, generateNotificationMessage, QuantityUnit } from '../lib/supabase'
+import { formatQuantity } from '../lib/quantity'
+import type { DonationItem } from '../lib/donationItems'
+import type { DonationPhoto } from '../lib/photos'
+import { isAwaitingPickup, type PickupWindow } from '../lib/pickupWindows'
+import { getDietaryConflicts } from '../lib/dietary'
+import * as transitions from '../lib/donationTransitions'
+import { getMinutesRemaining } from '../lib/expiry'
+import { toLatLng, type LatLng } from '../lib/coordinates'
+import { RADIUS_OPTIONS_KM, distanceKm, donationsWithin, formatDistance } from '../lib/nearby'
+import { hasServiceArea, serviceAreaDonations } from '../lib/serviceArea'
+import { isRecommended, type DonationMatch } from '../lib/matching'
+import { toMapMarkers } from '../lib/mapMarkers'
+import { describeAllocationBlock, fetchAllocationBlocks, isAllocationRefusal, toAllocationBlock, type AllocationBlock } from '../lib/allocation'
+import { isOfferRefusal } from '../lib/offers'
+import ExpiryBadge from '../components/ExpiryBadge'
+import DonationTimeline from '../components/DonationTimeline'
+import DonationItemList from '../components/DonationItemList'
+import DonationPhotos from '../components/DonationPhotos'
+import ReasonModal from '../components/ReasonModal'
+import DiscrepancyModal from '../components/DiscrepancyModal'
+import DietaryBadges from '../components/DietaryBadges'
+import PickupWindows from '../components/PickupWindows'
+import RecommendedBadge from '../components/RecommendedBadge'
+import AllocationNotice from '../components/AllocationNotice'
+import DonationMap from '../components/DonationMap'
+import ViewToggle, { type DonationView } from '../components/ViewToggle'
+import { MapPin, Package, Clock, User, CheckCircle, Phone, MessageSquare, Undo2, Truck, ClipboardCheck, AlertTriangle, ShieldAlert } from 'lucide-react'
 
 interface Donation {
   id: string
   donor_name: string
   food_type: string
-  quantity: string
+  quantity_amount: number
+  quantity_unit: QuantityUnit
   pickup_location: string
-  pickup_coordinates: string | null
+  pickup_lat: number | null
+  pickup_lng: number | null
   status: string
   created_at: string
+  safe_until: string
   notes: string | null
   donor_id: string
+  delivered_at: string | null
+  delivery_recipient_name: string | null
+  allergens: string[]
+  dietary_tags: string[]
+  donation_items: DonationItem[]
+  donation_photos: DonationPhoto[]
+  donation_pickup_windows: PickupWindow[]
+  // Only pending donations carry these, and RLS limits them to this shelter's own match
+  donation_matches?: Pick<DonationMatch, 'rank' | 'reasons'>[]
+  pickup_slot_starts_at: string | null
+  pickup_slot_ends_at: string | null
 }
 
 export default function IncomingRequests() {
@@ -21,9 +62,25 @@ export default function IncomingRequests() {
   const [donations, setDonations] = useState<Donation[]>([])
   const [loading, setLoading] = useState(true)
   const [accepting, setAccepting] = useState<string | null>(null)
+  const [acceptedDonations, setAcceptedDonations] = useState<Donation[]>([])
+  const [declineTarget, setDeclineTarget] = useState<Donation | null>(null)
+  const [declining, setDeclining] = useState(false)
+  const [confirming, setConfirming] = useState<string | null>(null)
+  const [discrepancyTarget, setDiscrepancyTarget] = useState<Donation | null>(null)
+  const [reporting, setReporting] = useState(false)
+  const [showIncompatible, setShowIncompatible] = useState(false)
+  const [radiusKm, setRadiusKm] = useState<number | null>(null)
+  const [view, setView] = useState<DonationView>('cards')
+  const [allocationBlocks, setAllocationBlocks] = useState<Record<string, AllocationBlock>>({})
+
+  const viewerPosition = toLatLng(profile?.location_lat, profile?.location_lng)
+  const serviceRadiusKm = hasServiceArea(profile) ? profile!.service_radius_km : null
+  // Narrowing only makes sense inside the service area
+  const radiusOptions = RADIUS_OPTIONS_KM.filter(km => serviceRadiusKm === null || km < serviceRadiusKm)
 
   useEffect(() => {
     fetchPendingDonations()
+    fetchAcceptedDonations()
 
     // Subscribe to real-time updates
     const subscription = supabase
@@ -38,6 +95,19 @@ export default function IncomingRequests() {
         },
         () => {
           fetchPendingDonations()
+          fetchAcceptedDonations()
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'donations',
+          filter: `shelter_id=eq.${user?.id}`,
+        },
+        () => {
+          fetchAcceptedDonations()
         }
       )
       .subscribe()
@@ -45,18 +115,26 @@ export default function IncomingRequests() {
     return () => {
       subscription.unsubscribe()
     }
-  }, [])
+  }, [radiusKm])
 
   const fetchPendingDonations = async () => {
     try {
-      const { data, error } = await supabase
-        .from('donations')
-        .select('*')
-        .eq('status', 'pending')
-        .order('created_at', { ascending: false })
+      const select = '*, donation_items(*), donation_photos(*), donation_pickup_windows(*), donation_matches(rank, reasons)'
+      const { data, error } = radiusKm && viewerPosition
+        ? await donationsWithin(viewerPosition, radiusKm)
+          .eq('status', 'pending')
+          .select(select)
+          .order('safe_until', { ascending: true })
+        : await serviceAreaDonations()
+          .eq('status', 'pending')
+          .select(select)
+          .order('safe_until', { ascending: true })
 
       if (error) throw error
-      setDonations(data || [])
+      // Hide anything that has gone past its safe-until time but not yet been expired by the server job
+      const pending = (data || []).filter((d: Donation) => getMinutesRemaining(d.safe_until) > 0)
+      setDonations(pending)
+      setAllocationBlocks(await fetchAllocationBlocks(pending.map((d: Donation) => d.id)))
     } catch (error) {
       console.error('Error fetching donations:', error)
     } finally {
@@ -64,19 +142,125 @@ export default function IncomingRequests() {
     }
   }
 
+  const fetchAcceptedDonations = async () => {
+    if (!user) return
+
+    try {
+      const { data, error } = await supabase
+        .from('donations')
+        .select('*, donation_items(*), donation_photos(*), donation_pickup_windows(*)')
+        .in('status', ['accepted', 'claimed', 'in_transit', 'delivered'])
+        .eq('shelter_id', user.id)
+        .order('safe_until', { ascending: true })
+
+      if (error) throw error
+      setAcceptedDonations(data || [])
+    } catch (error) {
+      console.error('Error fetching accepted donations:', error)
+    }
+  }
+
+  const declineDonation = async (reason: string) => {
+    if (!declineTarget) return
+
+    setDeclining(true)
+
+    try {
+      // Put the donation back on offer for other shelters
+      const { error } = await transitions.declineDonation(declineTarget.id, reason)
+
+      if (transitions.isTransitionConflict(error)) {
+        alert(`${error.message}.`)
+      } else if (error) {
+        throw error
+      }
+
+      setDeclineTarget(null)
+      fetchPendingDonations()
+      fetchAcceptedDonations()
+    } catch (error) {
+      console.error('Error declining donation:', error)
+      alert('Failed to decline donation. Please try again.')
+    } finally {
+      setDeclining(false)
+    }
+  }
+
+  const confirmReceipt = async (donationId: string) => {
+    setConfirming(donationId)
+
+    try {
+      const { error } = await transitions.confirmDonationReceipt(donationId)
+
+      if (transitions.isTransitionConflict(error)) {
+        alert(`${error.message}.`)
+      } else if (error) {
+        throw error
+      } else {
+        alert('Receipt confirmed! The donor and volunteer have been notified.')
+      }
+
+      fetchAcceptedDonations()
+    } catch (error) {
+      console.error('Error confirming receipt:', error)
+      alert('Failed to confirm receipt. Please try again.')
+    } finally {
+      setConfirming(null)
+    }
+  }
+
+  const reportDiscrepancy = async (type: transitions.DiscrepancyType, reason: string) => {
+    if (!discrepancyTarget) return
+
+    setReporting(true)
+
+    try {
+      const { error } = await transitions.reportDeliveryDiscrepancy(discrepancyTarget.id, type, reason)
+
+      if (transitions.isTransitionConflict(error)) {
+        alert(`${error.message}.`)
+      } else if (error) {
+        throw error
+      }
+
+      setDiscrepancyTarget(null)
+      fetchAcceptedDonations()
+    } catch (error) {
+      console.error('Error reporting delivery problem:', error)
+      alert('Failed to report the problem. Please try again.')
+    } finally {
+      setReporting(false)
+    }
+  }
+
   const acceptDonation = async (donationId: string, donation: Donation) => {
     if (!user || !profile) return
 
     setAccepting(donationId)
 
     try {
-      const { error } = await supabase
-        .from('donations')
-        .update({
-          status: 'accepted',
-          shelter_id: user.id,
-        })
-        .eq('id', donationId)
+      const { error } = await transitions.acceptDonation(donationId)
+
+      if (transitions.isTransitionConflict(error)) {
+        // Another shelter got there first, or the donation was withdrawn
+        alert(`Sorry, this donation is no longer available. ${error.message}.`)
+        fetchPendingDonations()
+        return
+      }
+
+      if (isOfferRefusal(error)) {
+        // Still offered to shelters closer to the pickup
+        alert("This donation hasn't been offered to you yet. It reaches more shelters if no one nearby takes it.")
+        fetchPendingDonations()
+        return
+      }
+
+      if (isAllocationRefusal(error)) {
+        // Fairness rules give other shelters a turn first
+        alert(describeAllocationBlock(toAllocationBlock(error)))
+        fetchPendingDonations()
+        return
+      }
 
       if (error) throw error
 
@@ -85,10 +269,11 @@ export default function IncomingRequests() {
       console.log('Notification sent:', message)
       
       // Show success message
-      alert(`Donation accepted! The donor ${donation.donor_name} has been notified that you've accepted their donation of ${donation.quantity} ${donation.food_type}.`)
+      alert(`Donation accepted! The donor ${donation.donor_name} has been notified that you've accepted their donation of ${formatQuantity(donation.quantity_amount, donation.quantity_unit)} ${donation.food_type}.`)
 
-      // Refresh the list
+      // Refresh the lists
       fetchPendingDonations()
+      fetchAcceptedDonations()
     } catch (error) {
       console.error('Error accepting donation:', error)
       alert('Failed to accept donation. Please try again.')
@@ -106,14 +291,25 @@ export default function IncomingRequests() {
     })
   }
 
-  const getMapUrl = (coordinates: string | null, address: string) => {
-    if (coordinates) {
-      const [lat, lng] = coordinates.replace(/[()]/g, '').split(',').map(Number)
-      return `https://www.google.com/maps?q=${lat},${lng}`
+  const getMapUrl = (position: LatLng | null, address: string) => {
+    if (position) {
+      return `https://www.google.com/maps?q=${position.lat},${position.lng}`
     }
     return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(address)}`
   }
 
+  // Blocks lapse on their own once the priority window or cap window has passed
+  const getAllocationBlock = (donation: Donation) => {
+    const block = allocationBlocks[donation.id]
+    return block && (!block.eligible_at || new Date(block.eligible_at) > new Date()) ? block : null
+  }
+
+  const getDistanceLabel = (donation: Donation) => {
+    if (!viewerPosition) return null
+    const position = toLatLng(donation.pickup_lat, donation.pickup_lng)
+    return position ? formatDistance(distanceKm(viewerPosition, position)) : 'Location unknown'
+  }
+
   if (loading) {
     return (
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -124,97 +320,308 @@ export default function IncomingRequests() {
     )
   }
 
+  // Donations that clash with this shelter's dietary preferences are hidden unless asked for
+  const incompatibleCount = donations.filter(d => getDietaryConflicts(d, profile).length > 0).length
+  const visibleDonations = showIncompatible
+    ? donations
+    : donations.filter(d => getDietaryConflicts(d, profile).length === 0)
+  const visibleMarkers = toMapMarkers(visibleDonations, d => `${d.food_type} from ${d.donor_name}`)
+
+  const renderPendingCard = (donation: Donation) => (
+    <div
+      key={donation.id}
+      className={`bg-white rounded-xl shadow-sm border p-6 hover:shadow-md transition-shadow ${
+        isRecommended(donation.donation_matches?.[0]) ? 'border-green-300 ring-1 ring-green-200' : 'border-gray-100'
+      }`}
+    >
+      <RecommendedBadge match={donation.donation_matches?.[0]} className="mb-4" />
+
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <User className="h-5 w-5 text-gray-400" />
+          <span className="font-medium text-gray-900">{donation.donor_name}</span>
+        </div>
+        <span className="text-xs text-gray-500 flex items-center">
+          <Clock className="h-3 w-3 mr-1" />
+          {formatDate(donation.created_at)}
+        </span>
+      </div>
+
+      <div className="space-y-3 mb-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Package className="h-4 w-4 text-green-600" />
+            <span className="text-sm text-gray-600">
+              <span className="font-medium">{formatQuantity(donation.quantity_amount, donation.quantity_unit)}</span>
+            </span>
+          </div>
+          <ExpiryBadge safeUntil={donation.safe_until} />
+        </div>
+
+        <div className="bg-green-50 rounded-lg p-3">
+          <div className="text-sm font-medium text-green-800 mb-1">
+            {donation.food_type}
+          </div>
+          <div className="text-xs text-green-600">
+            Food category
+          </div>
+          <DonationItemList items={donation.donation_items} className="mt-2 pt-2 border-t border-green-100" />
+        </div>
+
+        <DietaryBadges allergens={donation.allergens} dietaryTags={donation.dietary_tags} />
+
+        <PickupWindows windows={donation.donation_pickup_windows} />
+
+        {getDietaryConflicts(donation, profile).length > 0 && (
+          <div className="flex items-start space-x-2 bg-red-50 border border-red-200 rounded-lg p-2">
+            <ShieldAlert className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+            <span className="text-xs text-red-700">
+              Doesn't match your preferences: {getDietaryConflicts(donation, profile).join(', ')}
+            </span>
+          </div>
+        )}
+
+        <DonationPhotos photos={donation.donation_photos} />
+
+        <div className="flex items-start space-x-2">
+          <MapPin className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+          <div className="flex-1">
+            <span className="text-sm text-gray-600 leading-relaxed">
+              {donation.pickup_location}
+            </span>
+            {getDistanceLabel(donation) && (
+              <span className="block text-xs font-medium text-gray-700">{getDistanceLabel(donation)}</span>
+            )}
+            <a
+              href={getMapUrl(toLatLng(donation.pickup_lat, donation.pickup_lng), donation.pickup_location)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block text-xs text-blue-600 hover:text-blue-700 mt-1"
+            >
+              View on map →
+            </a>
+          </div>
+        </div>
+
+        {donation.notes && (
+          <div className="flex items-start space-x-2">
+            <MessageSquare className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+            <div className="text-sm text-gray-600 bg-gray-50 rounded p-2">
+              {donation.notes}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <AllocationNotice block={getAllocationBlock(donation)} className="mb-3" />
+
+      <button
+        onClick={() => acceptDonation(donation.id, donation)}
+        disabled={accepting === donation.id || !!getAllocationBlock(donation)}
+        className="w-full flex justify-center items-center space-x-2 py-2 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        {accepting === donation.id ? (
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+        ) : (
+          <>
+            <CheckCircle className="h-4 w-4" />
+            <span>Accept Donation</span>
+          </>
+        )}
+      </button>
+
+      <Link to={`/donations/${donation.id}`} className="block mt-4 text-center text-sm text-green-600 hover:text-green-700 font-medium">
+        View details
+      </Link>
+
+      <DonationTimeline donationId={donation.id} className="mt-4" />
+    </div>
+  )
+
   return (
     <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-2">Incoming Food Donations</h1>
         <p className="text-gray-600">
-          Review and accept food donations from local donors in your area. When you accept a donation,
-          the donor will be notified and volunteers will be able to arrange pickup.
+          Review and accept food donations from local donors in your area. Donations closest to their
+          safe-until time are listed first. When you accept a donation, the donor will be notified and
+          volunteers will be able to arrange pickup.
         </p>
       </div>
 
-      {donations.length === 0 ? (
-        <div className="text-center py-12">
-          <Package className="h-16 w-16 text-gray-300 mx-auto mb-4" />
-          <h3 className="text-lg font-medium text-gray-900 mb-2">No pending donations</h3>
-          <p className="text-gray-600">Check back later for new food donation requests from local donors.</p>
-        </div>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {donations.map((donation) => (
-            <div key={donation.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 hover:shadow-md transition-shadow">
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex items-center space-x-2">
-                  <User className="h-5 w-5 text-gray-400" />
+      {/* Accepted by this shelter and not yet confirmed as received */}
+      {acceptedDonations.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+            <CheckCircle className="h-5 w-5 mr-2 text-blue-600" />
+            Accepted by You ({acceptedDonations.length})
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {acceptedDonations.map((donation) => (
+              <div key={donation.id} className="bg-white rounded-xl shadow-sm border border-blue-100 p-4">
+                <div className="flex items-start justify-between mb-2">
                   <span className="font-medium text-gray-900">{donation.donor_name}</span>
+                  <ExpiryBadge safeUntil={donation.safe_until} />
                 </div>
-                <span className="text-xs text-gray-500 flex items-center">
-                  <Clock className="h-3 w-3 mr-1" />
-                  {formatDate(donation.created_at)}
-                </span>
-              </div>
-
-              <div className="space-y-3 mb-6">
-                <div className="flex items-center space-x-2">
-                  <Package className="h-4 w-4 text-green-600" />
-                  <span className="text-sm text-gray-600">
-                    <span className="font-medium">{donation.quantity}</span>
+                <p className="text-sm text-gray-600 mb-3">
+                  {formatQuantity(donation.quantity_amount, donation.quantity_unit)} of {donation.food_type}
+                </p>
+                <DonationItemList items={donation.donation_items} className="mb-3" />
+                {isAwaitingPickup(donation.status) && (
+                  <PickupWindows
+                    windows={donation.donation_pickup_windows}
+                    slotStartsAt={donation.pickup_slot_starts_at}
+                    slotEndsAt={donation.pickup_slot_ends_at}
+                    className="mb-3"
+                  />
+                )}
+                <DonationPhotos photos={donation.donation_photos} className="mb-3" />
+                {donation.status === 'accepted' ? (
+                  <button
+                    onClick={() => setDeclineTarget(donation)}
+                    className="flex items-center space-x-1 text-sm text-gray-500 hover:text-orange-600 transition-colors"
+                  >
+                    <Undo2 className="h-4 w-4" />
+                    <span>Decline</span>
+                  </button>
+                ) : donation.status === 'delivered' ? (
+                  <div>
+                    <p className="text-sm text-teal-700 mb-2">
+                      Delivered{donation.delivered_at ? ` ${formatDate(donation.delivered_at)}` : ''}
+                      {donation.delivery_recipient_name && (
+                        <>, received by <span className="font-medium">{donation.delivery_recipient_name}</span></>
+                      )}
+                    </p>
+                    <DonationPhotos photos={donation.donation_photos} kind="delivery" className="mb-3" />
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => confirmReceipt(donation.id)}
+                        disabled={confirming === donation.id}
+                        className="flex-1 flex justify-center items-center space-x-1 py-2 px-3 rounded-lg text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {confirming === donation.id ? (
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        ) : (
+                          <>
+                            <ClipboardCheck className="h-4 w-4" />
+                            <span>Confirm Receipt</span>
+                          </>
+                        )}
+                      </button>
+                      <button
+                        onClick={() => setDiscrepancyTarget(donation)}
+                        className="flex items-center space-x-1 py-2 px-3 text-sm text-gray-500 hover:text-red-600 transition-colors"
+                      >
+                        <AlertTriangle className="h-4 w-4" />
+                        <span>Report Problem</span>
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <span className="flex items-center text-sm text-blue-700">
+                    <Truck className="h-4 w-4 mr-1" />
+                    {donation.status === 'claimed' ? 'Volunteer assigned' : 'On the way'}
                   </span>
+                )}
+                <div className="mt-3 pt-3 border-t border-gray-100">
+                  <Link to={`/donations/${donation.id}`} className="text-sm text-green-600 hover:text-green-700 font-medium">
+                    View details
+                  </Link>
+                  <DonationTimeline donationId={donation.id} className="mt-2" />
                 </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
 
-                <div className="bg-green-50 rounded-lg p-3">
-                  <div className="text-sm font-medium text-green-800 mb-1">
-                    {donation.food_type}
-                  </div>
-                  <div className="text-xs text-green-600">
-                    Food category
-                  </div>
-                </div>
+      {declineTarget && (
+        <ReasonModal
+          title="Decline this donation?"
+          description={`The donation from ${declineTarget.donor_name} will go back on offer to other shelters and the donor will be notified.`}
+          confirmLabel="Decline Donation"
+          submitting={declining}
+          onConfirm={declineDonation}
+          onClose={() => setDeclineTarget(null)}
+        />
+      )}
 
-                <div className="flex items-start space-x-2">
-                  <MapPin className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
-                  <div className="flex-1">
-                    <span className="text-sm text-gray-600 leading-relaxed">
-                      {donation.pickup_location}
-                    </span>
-                    <a
-                      href={getMapUrl(donation.pickup_coordinates, donation.pickup_location)}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="block text-xs text-blue-600 hover:text-blue-700 mt-1"
-                    >
-                      View on map →
-                    </a>
-                  </div>
-                </div>
+      {discrepancyTarget && (
+        <DiscrepancyModal
+          donorName={discrepancyTarget.donor_name}
+          submitting={reporting}
+          onConfirm={reportDiscrepancy}
+          onClose={() => setDiscrepancyTarget(null)}
+        />
+      )}
 
-                {donation.notes && (
-                  <div className="flex items-start space-x-2">
-                    <MessageSquare className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
-                    <div className="text-sm text-gray-600 bg-gray-50 rounded p-2">
-                      {donation.notes}
-                    </div>
-                  </div>
-                )}
-              </div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4 text-sm text-gray-600">
+        <ViewToggle value={view} onChange={setView} />
+        {viewerPosition ? (
+          <label className="flex items-center space-x-2">
+            <MapPin className="h-4 w-4 text-gray-400" />
+            <span>Within</span>
+            <select
+              value={radiusKm ?? ''}
+              onChange={(e) => setRadiusKm(e.target.value ? Number(e.target.value) : null)}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+            >
+              <option value="">{serviceRadiusKm ? `Service area (${serviceRadiusKm} km)` : 'Any distance'}</option>
+              {radiusOptions.map(km => (
+                <option key={km} value={km}>{km} km</option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <Link to="/profile" className="flex items-center text-green-600 hover:text-green-700">
+            <MapPin className="h-4 w-4 mr-1" />
+            Set your location and service area on your profile
+          </Link>
+        )}
+      </div>
 
-              <button
-                onClick={() => acceptDonation(donation.id, donation)}
-                disabled={accepting === donation.id}
-                className="w-full flex justify-center items-center space-x-2 py-2 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-              >
-                {accepting === donation.id ? (
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                ) : (
-                  <>
-                    <CheckCircle className="h-4 w-4" />
-                    <span>Accept Donation</span>
-                  </>
-                )}
-              </button>
-            </div>
-          ))}
+      {incompatibleCount > 0 && (
+        <div className="flex items-center justify-between bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 mb-6">
+          <span className="flex items-center text-sm text-amber-800">
+            <ShieldAlert className="h-4 w-4 mr-2" />
+            {incompatibleCount} {incompatibleCount === 1 ? 'donation doesn\'t' : 'donations don\'t'} match your dietary preferences
+          </span>
+          <label className="flex items-center space-x-2 text-sm text-amber-800">
+            <input
+              type="checkbox"
+              checked={showIncompatible}
+              onChange={(e) => setShowIncompatible(e.target.checked)}
+              className="rounded text-amber-600 focus:ring-amber-500"
+            />
+            <span>Show them</span>
+          </label>
+        </div>
+      )}
+
+      {visibleDonations.length === 0 ? (
+        <div className="text-center py-12">
+          <Package className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No pending donations</h3>
+          <p className="text-gray-600">
+            {radiusKm
+              ? `Nothing within ${radiusKm} km right now. Try a wider distance.`
+              : serviceRadiusKm
+                ? `Nothing inside your ${serviceRadiusKm} km service area right now. You can widen it on your profile.`
+                : 'Check back later for new food donation requests from local donors.'}
+          </p>
+        </div>
+      ) : view === 'map' ? (
+        <DonationMap
+          markers={visibleMarkers}
+          unmappedCount={visibleDonations.length - visibleMarkers.length}
+          renderCard={(id) => {
+            const donation = visibleDonations.find(d => d.id === id)
+            return donation ? renderPendingCard(donation) : null
+          }}
+        />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {visibleDonations.map(donation => renderPendingCard(donation))}
         </div>
       )}
     </div>
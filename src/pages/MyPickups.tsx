@@ -1,45 +1,104 @@
 import React, { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
-import { supabase } from '../lib/supabase'
-import { MapPin, Package, Clock, User, Navigation, CheckCircle, Phone, MessageSquare } from 'lucide-react'
+import { supabase, QuantityUnit } from '../lib/supabase'
+import { formatQuantity } from '../lib/quantity'
+import type { DonationItem } from '../lib/donationItems'
+import { uploadDonationPhotos, type DonationPhoto } from '../lib/photos'
+import * as transitions from '../lib/donationTransitions'
+import { sortByUrgency } from '../lib/expiry'
+import { directionsUrl, toLatLng, type LatLng } from '../lib/coordinates'
+import { distanceKm, formatDistance } from '../lib/nearby'
+import { toMapMarkers } from '../lib/mapMarkers'
+import { planRoute, type PlannedRoute, type RouteStop } from '../lib/routePlanning'
+import type { HoldingTemperature, Packaging } from '../lib/foodSafety'
+import { formatWindow, isAwaitingPickup, type PickupWindow } from '../lib/pickupWindows'
+import ExpiryBadge from '../components/ExpiryBadge'
+import DonationTimeline from '../components/DonationTimeline'
+import DonationItemList from '../components/DonationItemList'
+import DonationPhotos from '../components/DonationPhotos'
+import DietaryBadges from '../components/DietaryBadges'
+import HandlingRequirements from '../components/HandlingRequirements'
+import ReasonModal from '../components/ReasonModal'
+import DeliveryModal from '../components/DeliveryModal'
+import SlotPickerModal from '../components/SlotPickerModal'
+import PickupWindows from '../components/PickupWindows'
+import RoutePlan from '../components/RoutePlan'
+import DonationMap from '../components/DonationMap'
+import ViewToggle, { type DonationView } from '../components/ViewToggle'
+import { MapPin, Package, Clock, User, Navigation, CheckCircle, Phone, MessageSquare, LogOut, Truck, Hand, PackageCheck, Route } from 'lucide-react'
 
 interface Donation {
   id: string
   donor_name: string
   food_type: string
-  quantity: string
+  quantity_amount: number
+  quantity_unit: QuantityUnit
   pickup_location: string
-  pickup_coordinates: string | null
+  pickup_lat: number | null
+  pickup_lng: number | null
   status: string
   created_at: string
   accepted_at: string | null
+  claimed_at: string | null
+  delivered_at: string | null
   completed_at: string | null
+  safe_until: string
   notes: string | null
   shelter_id: string
+  volunteer_id: string | null
+  donation_items: DonationItem[]
+  donation_photos: DonationPhoto[]
+  allergens: string[]
+  dietary_tags: string[]
+  prepared_at: string | null
+  holding_temperature: HoldingTemperature | null
+  packaging: Packaging | null
+  needs_refrigeration: boolean
+  needs_freezer: boolean
+  donation_pickup_windows: PickupWindow[]
+  pickup_slot_starts_at: string | null
+  pickup_slot_ends_at: string | null
+}
+
+interface RouteShelter {
+  id: string
+  name: string
+  location_label: string | null
+  location_lat: number | null
+  location_lng: number | null
 }
 
 export default function MyPickups() {
-  const { user } = useAuth()
+  const { user, profile } = useAuth()
   const [donations, setDonations] = useState<Donation[]>([])
   const [loading, setLoading] = useState(true)
-  const [completing, setCompleting] = useState<string | null>(null)
+  const [updating, setUpdating] = useState<string | null>(null)
+  const [releaseTarget, setReleaseTarget] = useState<Donation | null>(null)
+  const [releasing, setReleasing] = useState(false)
+  const [deliverTarget, setDeliverTarget] = useState<Donation | null>(null)
+  const [slotTarget, setSlotTarget] = useState<Donation | null>(null)
+  const [delivering, setDelivering] = useState(false)
+  const [routeSelection, setRouteSelection] = useState<string[]>([])
+  const [route, setRoute] = useState<{ plan: PlannedRoute; skipped: string[] } | null>(null)
+  const [planning, setPlanning] = useState(false)
+  const [view, setView] = useState<DonationView>('cards')
 
   useEffect(() => {
-    fetchAcceptedDonations()
+    fetchPickups()
 
-    // Subscribe to real-time updates
+    // Subscribe to real-time updates, RLS limits these to pickups this volunteer can see
     const subscription = supabase
-      .channel('accepted-donations')
+      .channel('volunteer-pickups')
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
           table: 'donations',
-          filter: 'status=in.(accepted,completed)',
         },
         () => {
-          fetchAcceptedDonations()
+          fetchPickups()
         }
       )
       .subscribe()
@@ -49,12 +108,14 @@ export default function MyPickups() {
     }
   }, [])
 
-  const fetchAcceptedDonations = async () => {
+  const fetchPickups = async () => {
+    if (!user) return
+
     try {
       const { data, error } = await supabase
         .from('donations')
-        .select('*')
-        .in('status', ['accepted', 'completed'])
+        .select('*, donation_items(*), donation_photos(*), donation_pickup_windows(*)')
+        .or(`status.eq.accepted,volunteer_id.eq.${user.id}`)
         .order('created_at', { ascending: false })
 
       if (error) throw error
@@ -66,40 +127,193 @@ export default function MyPickups() {
     }
   }
 
-  const getDirections = (coordinates: string | null, address: string) => {
-    if (coordinates) {
-      const [lat, lng] = coordinates.replace(/[()]/g, '').split(',').map(Number)
-      const googleMapsUrl = `https://www.google.com/maps/dir/?api=1&destination=${lat},${lng}`
-      window.open(googleMapsUrl, '_blank')
-    } else {
-      const encodedLocation = encodeURIComponent(address)
-      const googleMapsUrl = `https://www.google.com/maps/dir/?api=1&destination=${encodedLocation}`
-      window.open(googleMapsUrl, '_blank')
+  const getDirections = (position: LatLng | null, address: string) => {
+    window.open(directionsUrl(position, address), '_blank')
+  }
+
+  const toggleRouteStop = (donationId: string) => {
+    setRouteSelection(selection =>
+      selection.includes(donationId) ? selection.filter(id => id !== donationId) : [...selection, donationId]
+    )
+  }
+
+  // One stop per pickup still to collect and one per shelter, which has to come after its pickups
+  const buildRouteStops = (selected: Donation[], shelters: RouteShelter[]) => {
+    const stops: RouteStop[] = []
+    const skipped: string[] = []
+
+    for (const donation of selected) {
+      const shelter = shelters.find(s => s.id === donation.shelter_id)
+      const shelterPosition = toLatLng(shelter?.location_lat, shelter?.location_lng)
+      const pickupPosition = toLatLng(donation.pickup_lat, donation.pickup_lng)
+      const needsPickup = donation.status === 'claimed'
+
+      if (!shelter || !shelterPosition || (needsPickup && !pickupPosition)) {
+        skipped.push(`${donation.food_type} from ${donation.donor_name}`)
+        continue
+      }
+
+      let dropoff = stops.find(stop => stop.id === `dropoff-${shelter.id}`)
+      if (!dropoff) {
+        dropoff = {
+          id: `dropoff-${shelter.id}`,
+          kind: 'dropoff',
+          name: shelter.name,
+          address: shelter.location_label || '',
+          position: shelterPosition,
+          donationIds: [],
+          after: [],
+        }
+        stops.push(dropoff)
+      }
+      dropoff.donationIds.push(donation.id)
+
+      if (needsPickup && pickupPosition) {
+        stops.push({
+          id: `pickup-${donation.id}`,
+          kind: 'pickup',
+          name: donation.donor_name,
+          address: donation.pickup_location,
+          position: pickupPosition,
+          donationIds: [donation.id],
+          after: [],
+        })
+        dropoff.after.push(`pickup-${donation.id}`)
+      }
     }
+
+    return { stops, skipped }
   }
 
-  const completeDonation = async (donationId: string) => {
-    setCompleting(donationId)
+  const planSelectedRoute = async (selected: Donation[]) => {
+    setPlanning(true)
 
     try {
-      const { error } = await supabase
-        .from('donations')
-        .update({ 
-          status: 'completed',
-          volunteer_id: user?.id 
-        })
-        .eq('id', donationId)
+      const { data, error } = await supabase.rpc('route_dropoffs', { p_donation_ids: selected.map(d => d.id) })
+
+      if (error) throw error
+
+      const { stops, skipped } = buildRouteStops(selected, data || [])
+      if (stops.length === 0) {
+        alert("None of the selected pickups can be routed because their locations aren't on the map.")
+        return
+      }
+
+      setRoute({ plan: planRoute(stops, toLatLng(profile?.location_lat, profile?.location_lng)), skipped })
+    } catch (error) {
+      console.error('Error planning route:', error)
+      alert('Failed to plan the route. Please try again.')
+    } finally {
+      setPlanning(false)
+    }
+  }
+
+  const claimDonation = async (donationId: string, slotStartsAt: string | null = null) => {
+    setUpdating(donationId)
+
+    try {
+      const { data, error } = await transitions.claimDonation(donationId, slotStartsAt)
+
+      if (transitions.isTransitionConflict(error)) {
+        // Another volunteer got there first
+        alert(`${error.message}.`)
+      } else if (error) {
+        throw error
+      } else if (data.pickup_slot_starts_at) {
+        alert(`Pickup claimed! You're booked for ${formatWindow({ starts_at: data.pickup_slot_starts_at, ends_at: data.pickup_slot_ends_at })}.`)
+      } else {
+        alert('Pickup claimed! Contact the donor to arrange a pickup time.')
+      }
+
+      setSlotTarget(null)
+      fetchPickups()
+    } catch (error) {
+      console.error('Error claiming donation:', error)
+      alert('Failed to claim pickup. Please try again.')
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const markPickedUp = async (donationId: string) => {
+    setUpdating(donationId)
+
+    try {
+      const { error } = await transitions.pickUpDonation(donationId)
+
+      if (transitions.isTransitionConflict(error)) {
+        alert(`${error.message}.`)
+      } else if (error) {
+        throw error
+      }
+
+      fetchPickups()
+    } catch (error) {
+      console.error('Error updating donation:', error)
+      alert('Failed to update pickup. Please try again.')
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const deliverDonation = async (recipientName: string | null, photo: File | null) => {
+    if (!deliverTarget) return
+
+    setDelivering(true)
+
+    try {
+      // Photos can only be added while the pickup is still ours, so upload before handing over
+      if (photo) {
+        const failedPhotos = await uploadDonationPhotos(deliverTarget.id, [photo], 'delivery')
+        if (failedPhotos > 0) {
+          alert('The delivery photo could not be uploaded. The delivery will be recorded without it.')
+        }
+      }
+
+      const { error } = await transitions.deliverDonation(deliverTarget.id, recipientName)
+
+      if (transitions.isTransitionConflict(error)) {
+        alert(`${error.message}.`)
+        setDeliverTarget(null)
+        fetchPickups()
+        return
+      }
 
       if (error) throw error
 
-      // Refresh the list
-      fetchAcceptedDonations()
-      alert('Donation marked as completed! Thank you for helping reduce food waste.')
+      setDeliverTarget(null)
+      fetchPickups()
+      alert('Delivery recorded! The shelter will confirm they received it. Thank you for helping reduce food waste.')
+    } catch (error) {
+      console.error('Error delivering donation:', error)
+      alert('Failed to record delivery. Please try again.')
+    } finally {
+      setDelivering(false)
+    }
+  }
+
+  const releaseDonation = async (reason: string) => {
+    if (!releaseTarget) return
+
+    setReleasing(true)
+
+    try {
+      // Hand the pickup back so another volunteer can take it
+      const { error } = await transitions.releaseDonation(releaseTarget.id, reason)
+
+      if (transitions.isTransitionConflict(error)) {
+        alert(`${error.message}.`)
+      } else if (error) {
+        throw error
+      }
+
+      setReleaseTarget(null)
+      fetchPickups()
     } catch (error) {
-      console.error('Error completing donation:', error)
-      alert('Failed to complete donation. Please try again.')
+      console.error('Error releasing donation:', error)
+      alert('Failed to release pickup. Please try again.')
     } finally {
-      setCompleting(null)
+      setReleasing(false)
     }
   }
 
@@ -116,13 +330,27 @@ export default function MyPickups() {
     switch (status) {
       case 'accepted':
         return 'bg-yellow-100 text-yellow-800'
+      case 'claimed':
+        return 'bg-blue-100 text-blue-800'
+      case 'in_transit':
+        return 'bg-purple-100 text-purple-800'
+      case 'delivered':
+        return 'bg-teal-100 text-teal-800'
       case 'completed':
         return 'bg-green-100 text-green-800'
+      case 'disputed':
+        return 'bg-red-100 text-red-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
   }
 
+  const getDistanceLabel = (donation: Donation) => {
+    const viewerPosition = toLatLng(profile?.location_lat, profile?.location_lng)
+    const position = toLatLng(donation.pickup_lat, donation.pickup_lng)
+    return viewerPosition && position ? formatDistance(distanceKm(viewerPosition, position)) : null
+  }
+
   const getTimeSinceAccepted = (acceptedAt: string | null) => {
     if (!acceptedAt) return ''
     
@@ -145,129 +373,329 @@ export default function MyPickups() {
     )
   }
 
-  const acceptedDonations = donations.filter(d => d.status === 'accepted')
-  const completedDonations = donations.filter(d => d.status === 'completed')
+  const availableDonations = sortByUrgency(
+    donations.filter(d => d.status === 'accepted' && !d.volunteer_id)
+  )
+  const myDonations = sortByUrgency(
+    donations.filter(d => d.volunteer_id === user?.id && (d.status === 'claimed' || d.status === 'in_transit'))
+  )
+  const routeDonations = myDonations.filter(d => routeSelection.includes(d.id))
+  const mapDonations = [...myDonations, ...availableDonations]
+  const mapMarkers = toMapMarkers(mapDonations, d =>
+    `${d.food_type} from ${d.donor_name}${d.volunteer_id === user?.id ? ' (your pickup)' : ''}`
+  )
+  const completedDonations = donations.filter(
+    d => d.volunteer_id === user?.id && ['delivered', 'completed', 'disputed'].includes(d.status)
+  )
 
-  return (
-    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Available Pickups</h1>
-        <p className="text-gray-600">
-          Help transport donated food from donors to shelters. These donations have been accepted by shelters
-          and are ready for pickup. Contact the donor to coordinate pickup times.
-        </p>
+  const renderPickupDetails = (donation: Donation, statusLabel: string) => (
+    <>
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <User className="h-5 w-5 text-gray-400" />
+          <span className="font-medium text-gray-900">{donation.donor_name}</span>
+        </div>
+        <div className="text-right">
+          <span className={`text-xs px-2 py-1 rounded-full font-medium ${getStatusColor(donation.status)}`}>
+            {donation.status.replace('_', ' ')}
+          </span>
+          {donation.accepted_at && (
+            <div className="text-xs text-gray-500 mt-1">
+              {getTimeSinceAccepted(donation.accepted_at)}
+            </div>
+          )}
+        </div>
       </div>
 
-      {/* Active Pickups */}
-      <div className="mb-8">
-        <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
-          <Package className="h-5 w-5 mr-2 text-yellow-600" />
-          Ready for Pickup ({acceptedDonations.length})
-        </h2>
-        {acceptedDonations.length === 0 ? (
-          <div className="text-center py-8 bg-white rounded-xl border border-gray-100">
-            <Package className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No pickups available</h3>
-            <p className="text-gray-600">Check back later for new pickup opportunities.</p>
+      <HandlingRequirements donation={donation} className="mb-4" />
+
+      <div className="space-y-3 mb-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Package className="h-4 w-4 text-green-600" />
+            <span className="text-sm text-gray-600">
+              <span className="font-medium">{formatQuantity(donation.quantity_amount, donation.quantity_unit)}</span>
+            </span>
+          </div>
+          <ExpiryBadge safeUntil={donation.safe_until} />
+        </div>
+
+        <div className="bg-green-50 rounded-lg p-3">
+          <div className="text-sm font-medium text-green-800 mb-1">
+            {donation.food_type}
+          </div>
+          <div className="text-xs text-green-600">
+            {statusLabel}
           </div>
+          <DonationItemList items={donation.donation_items} className="mt-2 pt-2 border-t border-green-100" />
+        </div>
+
+        <DietaryBadges allergens={donation.allergens} dietaryTags={donation.dietary_tags} />
+
+        {isAwaitingPickup(donation.status) && (
+          <PickupWindows
+            windows={donation.donation_pickup_windows}
+            slotStartsAt={donation.pickup_slot_starts_at}
+            slotEndsAt={donation.pickup_slot_ends_at}
+          />
+        )}
+
+        <DonationPhotos photos={donation.donation_photos} />
+
+        <div className="flex items-start space-x-2">
+          <MapPin className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+          <div className="flex-1">
+            <span className="text-sm text-gray-600 leading-relaxed">
+              {donation.pickup_location}
+            </span>
+            {getDistanceLabel(donation) && (
+              <span className="block text-xs font-medium text-gray-700">{getDistanceLabel(donation)}</span>
+            )}
+          </div>
+        </div>
+
+        {donation.notes && (
+          <div className="flex items-start space-x-2">
+            <MessageSquare className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+            <div className="text-sm text-gray-600 bg-gray-50 rounded p-2">
+              {donation.notes}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Clock className="h-4 w-4 text-gray-400" />
+          <span className="text-sm text-gray-500">
+            Donated {formatDate(donation.created_at)}
+          </span>
+        </div>
+
+        <Link to={`/donations/${donation.id}`} className="block text-sm text-green-600 hover:text-green-700 font-medium">
+          View details
+        </Link>
+
+        <DonationTimeline donationId={donation.id} />
+      </div>
+    </>
+  )
+
+  const renderMyPickupCard = (donation: Donation) => (
+    <div key={donation.id} className="bg-white rounded-xl shadow-sm border border-blue-100 p-6 hover:shadow-md transition-shadow">
+      <label className="flex items-center text-sm text-gray-600 mb-4">
+        <input
+          type="checkbox"
+          checked={routeSelection.includes(donation.id)}
+          onChange={() => toggleRouteStop(donation.id)}
+          className="mr-2"
+        />
+        Include in route
+      </label>
+      {renderPickupDetails(donation, donation.status === 'in_transit' ? 'On the way to the shelter' : 'Claimed by you')}
+
+      <div className="space-y-2">
+        <button
+          onClick={() => getDirections(toLatLng(donation.pickup_lat, donation.pickup_lng), donation.pickup_location)}
+          className="w-full flex justify-center items-center space-x-2 py-2 px-4 border border-blue-300 rounded-lg text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+        >
+          <Navigation className="h-4 w-4" />
+          <span>Get Directions</span>
+        </button>
+
+        {donation.status === 'claimed' ? (
+          <button
+            onClick={() => markPickedUp(donation.id)}
+            disabled={updating === donation.id}
+            className="w-full flex justify-center items-center space-x-2 py-2 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {updating === donation.id ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+            ) : (
+              <>
+                <PackageCheck className="h-4 w-4" />
+                <span>Mark Picked Up</span>
+              </>
+            )}
+          </button>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {acceptedDonations.map((donation) => (
-              <div key={donation.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 hover:shadow-md transition-shadow">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center space-x-2">
-                    <User className="h-5 w-5 text-gray-400" />
-                    <span className="font-medium text-gray-900">{donation.donor_name}</span>
-                  </div>
-                  <div className="text-right">
-                    <span className={`text-xs px-2 py-1 rounded-full font-medium ${getStatusColor(donation.status)}`}>
-                      {donation.status}
-                    </span>
-                    {donation.accepted_at && (
-                      <div className="text-xs text-gray-500 mt-1">
-                        {getTimeSinceAccepted(donation.accepted_at)}
-                      </div>
-                    )}
-                  </div>
-                </div>
+          <button
+            onClick={() => setDeliverTarget(donation)}
+            className="w-full flex justify-center items-center space-x-2 py-2 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-all"
+          >
+            <CheckCircle className="h-4 w-4" />
+            <span>Mark Delivered</span>
+          </button>
+        )}
 
-                <div className="space-y-3 mb-6">
-                  <div className="flex items-center space-x-2">
-                    <Package className="h-4 w-4 text-green-600" />
-                    <span className="text-sm text-gray-600">
-                      <span className="font-medium">{donation.quantity}</span>
-                    </span>
-                  </div>
+        {donation.status === 'claimed' && (
+          <button
+            onClick={() => setReleaseTarget(donation)}
+            className="w-full flex justify-center items-center space-x-2 py-2 px-4 text-sm font-medium text-gray-500 hover:text-orange-600 transition-colors"
+          >
+            <LogOut className="h-4 w-4" />
+            <span>Release Pickup</span>
+          </button>
+        )}
+      </div>
+    </div>
+  )
 
-                  <div className="bg-green-50 rounded-lg p-3">
-                    <div className="text-sm font-medium text-green-800 mb-1">
-                      {donation.food_type}
-                    </div>
-                    <div className="text-xs text-green-600">
-                      Ready for pickup
-                    </div>
-                  </div>
+  const renderAvailableCard = (donation: Donation) => (
+    <div key={donation.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 hover:shadow-md transition-shadow">
+      {renderPickupDetails(donation, 'Ready for pickup')}
 
-                  <div className="flex items-start space-x-2">
-                    <MapPin className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
-                    <span className="text-sm text-gray-600 leading-relaxed">
-                      {donation.pickup_location}
-                    </span>
-                  </div>
+      <button
+        onClick={() =>
+          donation.donation_pickup_windows.length > 0
+            ? setSlotTarget(donation)
+            : claimDonation(donation.id)
+        }
+        disabled={updating === donation.id}
+        className="w-full flex justify-center items-center space-x-2 py-2 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        {updating === donation.id ? (
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+        ) : (
+          <>
+            <Hand className="h-4 w-4" />
+            <span>Claim Pickup</span>
+          </>
+        )}
+      </button>
+    </div>
+  )
 
-                  {donation.notes && (
-                    <div className="flex items-start space-x-2">
-                      <MessageSquare className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
-                      <div className="text-sm text-gray-600 bg-gray-50 rounded p-2">
-                        {donation.notes}
-                      </div>
-                    </div>
-                  )}
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Pickups</h1>
+        <p className="text-gray-600">
+          Help transport donated food from donors to shelters. Claim a pickup to let other volunteers know
+          you are taking it. Where the donor has set pickup windows you book a slot when claiming, otherwise
+          contact the donor to coordinate the pickup time. Most urgent first.
+        </p>
+      </div>
 
-                  <div className="flex items-center space-x-2">
-                    <Clock className="h-4 w-4 text-gray-400" />
-                    <span className="text-sm text-gray-500">
-                      Donated {formatDate(donation.created_at)}
-                    </span>
-                  </div>
-                </div>
+      <div className="mb-6">
+        <ViewToggle value={view} onChange={setView} />
+      </div>
 
-                <div className="space-y-2">
+      {view === 'map' ? (
+        <div className="mb-8">
+          <DonationMap
+            markers={mapMarkers}
+            unmappedCount={mapDonations.length - mapMarkers.length}
+            renderCard={(id) => {
+              const donation = mapDonations.find(d => d.id === id)
+              if (!donation) return null
+              return donation.volunteer_id === user?.id ? renderMyPickupCard(donation) : renderAvailableCard(donation)
+            }}
+          />
+        </div>
+      ) : (
+        <>
+          {/* Claimed by this volunteer */}
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+              <Truck className="h-5 w-5 mr-2 text-blue-600" />
+              My Pickups ({myDonations.length})
+            </h2>
+            {myDonations.length > 0 && (
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <p className="text-sm text-gray-600">Doing several pickups in one run? Select them to get the best order.</p>
+                <div className="flex items-center space-x-3">
                   <button
-                    onClick={() => getDirections(donation.pickup_coordinates, donation.pickup_location)}
-                    className="w-full flex justify-center items-center space-x-2 py-2 px-4 border border-blue-300 rounded-lg text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                    onClick={() => setRouteSelection(routeDonations.length === myDonations.length ? [] : myDonations.map(d => d.id))}
+                    className="text-sm font-medium text-gray-600 hover:text-gray-900"
                   >
-                    <Navigation className="h-4 w-4" />
-                    <span>Get Directions</span>
+                    {routeDonations.length === myDonations.length ? 'Clear selection' : 'Select all'}
                   </button>
-
                   <button
-                    onClick={() => completeDonation(donation.id)}
-                    disabled={completing === donation.id}
-                    className="w-full flex justify-center items-center space-x-2 py-2 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    onClick={() => planSelectedRoute(routeDonations)}
+                    disabled={routeDonations.length === 0 || planning}
+                    className="flex items-center space-x-2 py-2 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   >
-                    {completing === donation.id ? (
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                    ) : (
-                      <>
-                        <CheckCircle className="h-4 w-4" />
-                        <span>Mark Complete</span>
-                      </>
-                    )}
+                    <Route className="h-4 w-4" />
+                    <span>Plan Route ({routeDonations.length})</span>
                   </button>
                 </div>
               </div>
-            ))}
+            )}
+            {route && (
+              <RoutePlan
+                route={route.plan}
+                origin={toLatLng(profile?.location_lat, profile?.location_lng)}
+                skipped={route.skipped}
+                onClose={() => setRoute(null)}
+              />
+            )}
+            {myDonations.length === 0 ? (
+              <div className="text-center py-8 bg-white rounded-xl border border-gray-100">
+                <Truck className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No claimed pickups</h3>
+                <p className="text-gray-600">Claim one of the available pickups below to get started.</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {myDonations.map(donation => renderMyPickupCard(donation))}
+              </div>
+            )}
           </div>
-        )}
-      </div>
+
+          {/* Available Pickups */}
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+              <Package className="h-5 w-5 mr-2 text-yellow-600" />
+              Available for Pickup ({availableDonations.length})
+            </h2>
+            {availableDonations.length === 0 ? (
+              <div className="text-center py-8 bg-white rounded-xl border border-gray-100">
+                <Package className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No pickups available</h3>
+                <p className="text-gray-600">Check back later for new pickup opportunities.</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {availableDonations.map(donation => renderAvailableCard(donation))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {releaseTarget && (
+        <ReasonModal
+          title="Release this pickup?"
+          description={`The pickup from ${releaseTarget.donor_name} will become available to other volunteers and the shelter will be notified.`}
+          confirmLabel="Release Pickup"
+          submitting={releasing}
+          onConfirm={releaseDonation}
+          onClose={() => setReleaseTarget(null)}
+        />
+      )}
+
+      {slotTarget && (
+        <SlotPickerModal
+          windows={slotTarget.donation_pickup_windows}
+          submitting={updating === slotTarget.id}
+          onConfirm={(slotStartsAt) => claimDonation(slotTarget.id, slotStartsAt)}
+          onClose={() => setSlotTarget(null)}
+        />
+      )}
+
+      {deliverTarget && (
+        <DeliveryModal
+          submitting={delivering}
+          onConfirm={deliverDonation}
+          onClose={() => setDeliverTarget(null)}
+        />
+      )}
 
       {/* Completed Pickups */}
       {completedDonations.length > 0 && (
         <div>
           <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
             <CheckCircle className="h-5 w-5 mr-2 text-green-600" />
-            Recently Completed ({completedDonations.slice(0, 6).length})
+            Recently Delivered ({completedDonations.slice(0, 6).length})
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {completedDonations.slice(0, 6).map((donation) => (
@@ -278,7 +706,7 @@ export default function MyPickups() {
                     <span className="font-medium text-gray-700">{donation.donor_name}</span>
                   </div>
                   <span className={`text-xs px-2 py-1 rounded-full font-medium ${getStatusColor(donation.status)}`}>
-                    completed
+                    {donation.status === 'delivered' ? 'awaiting confirmation' : donation.status}
                   </span>
                 </div>
 
@@ -286,16 +714,23 @@ export default function MyPickups() {
                   <div className="flex items-center space-x-2">
                     <Package className="h-4 w-4 text-gray-500" />
                     <span className="text-sm text-gray-600">
-                      {donation.quantity} of {donation.food_type}
+                      {formatQuantity(donation.quantity_amount, donation.quantity_unit)} of {donation.food_type}
                     </span>
                   </div>
+                  <DonationItemList items={donation.donation_items} />
 
                   <div className="flex items-center space-x-2">
                     <Clock className="h-4 w-4 text-gray-400" />
                     <span className="text-sm text-gray-500">
-                      Completed {donation.completed_at ? formatDate(donation.completed_at) : 'Recently'}
+                      Delivered {donation.delivered_at ? formatDate(donation.delivered_at) : 'Recently'}
                     </span>
                   </div>
+
+                  <Link to={`/donations/${donation.id}`} className="block text-sm text-green-600 hover:text-green-700 font-medium">
+                    View details
+                  </Link>
+
+                  <DonationTimeline donationId={donation.id} />
                 </div>
               </div>
             ))}
@@ -0,0 +1,181 @@
+import React, { useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { ALLERGENS, DIETARY_TAGS } from '../lib/dietary'
+import { FOOD_CATEGORIES } from '../lib/donationItems'
+import { resolveProfileLocation, toProfileLocationDraft, type ProfileLocationDraft } from '../lib/serviceArea'
+import { User, Phone, ShieldAlert, Leaf, Save, Scale, Utensils } from 'lucide-react'
+import TagPicker from '../components/TagPicker'
+import ProfileLocationFields from '../components/ProfileLocationFields'
+
+export default function Profile() {
+  const { profile, updateProfile } = useAuth()
+  const [name, setName] = useState(profile?.name || '')
+  const [phone, setPhone] = useState(profile?.phone || '')
+  const [excludedAllergens, setExcludedAllergens] = useState<string[]>(profile?.excluded_allergens || [])
+  const [requiredDietaryTags, setRequiredDietaryTags] = useState<string[]>(profile?.required_dietary_tags || [])
+  const [location, setLocation] = useState<ProfileLocationDraft>(toProfileLocationDraft(profile))
+  const [dailyCapacityKg, setDailyCapacityKg] = useState(profile?.daily_capacity_kg?.toString() || '')
+  const [preferredCategories, setPreferredCategories] = useState<string[]>(profile?.preferred_categories || [])
+  const [saving, setSaving] = useState(false)
+
+  const isShelter = profile?.user_type === 'shelter'
+  // Donors give an address per donation, shelters and volunteers see distances from here
+  const hasLocation = profile?.user_type === 'shelter' || profile?.user_type === 'volunteer'
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const profileLocation = hasLocation ? await resolveProfileLocation(location) : null
+      if (hasLocation && !profileLocation) {
+        alert(`We couldn't find "${location.label}" on the map. Pick one of the suggestions or use your current location.`)
+        return
+      }
+
+      await updateProfile({
+        name,
+        phone: phone || null,
+        ...profileLocation,
+        ...(isShelter && {
+          excluded_allergens: excludedAllergens,
+          required_dietary_tags: requiredDietaryTags,
+          daily_capacity_kg: Number(dailyCapacityKg) > 0 ? Number(dailyCapacityKg) : null,
+          preferred_categories: preferredCategories,
+        }),
+      })
+      alert('Profile saved.')
+    } catch (error) {
+      console.error('Error saving profile:', error)
+      alert('Failed to save profile. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Your Profile</h1>
+        <p className="text-gray-600">
+          Keep your contact details up to date so others can reach you about donations.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-lg p-8 space-y-6">
+        <div>
+          <label htmlFor="name" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+            <User className="h-4 w-4 mr-2" />
+            Name
+          </label>
+          <input
+            id="name"
+            type="text"
+            required
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="phone" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+            <Phone className="h-4 w-4 mr-2" />
+            Phone Number (Optional)
+          </label>
+          <input
+            id="phone"
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          />
+        </div>
+
+        {hasLocation && (
+          <ProfileLocationFields value={location} onChange={setLocation} showServiceRadius={isShelter} />
+        )}
+
+        {isShelter && (
+          <div className="border-t border-gray-100 pt-6 space-y-6">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Dietary Preferences</h2>
+              <p className="text-sm text-gray-600">
+                Donations that don't match are hidden from Incoming Requests by default and flagged when shown.
+              </p>
+            </div>
+
+            <div>
+              <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                <ShieldAlert className="h-4 w-4 mr-2" />
+                Allergens We Can't Accept
+              </label>
+              <TagPicker options={ALLERGENS} selected={excludedAllergens} onChange={setExcludedAllergens} tone="red" />
+            </div>
+
+            <div>
+              <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                <Leaf className="h-4 w-4 mr-2" />
+                Food Must Be
+              </label>
+              <TagPicker options={DIETARY_TAGS} selected={requiredDietaryTags} onChange={setRequiredDietaryTags} />
+              <p className="mt-1 text-xs text-gray-500">
+                Leave empty if you can take any food.
+              </p>
+            </div>
+
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Matching</h2>
+              <p className="text-sm text-gray-600">
+                Helps us suggest donations that suit you. Donations ranked highly for you are marked as recommended.
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="daily-capacity" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                <Scale className="h-4 w-4 mr-2" />
+                Daily Capacity in kg (Optional)
+              </label>
+              <input
+                id="daily-capacity"
+                type="number"
+                min="1"
+                step="any"
+                value={dailyCapacityKg}
+                onChange={(e) => setDailyCapacityKg(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+            </div>
+
+            <div>
+              <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                <Utensils className="h-4 w-4 mr-2" />
+                Food We Especially Want
+              </label>
+              <TagPicker
+                options={FOOD_CATEGORIES.map(category => ({ value: category, label: category }))}
+                selected={preferredCategories}
+                onChange={setPreferredCategories}
+              />
+            </div>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="w-full flex justify-center items-center space-x-2 py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {saving ? (
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+          ) : (
+            <>
+              <Save className="h-5 w-5" />
+              <span>Save Profile</span>
+            </>
+          )}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,389 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase } from '../lib/supabase'
+import { formatQuantity } from '../lib/quantity'
+import { formatItem } from '../lib/donationItems'
+import { getDietaryConflicts } from '../lib/dietary'
+import * as transitions from '../lib/donationTransitions'
+import {
+  describeSchedule,
+  subscribeToSchedule,
+  unsubscribeFromSchedule,
+  upcomingOccurrences,
+  type DonationSchedule,
+  type ScheduleOccurrence,
+} from '../lib/schedules'
+import ScheduleForm, { type ScheduleValues } from '../components/ScheduleForm'
+import DietaryBadges from '../components/DietaryBadges'
+import { CalendarClock, MapPin, Pause, Play, Pencil, Plus, Trash2, BellRing, BellOff, ShieldAlert } from 'lucide-react'
+
+interface ScheduledDonation {
+  id: string
+  schedule_id: string
+  occurrence_at: string
+  status: string
+}
+
+export default function Schedules() {
+  const { user, profile } = useAuth()
+  const [schedules, setSchedules] = useState<DonationSchedule[]>([])
+  const [scheduledDonations, setScheduledDonations] = useState<ScheduledDonation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<DonationSchedule | 'new' | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [updating, setUpdating] = useState<string | null>(null)
+
+  const isDonor = profile?.user_type === 'donor'
+
+  useEffect(() => {
+    fetchSchedules()
+  }, [user])
+
+  const fetchSchedules = async () => {
+    if (!user) return
+
+    try {
+      let query = supabase
+        .from('donation_schedules')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (isDonor) {
+        query = query.eq('donor_id', user.id)
+      }
+
+      const { data, error } = await query
+      if (error) throw error
+      setSchedules(data || [])
+
+      // Occurrences that are already posted need cancelling when skipped
+      if (isDonor && data?.length) {
+        const { data: donations, error: donationsError } = await supabase
+          .from('donations')
+          .select('id, schedule_id, occurrence_at, status')
+          .in('schedule_id', data.map(schedule => schedule.id))
+          .gte('occurrence_at', new Date().toISOString())
+
+        if (donationsError) throw donationsError
+        setScheduledDonations(donations || [])
+      }
+    } catch (error) {
+      console.error('Error fetching schedules:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveSchedule = async (values: ScheduleValues) => {
+    if (!user) return
+
+    setSaving(true)
+
+    try {
+      const { error } = editing && editing !== 'new'
+        ? await supabase.from('donation_schedules').update(values).eq('id', editing.id)
+        : await supabase.from('donation_schedules').insert({ ...values, donor_id: user.id })
+
+      if (error) throw error
+
+      setEditing(null)
+      fetchSchedules()
+    } catch (error) {
+      console.error('Error saving schedule:', error)
+      alert('Failed to save schedule. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const togglePaused = async (schedule: DonationSchedule) => {
+    setUpdating(schedule.id)
+
+    try {
+      const { error } = await supabase
+        .from('donation_schedules')
+        .update({ paused: !schedule.paused })
+        .eq('id', schedule.id)
+
+      if (error) throw error
+      fetchSchedules()
+    } catch (error) {
+      console.error('Error updating schedule:', error)
+      alert('Failed to update schedule. Please try again.')
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const deleteSchedule = async (schedule: DonationSchedule) => {
+    if (!confirm('Delete this schedule? Donations already posted from it stay open.')) return
+
+    setUpdating(schedule.id)
+
+    try {
+      const { error } = await supabase
+        .from('donation_schedules')
+        .delete()
+        .eq('id', schedule.id)
+
+      if (error) throw error
+      fetchSchedules()
+    } catch (error) {
+      console.error('Error deleting schedule:', error)
+      alert('Failed to delete schedule. Please try again.')
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const findPostedDonation = (schedule: DonationSchedule, occurrence: ScheduleOccurrence) => {
+    return scheduledDonations.find(donation =>
+      donation.schedule_id === schedule.id &&
+      new Date(donation.occurrence_at).getTime() === occurrence.at.getTime()
+    )
+  }
+
+  const toggleSkip = async (schedule: DonationSchedule, occurrence: ScheduleOccurrence) => {
+    setUpdating(schedule.id)
+
+    try {
+      const skipDates = occurrence.skipped
+        ? schedule.skip_dates.filter(date => date !== occurrence.date)
+        : [...schedule.skip_dates, occurrence.date]
+
+      const { error } = await supabase
+        .from('donation_schedules')
+        .update({ skip_dates: skipDates })
+        .eq('id', schedule.id)
+
+      if (error) throw error
+
+      // Already posted to shelters, so take it back down
+      const posted = findPostedDonation(schedule, occurrence)
+      if (!occurrence.skipped && posted && ['pending', 'accepted', 'claimed'].includes(posted.status)) {
+        const { error: cancelError } = await transitions.cancelDonation(posted.id, 'This occurrence of the schedule was skipped')
+
+        if (transitions.isTransitionConflict(cancelError)) {
+          alert(`${cancelError.message}.`)
+        } else if (cancelError) {
+          throw cancelError
+        }
+      }
+
+      fetchSchedules()
+    } catch (error) {
+      console.error('Error skipping occurrence:', error)
+      alert('Failed to update schedule. Please try again.')
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const toggleSubscription = async (schedule: DonationSchedule) => {
+    setUpdating(schedule.id)
+
+    try {
+      const subscribed = schedule.subscribed_shelter_id === user?.id
+      const { error } = subscribed
+        ? await unsubscribeFromSchedule(schedule.id)
+        : await subscribeToSchedule(schedule.id)
+
+      if (transitions.isTransitionConflict(error)) {
+        alert(`${error.message}.`)
+      } else if (error) {
+        throw error
+      }
+
+      fetchSchedules()
+    } catch (error) {
+      console.error('Error updating subscription:', error)
+      alert('Failed to update subscription. Please try again.')
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    )
+  }
+
+  if (editing) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">
+          {editing === 'new' ? 'New Schedule' : 'Edit Schedule'}
+        </h1>
+        <ScheduleForm
+          initial={editing === 'new' ? undefined : editing}
+          donorName={profile?.name || ''}
+          submitting={saving}
+          onSubmit={saveSchedule}
+          onCancel={() => setEditing(null)}
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-start justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Recurring Donations</h1>
+          <p className="text-gray-600">
+            {isDonor
+              ? 'Donate the same food on a regular schedule without filling in the form every time.'
+              : 'Subscribe to a regular donation and every future occurrence is accepted for you automatically.'}
+          </p>
+        </div>
+        {isDonor && (
+          <button
+            onClick={() => setEditing('new')}
+            className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Schedule</span>
+          </button>
+        )}
+      </div>
+
+      {schedules.length === 0 ? (
+        <div className="text-center py-12">
+          <CalendarClock className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No schedules yet</h3>
+          <p className="text-gray-600">
+            {isDonor
+              ? 'Set up a schedule if you have surplus food on the same days each week.'
+              : 'Donors who give regularly will show up here.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {schedules.map((schedule) => {
+            const subscribedByMe = schedule.subscribed_shelter_id === user?.id
+            const conflicts = isDonor ? [] : getDietaryConflicts(schedule, profile)
+
+            return (
+              <div key={schedule.id} className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <CalendarClock className="h-5 w-5 text-green-600" />
+                      <span className="font-semibold text-gray-900">{describeSchedule(schedule)}</span>
+                      {schedule.paused && (
+                        <span className="text-xs px-2 py-1 rounded-full font-medium bg-gray-100 text-gray-700">paused</span>
+                      )}
+                      {schedule.subscribed_shelter_id && (
+                        <span className="text-xs px-2 py-1 rounded-full font-medium bg-blue-100 text-blue-800">
+                          {subscribedByMe || isDonor ? 'shelter subscribed' : 'taken'}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {!isDonor && <span className="font-medium">{schedule.donor_name} · </span>}
+                      {formatQuantity(schedule.quantity_amount, schedule.quantity_unit)} of {schedule.food_type}
+                      {schedule.ends_on && <> · until {new Date(schedule.ends_on).toLocaleDateString()}</>}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    {isDonor ? (
+                      <>
+                        <button
+                          onClick={() => togglePaused(schedule)}
+                          disabled={updating === schedule.id}
+                          className="p-2 text-gray-500 hover:text-green-600 disabled:opacity-50"
+                          title={schedule.paused ? 'Resume' : 'Pause'}
+                        >
+                          {schedule.paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                        </button>
+                        <button
+                          onClick={() => setEditing(schedule)}
+                          className="p-2 text-gray-500 hover:text-blue-600"
+                          title="Edit"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => deleteSchedule(schedule)}
+                          disabled={updating === schedule.id}
+                          className="p-2 text-gray-500 hover:text-red-600 disabled:opacity-50"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </>
+                    ) : (
+                      (!schedule.subscribed_shelter_id || subscribedByMe) && (
+                        <button
+                          onClick={() => toggleSubscription(schedule)}
+                          disabled={updating === schedule.id}
+                          className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                            subscribedByMe
+                              ? 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                              : 'bg-green-600 text-white hover:bg-green-700'
+                          }`}
+                        >
+                          {subscribedByMe ? <BellOff className="h-4 w-4" /> : <BellRing className="h-4 w-4" />}
+                          <span>{subscribedByMe ? 'Unsubscribe' : 'Subscribe'}</span>
+                        </button>
+                      )
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-start space-x-2 mb-3">
+                  <MapPin className="h-4 w-4 text-gray-400 mt-0.5" />
+                  <span className="text-sm text-gray-600">{schedule.pickup_location}</span>
+                </div>
+
+                {schedule.items.length > 1 && (
+                  <ul className="text-sm text-gray-600 space-y-1 mb-3">
+                    {schedule.items.map((item, index) => (
+                      <li key={index}>{formatItem(item)}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <DietaryBadges allergens={schedule.allergens} dietaryTags={schedule.dietary_tags} className="mb-3" />
+
+                {conflicts.length > 0 && (
+                  <div className="flex items-start space-x-2 bg-red-50 rounded-lg p-3 mb-3">
+                    <ShieldAlert className="h-4 w-4 text-red-600 mt-0.5" />
+                    <span className="text-sm text-red-700">{conflicts.join(' · ')}</span>
+                  </div>
+                )}
+
+                {isDonor && !schedule.paused && (
+                  <div className="border-t border-gray-100 pt-3">
+                    <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Coming Up</p>
+                    <div className="flex flex-wrap gap-2">
+                      {upcomingOccurrences(schedule).map((occurrence) => (
+                        <button
+                          key={occurrence.date}
+                          onClick={() => toggleSkip(schedule, occurrence)}
+                          disabled={updating === schedule.id}
+                          title={occurrence.skipped ? 'Skipped, click to restore' : 'Click to skip this day'}
+                          className={`text-xs px-3 py-1 rounded-full border transition-colors disabled:opacity-50 ${
+                            occurrence.skipped
+                              ? 'bg-gray-50 text-gray-400 border-gray-200 line-through'
+                              : 'bg-green-50 text-green-800 border-green-200 hover:bg-green-100'
+                          }`}
+                        >
+                          {occurrence.at.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+// Geocodes an address for a signed-in user through the geocode_cache table. The cache is shared by
+// everyone, so only this function writes it, with answers it got from the provider itself.
+//
+// GEOCODER (nominatim or pelias), GEOCODER_URL and GEOCODER_API_KEY should name the same provider
+// as the app's VITE_GEOCODER settings.
+
+const PUBLIC_NOMINATIM_URL = 'https://nominatim.openstreetmap.org'
+// The public Nominatim instance allows one request per second
+const PUBLIC_NOMINATIM_INTERVAL_MS = 1000
+
+// Misses are cached too so a typo isn't looked up on every submit, but for less time
+// in case the address gets added to the map
+const FOUND_TTL_DAYS = 90
+const NOT_FOUND_TTL_DAYS = 1
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface GeocodeResult {
+  label: string
+  lat: number
+  lng: number
+}
+
+const api = Deno.env.get('GEOCODER') || 'nominatim'
+const baseUrl = Deno.env.get('GEOCODER_URL') || (api === 'nominatim' ? PUBLIC_NOMINATIM_URL : '')
+const apiKey = Deno.env.get('GEOCODER_API_KEY')
+// Same key the app uses for this provider
+const provider = `${api}:${baseUrl}`
+// Only the public instance is rate limited, self-hosted geocoders take requests as they come
+const minIntervalMs = baseUrl === PUBLIC_NOMINATIM_URL ? PUBLIC_NOMINATIM_INTERVAL_MS : 0
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+})
+
+// Cache key, so "12 Main St" and " 12 main st " share an entry
+const normalizeAddress = (address: string) => address.trim().toLowerCase().replace(/\s+/g, ' ')
+
+const isFresh = (createdAt: string, found: boolean) => {
+  const ttlDays = found ? FOUND_TTL_DAYS : NOT_FOUND_TTL_DAYS
+  return Date.now() - new Date(createdAt).getTime() < ttlDays * 24 * 60 * 60 * 1000
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+let queue: Promise<unknown> = Promise.resolve()
+
+// Lookups from this instance go out one at a time, spaced by minIntervalMs
+const throttled = <T>(request: () => Promise<T>): Promise<T> => {
+  const result = queue.then(request)
+  queue = result.then(() => wait(minIntervalMs), () => wait(minIntervalMs))
+  return result
+}
+
+const lookUp = (address: string): Promise<GeocodeResult | null> => throttled(async () => {
+  const url = new URL(api === 'nominatim' ? 'search' : 'v1/search', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`)
+
+  if (api === 'nominatim') {
+    url.searchParams.set('format', 'jsonv2')
+    url.searchParams.set('q', address)
+    url.searchParams.set('limit', '1')
+  } else {
+    url.searchParams.set('text', address)
+    url.searchParams.set('size', '1')
+  }
+  if (apiKey) url.searchParams.set('api_key', apiKey)
+
+  // Nominatim's usage policy asks for an identifying User-Agent
+  const response = await fetch(url, { headers: { Accept: 'application/json', 'User-Agent': 'FoodWasteConnector' } })
+  if (!response.ok) throw new Error(`The ${api} geocoder answered ${response.status}`)
+
+  if (api === 'nominatim') {
+    const [place]: { lat: string; lon: string; display_name: string }[] = await response.json()
+    return place ? { label: place.display_name, lat: Number(place.lat), lng: Number(place.lon) } : null
+  }
+
+  const { features = [] }: { features?: { geometry: { coordinates: [number, number] }; properties: { label: string } }[] } =
+    await response.json()
+  const [feature] = features
+  return feature
+    ? { label: feature.properties.label, lat: feature.geometry.coordinates[1], lng: feature.geometry.coordinates[0] }
+    : null
+})
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+
+  if (!baseUrl || !['nominatim', 'pelias'].includes(api)) {
+    return json({ error: 'The geocoder is not configured' }, 500)
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  )
+
+  // The anon key alone isn't enough, same as the table's old policies
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '') ?? ''
+  const { data: { user } } = await supabase.auth.getUser(token)
+  if (!user) return json({ error: 'Unauthorized' }, 401)
+
+  const { address } = await req.json().catch(() => ({}))
+  if (typeof address !== 'string' || !address.trim()) {
+    return json({ error: 'An address is required' }, 400)
+  }
+
+  const query = normalizeAddress(address)
+
+  const { data: cached, error: readError } = await supabase
+    .from('geocode_cache')
+    .select('*')
+    .eq('provider', provider)
+    .eq('query', query)
+    .maybeSingle()
+
+  if (readError) console.error('Error reading geocode cache:', readError)
+  if (cached && isFresh(cached.created_at, cached.found)) {
+    return json({ result: cached.found ? { label: cached.label, lat: cached.latitude, lng: cached.longitude } : null })
+  }
+
+  let result: GeocodeResult | null
+  try {
+    result = await lookUp(address)
+  } catch (error) {
+    console.error('Error geocoding address:', error)
+    return json({ error: (error as Error).message }, 502)
+  }
+
+  const { error: writeError } = await supabase.from('geocode_cache').upsert({
+    provider,
+    query,
+    found: !!result,
+    label: result?.label ?? null,
+    latitude: result?.lat ?? null,
+    longitude: result?.lng ?? null,
+    created_at: new Date().toISOString(),
+  })
+  if (writeError) console.error('Error writing geocode cache:', writeError)
+
+  return json({ result })
+})
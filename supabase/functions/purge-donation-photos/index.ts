@@ -0,0 +1,51 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const BUCKET = 'donation-photos'
+
+// Storage API accepts up to 1000 paths per remove call
+const BATCH_SIZE = 1000
+
+// The anon key is public, so the cron job also sends this secret (set with
+// `supabase secrets set PURGE_PHOTOS_SECRET=...` and stored in Vault as `purge_photos_secret`)
+const PURGE_SECRET = Deno.env.get('PURGE_PHOTOS_SECRET')
+
+Deno.serve(async (req) => {
+  if (!PURGE_SECRET || req.headers.get('x-purge-secret') !== PURGE_SECRET) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 })
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  )
+
+  const { data, error } = await supabase.rpc('donation_photos_to_purge')
+
+  if (error) {
+    console.error('Error listing donation photos to purge:', error)
+    return new Response(JSON.stringify({ error: error.message }), { status: 500 })
+  }
+
+  const paths: string[] = (data || []).map((row: { storage_path: string }) => row.storage_path)
+
+  for (let i = 0; i < paths.length; i += BATCH_SIZE) {
+    const batch = paths.slice(i, i + BATCH_SIZE)
+
+    const { error: removeError } = await supabase.storage.from(BUCKET).remove(batch)
+    if (removeError) {
+      console.error('Error removing donation photos:', removeError)
+      return new Response(JSON.stringify({ error: removeError.message }), { status: 500 })
+    }
+
+    // The files are already gone, so a failed delete leaves rows pointing at nothing
+    const { error: deleteError } = await supabase.from('donation_photos').delete().in('storage_path', batch)
+    if (deleteError) {
+      console.error('Error deleting purged donation photo rows:', deleteError)
+      return new Response(JSON.stringify({ error: deleteError.message }), { status: 500 })
+    }
+  }
+
+  return new Response(JSON.stringify({ purged: paths.length }), {
+    headers: { 'Content-Type': 'application/json' },
+  })
+})
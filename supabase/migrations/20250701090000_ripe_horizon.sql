@@ -0,0 +1,130 @@
+/*
+  # Donation Expiry ("safe until")
+
+  1. Schema Updates
+    - Add `safe_until` (required) and `expired_at` columns to donations
+    - Backfill existing rows with a 24 hour window from creation
+    - Add `expired` to the donations status check constraint
+
+  2. Automatic Expiry
+    - `expire_stale_donations()` moves open donations past their safe-until time to `expired`
+    - Scheduled every 5 minutes with pg_cron
+
+  3. Security
+    - Shelters can no longer accept donations that are past their safe-until time
+*/
+
+-- Add expiry columns to donations
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'safe_until'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN safe_until timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'expired_at'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN expired_at timestamptz;
+  END IF;
+END $$;
+
+-- Existing donations had no expiry information, assume a one day window
+UPDATE donations
+SET safe_until = COALESCE(created_at, now()) + interval '24 hours'
+WHERE safe_until IS NULL;
+
+ALTER TABLE donations ALTER COLUMN safe_until SET NOT NULL;
+
+-- Replace the status constraint to include the new expired state
+ALTER TABLE donations DROP CONSTRAINT IF EXISTS donations_status_check;
+ALTER TABLE donations ADD CONSTRAINT donations_status_check
+  CHECK (status = ANY (ARRAY['pending'::text, 'accepted'::text, 'completed'::text, 'cancelled'::text, 'expired'::text]));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'donations_safe_until_check'
+    AND table_name = 'donations'
+  ) THEN
+    ALTER TABLE donations ADD CONSTRAINT donations_safe_until_check
+    CHECK (safe_until > created_at);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_donations_safe_until ON donations(safe_until);
+
+-- Record when a donation expired
+CREATE OR REPLACE FUNCTION update_donation_timestamps()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'accepted' AND OLD.status = 'pending' THEN
+    NEW.accepted_at = now();
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status = 'accepted' THEN
+    NEW.completed_at = now();
+  END IF;
+
+  IF NEW.status = 'expired' AND OLD.status <> 'expired' THEN
+    NEW.expired_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Expire every open donation whose safe-until time has passed
+CREATE OR REPLACE FUNCTION expire_stale_donations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_count integer;
+BEGIN
+  UPDATE donations
+  SET status = 'expired'
+  WHERE status IN ('pending', 'accepted')
+    AND safe_until <= now();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_stale_donations() FROM PUBLIC, anon, authenticated;
+
+-- Run the expiry job every 5 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'expire-stale-donations',
+  '*/5 * * * *',
+  $$SELECT expire_stale_donations()$$
+);
+
+-- Shelters may only accept donations that are still safe
+DROP POLICY IF EXISTS "Shelters can update donations to accepted" ON donations;
+
+CREATE POLICY "Shelters can update donations to accepted"
+  ON donations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (status = 'pending'::text) AND
+    (safe_until > now()) AND
+    (uid() IN (
+      SELECT profiles.id FROM profiles
+      WHERE (profiles.user_type = 'shelter'::text)
+    ))
+  )
+  WITH CHECK (
+    (status = 'accepted'::text) AND
+    (shelter_id = uid())
+  );
@@ -0,0 +1,95 @@
+/*
+  # Structured Donation Quantities
+
+  1. Schema Updates
+    - Add `quantity_amount` (numeric) and `quantity_unit` (kg, lb, servings, items, litres) to donations
+    - The free-text `quantity` column is kept as the original description and becomes optional
+
+  2. Data Migration
+    - `parse_legacy_quantity()` makes a best-effort parse of existing free-text quantities
+      ("about 20 lbs" -> 20 lb, "3 trays" -> 3 items)
+    - Anything without a number falls back to 1 item
+*/
+
+-- Add structured quantity columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'quantity_amount'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN quantity_amount numeric;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'quantity_unit'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN quantity_unit text;
+  END IF;
+END $$;
+
+-- Best-effort parse of a free-text quantity into an amount and unit
+CREATE OR REPLACE FUNCTION parse_legacy_quantity(raw text, OUT amount numeric, OUT unit text)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  parts text[];
+  word text;
+BEGIN
+  parts := regexp_match(lower(COALESCE(raw, '')), '([0-9]+(?:\.[0-9]+)?)\s*([a-z]*)');
+
+  IF parts IS NULL THEN
+    amount := 1;
+    unit := 'items';
+    RETURN;
+  END IF;
+
+  amount := parts[1]::numeric;
+  IF amount <= 0 THEN
+    amount := 1;
+  END IF;
+
+  word := parts[2];
+  unit := CASE
+    WHEN word IN ('kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms') THEN 'kg'
+    WHEN word IN ('lb', 'lbs', 'pound', 'pounds') THEN 'lb'
+    WHEN word IN ('l', 'ltr', 'litre', 'litres', 'liter', 'liters') THEN 'litres'
+    WHEN word IN ('serving', 'servings', 'portion', 'portions', 'meal', 'meals', 'plate', 'plates') THEN 'servings'
+    ELSE 'items'
+  END;
+END;
+$$;
+
+UPDATE donations
+SET (quantity_amount, quantity_unit) = (
+  SELECT parsed.amount, parsed.unit FROM parse_legacy_quantity(donations.quantity) AS parsed
+)
+WHERE quantity_amount IS NULL OR quantity_unit IS NULL;
+
+ALTER TABLE donations ALTER COLUMN quantity_amount SET NOT NULL;
+ALTER TABLE donations ALTER COLUMN quantity_unit SET NOT NULL;
+ALTER TABLE donations ALTER COLUMN quantity DROP NOT NULL;
+
+-- Add constraints if they don't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'donations_quantity_amount_check'
+    AND table_name = 'donations'
+  ) THEN
+    ALTER TABLE donations ADD CONSTRAINT donations_quantity_amount_check
+    CHECK (quantity_amount > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'donations_quantity_unit_check'
+    AND table_name = 'donations'
+  ) THEN
+    ALTER TABLE donations ADD CONSTRAINT donations_quantity_unit_check
+    CHECK (quantity_unit = ANY (ARRAY['kg'::text, 'lb'::text, 'servings'::text, 'items'::text, 'litres'::text]));
+  END IF;
+END $$;
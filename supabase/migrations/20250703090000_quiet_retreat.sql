@@ -0,0 +1,104 @@
+/*
+  # Cancel, Decline and Release Flows
+
+  1. Schema Updates
+    - Add `status_reason` to donations, holding the reason given for the latest cancel/decline/release
+    - Add `cancelled_at` timestamp
+
+  2. Transitions
+    - Cancel: donor withdraws a pending or accepted donation (-> cancelled)
+    - Decline: shelter undoes an accept, the donation goes back to pending for other shelters
+    - Release: assigned volunteer backs out, the pickup becomes available to other volunteers
+
+  3. Security
+    - One UPDATE policy per transition, limited to the party allowed to make it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'status_reason'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN status_reason text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'cancelled_at'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN cancelled_at timestamptz;
+  END IF;
+END $$;
+
+-- Maintain timestamps for the new transitions
+CREATE OR REPLACE FUNCTION update_donation_timestamps()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'accepted' AND OLD.status = 'pending' THEN
+    NEW.accepted_at = now();
+  END IF;
+
+  -- Declined by the shelter, back on offer
+  IF NEW.status = 'pending' AND OLD.status = 'accepted' THEN
+    NEW.accepted_at = NULL;
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status = 'accepted' THEN
+    NEW.completed_at = now();
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    NEW.cancelled_at = now();
+  END IF;
+
+  IF NEW.status = 'expired' AND OLD.status <> 'expired' THEN
+    NEW.expired_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP POLICY IF EXISTS "Donors can cancel own donations" ON donations;
+DROP POLICY IF EXISTS "Shelters can decline accepted donations" ON donations;
+DROP POLICY IF EXISTS "Volunteers can release assigned pickups" ON donations;
+
+CREATE POLICY "Donors can cancel own donations"
+  ON donations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (donor_id = uid()) AND
+    (status = ANY (ARRAY['pending'::text, 'accepted'::text]))
+  )
+  WITH CHECK (
+    (donor_id = uid()) AND
+    (status = 'cancelled'::text)
+  );
+
+CREATE POLICY "Shelters can decline accepted donations"
+  ON donations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (status = 'accepted'::text) AND
+    (shelter_id = uid())
+  )
+  WITH CHECK (
+    (status = 'pending'::text) AND
+    (shelter_id IS NULL)
+  );
+
+CREATE POLICY "Volunteers can release assigned pickups"
+  ON donations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (status = 'accepted'::text) AND
+    (volunteer_id = uid())
+  )
+  WITH CHECK (
+    (status = 'accepted'::text) AND
+    (volunteer_id IS NULL)
+  );
@@ -0,0 +1,198 @@
+/*
+  # Volunteer Claim Step
+
+  1. Schema Updates
+    - Add `claimed` and `in_transit` to the donations status check constraint
+    - Add `claimed_at` and `picked_up_at` timestamps
+
+  2. Lifecycle
+    - accepted -> claimed: a volunteer claims the pickup, `volunteer_id` is set in the same update
+    - claimed -> in_transit: the volunteer has collected the food
+    - claimed | in_transit -> completed: only the claiming volunteer can complete
+    - claimed -> accepted: the volunteer releases the pickup for someone else
+
+  3. Security
+    - Volunteers only see unclaimed accepted donations plus their own pickups
+    - "Volunteers can update donations to completed" is limited to the claiming volunteer
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'claimed_at'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN claimed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'picked_up_at'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN picked_up_at timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE donations DROP CONSTRAINT IF EXISTS donations_status_check;
+ALTER TABLE donations ADD CONSTRAINT donations_status_check
+  CHECK (status = ANY (ARRAY[
+    'pending'::text, 'accepted'::text, 'claimed'::text, 'in_transit'::text,
+    'completed'::text, 'cancelled'::text, 'expired'::text
+  ]));
+
+CREATE OR REPLACE FUNCTION update_donation_timestamps()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'accepted' AND OLD.status = 'pending' THEN
+    NEW.accepted_at = now();
+  END IF;
+
+  -- Declined by the shelter, back on offer
+  IF NEW.status = 'pending' AND OLD.status = 'accepted' THEN
+    NEW.accepted_at = NULL;
+  END IF;
+
+  IF NEW.status = 'claimed' AND OLD.status = 'accepted' THEN
+    NEW.claimed_at = now();
+  END IF;
+
+  -- Released by the volunteer, available to claim again
+  IF NEW.status = 'accepted' AND OLD.status = 'claimed' THEN
+    NEW.claimed_at = NULL;
+  END IF;
+
+  IF NEW.status = 'in_transit' AND OLD.status = 'claimed' THEN
+    NEW.picked_up_at = now();
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status IN ('claimed', 'in_transit') THEN
+    NEW.completed_at = now();
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    NEW.cancelled_at = now();
+  END IF;
+
+  IF NEW.status = 'expired' AND OLD.status <> 'expired' THEN
+    NEW.expired_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Claimed food that spoils before collection expires too, food already on the road does not
+CREATE OR REPLACE FUNCTION expire_stale_donations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_count integer;
+BEGIN
+  UPDATE donations
+  SET status = 'expired'
+  WHERE status IN ('pending', 'accepted', 'claimed')
+    AND safe_until <= now();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_donations_status_volunteer ON donations(status, volunteer_id);
+
+-- Replace volunteer and cancel policies
+DROP POLICY IF EXISTS "Volunteers can read accepted donations" ON donations;
+DROP POLICY IF EXISTS "Volunteers can claim accepted donations" ON donations;
+DROP POLICY IF EXISTS "Volunteers can mark claimed donations in transit" ON donations;
+DROP POLICY IF EXISTS "Volunteers can update donations to completed" ON donations;
+DROP POLICY IF EXISTS "Volunteers can release assigned pickups" ON donations;
+DROP POLICY IF EXISTS "Donors can cancel own donations" ON donations;
+
+CREATE POLICY "Volunteers can read accepted donations"
+  ON donations
+  FOR SELECT
+  TO authenticated
+  USING (
+    (
+      (status = 'accepted'::text) AND
+      (volunteer_id IS NULL) AND
+      (uid() IN (
+        SELECT profiles.id FROM profiles
+        WHERE (profiles.user_type = 'volunteer'::text)
+      ))
+    ) OR
+    (volunteer_id = uid())
+  );
+
+CREATE POLICY "Volunteers can claim accepted donations"
+  ON donations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (status = 'accepted'::text) AND
+    (volunteer_id IS NULL) AND
+    (safe_until > now()) AND
+    (uid() IN (
+      SELECT profiles.id FROM profiles
+      WHERE (profiles.user_type = 'volunteer'::text)
+    ))
+  )
+  WITH CHECK (
+    (status = 'claimed'::text) AND
+    (volunteer_id = uid())
+  );
+
+CREATE POLICY "Volunteers can mark claimed donations in transit"
+  ON donations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (status = 'claimed'::text) AND
+    (volunteer_id = uid())
+  )
+  WITH CHECK (
+    (status = 'in_transit'::text) AND
+    (volunteer_id = uid())
+  );
+
+CREATE POLICY "Volunteers can update donations to completed"
+  ON donations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (status = ANY (ARRAY['claimed'::text, 'in_transit'::text])) AND
+    (volunteer_id = uid())
+  )
+  WITH CHECK (
+    (status = 'completed'::text) AND
+    (volunteer_id = uid())
+  );
+
+CREATE POLICY "Volunteers can release assigned pickups"
+  ON donations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (status = 'claimed'::text) AND
+    (volunteer_id = uid())
+  )
+  WITH CHECK (
+    (status = 'accepted'::text) AND
+    (volunteer_id IS NULL)
+  );
+
+CREATE POLICY "Donors can cancel own donations"
+  ON donations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (donor_id = uid()) AND
+    (status = ANY (ARRAY['pending'::text, 'accepted'::text, 'claimed'::text]))
+  )
+  WITH CHECK (
+    (donor_id = uid()) AND
+    (status = 'cancelled'::text)
+  );
@@ -0,0 +1,292 @@
+/*
+  # Atomic Donation Transitions
+
+  1. New Functions
+    - `accept_donation`, `decline_donation` (shelters)
+    - `claim_donation`, `release_donation`, `pick_up_donation`, `complete_donation` (volunteers)
+    - `cancel_donation` (donors)
+    - Each checks the actor and the current status in the same UPDATE statement, so two
+      shelters (or volunteers) clicking at once can never both win
+
+  2. Errors
+    - Conflicts raise SQLSTATE `PT409` (PostgREST responds with HTTP 409) and a readable message,
+      e.g. "This donation has already been taken by another shelter"
+    - Wrong role or wrong party raises `PT403`, unknown donations raise `PT404`
+
+  3. Security
+    - Direct UPDATE policies on donations are dropped, all status changes go through these functions
+*/
+
+-- Explain why a transition did not apply and raise the matching error
+CREATE OR REPLACE FUNCTION raise_donation_conflict(
+  p_donation_id uuid,
+  p_action text,
+  p_actor_column text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+  v_actor uuid;
+  v_message text;
+BEGIN
+  SELECT * INTO v_donation FROM donations WHERE id = p_donation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Donation not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  v_actor := CASE p_actor_column
+    WHEN 'donor_id' THEN v_donation.donor_id
+    WHEN 'shelter_id' THEN v_donation.shelter_id
+    WHEN 'volunteer_id' THEN v_donation.volunteer_id
+  END;
+
+  IF p_actor_column IS NOT NULL AND v_actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You are not assigned to this donation' USING ERRCODE = 'PT403';
+  END IF;
+
+  v_message := CASE
+    WHEN v_donation.status = 'cancelled' THEN 'This donation has been cancelled by the donor'
+    WHEN v_donation.status = 'expired' OR v_donation.safe_until <= now() THEN 'This donation has passed its safe-until time'
+    WHEN p_action = 'accept' AND v_donation.status <> 'pending' THEN 'This donation has already been taken by another shelter'
+    WHEN p_action = 'claim' AND v_donation.volunteer_id IS NOT NULL THEN 'This pickup has already been claimed by another volunteer'
+    ELSE format('Cannot %s a donation that is %s', p_action, replace(v_donation.status, '_', ' '))
+  END;
+
+  RAISE EXCEPTION '%', v_message USING ERRCODE = 'PT409', DETAIL = v_donation.status;
+END;
+$$;
+
+-- Make sure the caller has the expected role
+CREATE OR REPLACE FUNCTION require_user_type(p_user_type text)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type = p_user_type
+  ) THEN
+    RAISE EXCEPTION 'Only % accounts can do this', p_user_type USING ERRCODE = 'PT403';
+  END IF;
+END;
+$$;
+
+-- Cancel, decline and release all need a reason for the other parties
+CREATE OR REPLACE FUNCTION require_reason(p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required' USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_donation(p_donation_id uuid)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  PERFORM require_user_type('shelter');
+
+  UPDATE donations
+  SET status = 'accepted', shelter_id = auth.uid(), status_reason = NULL
+  WHERE id = p_donation_id
+    AND status = 'pending'
+    AND safe_until > now()
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM raise_donation_conflict(p_donation_id, 'accept');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_donation(p_donation_id uuid, p_reason text)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  PERFORM require_user_type('shelter');
+  PERFORM require_reason(p_reason);
+
+  UPDATE donations
+  SET status = 'pending', shelter_id = NULL, status_reason = btrim(p_reason)
+  WHERE id = p_donation_id
+    AND status = 'accepted'
+    AND shelter_id = auth.uid()
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM raise_donation_conflict(p_donation_id, 'decline', 'shelter_id');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_donation(p_donation_id uuid)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  PERFORM require_user_type('volunteer');
+
+  UPDATE donations
+  SET status = 'claimed', volunteer_id = auth.uid(), status_reason = NULL
+  WHERE id = p_donation_id
+    AND status = 'accepted'
+    AND volunteer_id IS NULL
+    AND safe_until > now()
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM raise_donation_conflict(p_donation_id, 'claim');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_donation(p_donation_id uuid, p_reason text)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  PERFORM require_reason(p_reason);
+
+  UPDATE donations
+  SET status = 'accepted', volunteer_id = NULL, status_reason = btrim(p_reason)
+  WHERE id = p_donation_id
+    AND status = 'claimed'
+    AND volunteer_id = auth.uid()
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM raise_donation_conflict(p_donation_id, 'release', 'volunteer_id');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION pick_up_donation(p_donation_id uuid)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  UPDATE donations
+  SET status = 'in_transit'
+  WHERE id = p_donation_id
+    AND status = 'claimed'
+    AND volunteer_id = auth.uid()
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM raise_donation_conflict(p_donation_id, 'pick up', 'volunteer_id');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_donation(p_donation_id uuid)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  UPDATE donations
+  SET status = 'completed'
+  WHERE id = p_donation_id
+    AND status IN ('claimed', 'in_transit')
+    AND volunteer_id = auth.uid()
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM raise_donation_conflict(p_donation_id, 'complete', 'volunteer_id');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_donation(p_donation_id uuid, p_reason text)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  PERFORM require_reason(p_reason);
+
+  UPDATE donations
+  SET status = 'cancelled', status_reason = btrim(p_reason)
+  WHERE id = p_donation_id
+    AND status IN ('pending', 'accepted', 'claimed')
+    AND donor_id = auth.uid()
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM raise_donation_conflict(p_donation_id, 'cancel', 'donor_id');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+-- Only the transition functions are callable by clients
+REVOKE EXECUTE ON FUNCTION raise_donation_conflict(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION require_user_type(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION require_reason(text) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION accept_donation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION decline_donation(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_donation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_donation(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION pick_up_donation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_donation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_donation(uuid, text) TO authenticated;
+
+-- Status changes no longer go through direct updates
+DROP POLICY IF EXISTS "Shelters can update donations to accepted" ON donations;
+DROP POLICY IF EXISTS "Shelters can decline accepted donations" ON donations;
+DROP POLICY IF EXISTS "Volunteers can claim accepted donations" ON donations;
+DROP POLICY IF EXISTS "Volunteers can mark claimed donations in transit" ON donations;
+DROP POLICY IF EXISTS "Volunteers can update donations to completed" ON donations;
+DROP POLICY IF EXISTS "Volunteers can release assigned pickups" ON donations;
+DROP POLICY IF EXISTS "Donors can cancel own donations" ON donations;
@@ -0,0 +1,172 @@
+/*
+  # Donation State Machine and Audit Log
+
+  1. New Tables
+    - `donation_status_transitions` - the explicit list of allowed status changes
+    - `donation_events` - one row per status change with actor, role, old/new status, reason and time
+
+  2. Triggers
+    - `donation_status_guard` rejects any status change not listed in `donation_status_transitions`
+      and any donation created in a state other than `pending`
+    - `donation_status_events` records every insert and status change in `donation_events`
+
+  3. Security
+    - Events are readable by anyone who can read the donation they belong to
+    - Events are only written by the trigger
+*/
+
+CREATE TABLE IF NOT EXISTS donation_status_transitions (
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  description text NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO donation_status_transitions (from_status, to_status, description) VALUES
+  ('pending', 'accepted', 'Shelter accepts the donation'),
+  ('pending', 'cancelled', 'Donor withdraws the donation'),
+  ('pending', 'expired', 'Safe-until time passed before anyone accepted'),
+  ('accepted', 'pending', 'Shelter declines, donation goes back on offer'),
+  ('accepted', 'claimed', 'Volunteer claims the pickup'),
+  ('accepted', 'cancelled', 'Donor withdraws the donation'),
+  ('accepted', 'expired', 'Safe-until time passed before a volunteer claimed it'),
+  ('claimed', 'accepted', 'Volunteer releases the pickup'),
+  ('claimed', 'in_transit', 'Volunteer collects the food'),
+  ('claimed', 'completed', 'Volunteer delivers the food'),
+  ('claimed', 'cancelled', 'Donor withdraws the donation'),
+  ('claimed', 'expired', 'Safe-until time passed before collection'),
+  ('in_transit', 'completed', 'Volunteer delivers the food')
+ON CONFLICT (from_status, to_status) DO NOTHING;
+
+ALTER TABLE donation_status_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read donation status transitions" ON donation_status_transitions;
+
+CREATE POLICY "Anyone can read donation status transitions"
+  ON donation_status_transitions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Reject status changes that are not part of the state machine
+CREATE OR REPLACE FUNCTION validate_donation_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New donations must start as pending, not %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT EXISTS (
+    SELECT 1 FROM donation_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Invalid donation status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS donation_status_guard ON donations;
+CREATE TRIGGER donation_status_guard
+  BEFORE INSERT OR UPDATE OF status ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_donation_status_transition();
+
+-- Audit log of every status change
+CREATE TABLE IF NOT EXISTS donation_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donation_id uuid NOT NULL REFERENCES donations(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_role text NOT NULL CHECK (actor_role IN ('donor', 'shelter', 'volunteer', 'system')),
+  old_status text,
+  new_status text NOT NULL,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_events_donation_id ON donation_events(donation_id, created_at);
+
+CREATE OR REPLACE FUNCTION log_donation_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid := auth.uid();
+  v_actor_role text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Scheduled jobs run without a user
+  SELECT user_type INTO v_actor_role FROM profiles WHERE id = v_actor_id;
+  IF v_actor_role IS NULL THEN
+    v_actor_id := NULL;
+    v_actor_role := 'system';
+  END IF;
+
+  INSERT INTO donation_events (donation_id, actor_id, actor_role, old_status, new_status, reason)
+  VALUES (
+    NEW.id,
+    v_actor_id,
+    v_actor_role,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    CASE WHEN TG_OP = 'UPDATE' AND NEW.status_reason IS DISTINCT FROM OLD.status_reason THEN NEW.status_reason END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS donation_status_events ON donations;
+CREATE TRIGGER donation_status_events
+  AFTER INSERT OR UPDATE OF status ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION log_donation_event();
+
+-- Best-effort history for donations created before the log existed
+INSERT INTO donation_events (donation_id, actor_id, actor_role, old_status, new_status, created_at)
+SELECT d.id, d.donor_id, 'donor', NULL, 'pending', COALESCE(d.created_at, now())
+FROM donations d
+WHERE NOT EXISTS (SELECT 1 FROM donation_events e WHERE e.donation_id = d.id)
+  AND EXISTS (SELECT 1 FROM profiles p WHERE p.id = d.donor_id);
+
+INSERT INTO donation_events (donation_id, actor_id, actor_role, old_status, new_status, created_at)
+SELECT d.id, d.shelter_id, 'shelter', 'pending', 'accepted', d.accepted_at
+FROM donations d
+WHERE d.accepted_at IS NOT NULL
+  AND d.shelter_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM donation_events e WHERE e.donation_id = d.id AND e.new_status = 'accepted');
+
+INSERT INTO donation_events (donation_id, actor_id, actor_role, old_status, new_status, created_at)
+SELECT d.id, d.volunteer_id, 'volunteer', 'accepted', 'completed', d.completed_at
+FROM donations d
+WHERE d.completed_at IS NOT NULL
+  AND d.volunteer_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM donation_events e WHERE e.donation_id = d.id AND e.new_status = 'completed');
+
+ALTER TABLE donation_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parties can read donation events" ON donation_events;
+
+-- The donations policies decide who can see which donation
+CREATE POLICY "Parties can read donation events"
+  ON donation_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM donations
+      WHERE donations.id = donation_events.donation_id
+    )
+  );
@@ -0,0 +1,119 @@
+/*
+  # Donation Line Items
+
+  1. New Tables
+    - `donation_items`
+      - `id` (uuid, primary key)
+      - `donation_id` (uuid, references donations)
+      - `position` (integer, display order within the donation)
+      - `category` (text, one of the food type categories)
+      - `description` (text, optional, e.g. "Sourdough loaves")
+      - `quantity_amount` (numeric, greater than zero)
+      - `quantity_unit` (text, same units as donations)
+      - `notes` (text, optional per-item notes)
+
+  2. Summary Columns
+    - `donations.food_type` and `donations.quantity_amount`/`quantity_unit` stay as the summary of the items
+      so existing lists, impact totals and notifications keep working
+
+  3. New Functions
+    - `create_donation(p_donation jsonb, p_items jsonb)` inserts a donation and its items in one transaction
+
+  4. Data Migration
+    - Every existing donation gets a single item copied from its food type and quantity
+
+  5. Security
+    - Items are readable by anyone who can read the donation
+    - Donors can add items to their own pending donations
+*/
+
+CREATE TABLE IF NOT EXISTS donation_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donation_id uuid NOT NULL REFERENCES donations(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  category text NOT NULL,
+  description text,
+  quantity_amount numeric NOT NULL CHECK (quantity_amount > 0),
+  quantity_unit text NOT NULL CHECK (quantity_unit = ANY (ARRAY[
+    'kg'::text, 'lb'::text, 'servings'::text, 'items'::text, 'litres'::text
+  ])),
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_items_donation_id ON donation_items(donation_id, position);
+
+-- One item per existing donation
+INSERT INTO donation_items (donation_id, position, category, quantity_amount, quantity_unit)
+SELECT d.id, 0, d.food_type, d.quantity_amount, d.quantity_unit
+FROM donations d
+WHERE NOT EXISTS (SELECT 1 FROM donation_items i WHERE i.donation_id = d.id);
+
+ALTER TABLE donation_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parties can read donation items" ON donation_items;
+DROP POLICY IF EXISTS "Donors can add items to own donations" ON donation_items;
+
+CREATE POLICY "Parties can read donation items"
+  ON donation_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM donations
+      WHERE donations.id = donation_items.donation_id
+    )
+  );
+
+CREATE POLICY "Donors can add items to own donations"
+  ON donation_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM donations
+      WHERE donations.id = donation_items.donation_id
+        AND donations.donor_id = uid()
+        AND donations.status = 'pending'::text
+    )
+  );
+
+-- Runs as the caller so the donor insert policies still apply
+CREATE OR REPLACE FUNCTION create_donation(p_donation jsonb, p_items jsonb)
+RETURNS donations
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A donation needs at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO donations (
+    donor_id, donor_name, food_type, quantity_amount, quantity_unit,
+    pickup_location, pickup_coordinates, safe_until, notes, status
+  )
+  SELECT
+    auth.uid(), d.donor_name, d.food_type, d.quantity_amount, d.quantity_unit,
+    d.pickup_location, d.pickup_coordinates, d.safe_until, d.notes, 'pending'
+  FROM jsonb_populate_record(NULL::donations, p_donation) d
+  RETURNING * INTO v_donation;
+
+  INSERT INTO donation_items (donation_id, position, category, description, quantity_amount, quantity_unit, notes)
+  SELECT
+    v_donation.id,
+    e.position - 1,
+    e.item->>'category',
+    NULLIF(btrim(e.item->>'description'), ''),
+    (e.item->>'quantity_amount')::numeric,
+    e.item->>'quantity_unit',
+    NULLIF(btrim(e.item->>'notes'), '')
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position);
+
+  RETURN v_donation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_donation(jsonb, jsonb) TO authenticated;
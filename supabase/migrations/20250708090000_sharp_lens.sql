@@ -0,0 +1,177 @@
+/*
+  # Donation Photos
+
+  1. Storage
+    - Private `donation-photos` bucket, JPEG/PNG/WebP up to 5 MB
+    - Objects live under `<donation_id>/`, each photo has a full-size file and a `_thumb` file
+
+  2. New Tables
+    - `donation_photos`
+      - `id` (uuid, primary key)
+      - `donation_id` (uuid, references donations)
+      - `storage_path` (text, full-size object path in the bucket)
+      - `thumbnail_path` (text, thumbnail object path in the bucket)
+      - `position` (integer, display order)
+
+  3. Cleanup
+    - Donors remove photos as soon as they cancel a donation
+    - `donation_photos_to_purge()` lists photos of cancelled, expired and long-completed donations
+      plus uploads that never made it into `donation_photos`; the `purge-donation-photos` edge
+      function removes them through the Storage API every night
+
+  4. Security
+    - Photos are readable by anyone who can read the donation
+    - Donors can upload to and delete from their own donations, uploads only while pending
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('donation-photos', 'donation-photos', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS donation_photos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donation_id uuid NOT NULL REFERENCES donations(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  thumbnail_path text NOT NULL UNIQUE,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_photos_donation_id ON donation_photos(donation_id, position);
+
+ALTER TABLE donation_photos ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parties can read donation photos" ON donation_photos;
+DROP POLICY IF EXISTS "Donors can add photos to own donations" ON donation_photos;
+DROP POLICY IF EXISTS "Donors can delete photos from own donations" ON donation_photos;
+
+CREATE POLICY "Parties can read donation photos"
+  ON donation_photos
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM donations
+      WHERE donations.id = donation_photos.donation_id
+    )
+  );
+
+CREATE POLICY "Donors can add photos to own donations"
+  ON donation_photos
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM donations
+      WHERE donations.id = donation_photos.donation_id
+        AND donations.donor_id = uid()
+        AND donations.status = 'pending'::text
+    )
+  );
+
+CREATE POLICY "Donors can delete photos from own donations"
+  ON donation_photos
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM donations
+      WHERE donations.id = donation_photos.donation_id
+        AND donations.donor_id = uid()
+    )
+  );
+
+-- Storage objects, the first folder of the path is the donation id
+DROP POLICY IF EXISTS "Parties can read donation photo files" ON storage.objects;
+DROP POLICY IF EXISTS "Donors can upload donation photo files" ON storage.objects;
+DROP POLICY IF EXISTS "Donors can delete donation photo files" ON storage.objects;
+
+CREATE POLICY "Parties can read donation photo files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'donation-photos' AND
+    EXISTS (
+      SELECT 1 FROM public.donations
+      WHERE donations.id::text = (storage.foldername(objects.name))[1]
+    )
+  );
+
+CREATE POLICY "Donors can upload donation photo files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'donation-photos' AND
+    EXISTS (
+      SELECT 1 FROM public.donations
+      WHERE donations.id::text = (storage.foldername(objects.name))[1]
+        AND donations.donor_id = auth.uid()
+        AND donations.status = 'pending'::text
+    )
+  );
+
+CREATE POLICY "Donors can delete donation photo files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'donation-photos' AND
+    EXISTS (
+      SELECT 1 FROM public.donations
+      WHERE donations.id::text = (storage.foldername(objects.name))[1]
+        AND donations.donor_id = auth.uid()
+    )
+  );
+
+-- Photos nobody needs any more. Completed donations keep theirs for 30 days.
+CREATE OR REPLACE FUNCTION donation_photos_to_purge()
+RETURNS TABLE (storage_path text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT unnest(ARRAY[p.storage_path, p.thumbnail_path])
+  FROM donation_photos p
+  JOIN donations d ON d.id = p.donation_id
+  WHERE d.status IN ('cancelled', 'expired')
+     OR (d.status = 'completed' AND d.completed_at < now() - interval '30 days')
+
+  UNION ALL
+
+  -- Uploads from donations that failed to save
+  SELECT o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'donation-photos'
+    AND o.created_at < now() - interval '1 day'
+    AND NOT EXISTS (
+      SELECT 1 FROM donation_photos p
+      WHERE o.name IN (p.storage_path, p.thumbnail_path)
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION donation_photos_to_purge() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION donation_photos_to_purge() TO service_role;
+
+-- Nightly purge through the edge function, the Storage API has to remove the files.
+-- Expects `project_url`, `anon_key` and `purge_photos_secret` secrets in Vault. The anon key only gets the
+-- request past the gateway, the function refuses calls without the secret (its PURGE_PHOTOS_SECRET).
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-donation-photos',
+  '30 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-donation-photos',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'anon_key'),
+      'x-purge-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'purge_photos_secret')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
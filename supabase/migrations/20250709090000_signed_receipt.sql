@@ -0,0 +1,344 @@
+/*
+  # Two-Party Proof of Delivery
+
+  1. Schema Updates
+    - Add `delivered` and `disputed` to the donations status check constraint
+    - Add `delivered_at`, `delivery_recipient_name`, `disputed_at` and `discrepancy_type` to donations
+    - Add `kind` to donation_photos so volunteers can attach a delivery photo
+
+  2. Lifecycle
+    - claimed | in_transit -> delivered: the volunteer hands the food over, optionally naming who received it
+    - delivered -> completed: the shelter confirms receipt
+    - delivered -> disputed: the shelter reports a short or spoiled delivery
+    - disputed -> completed: the shelter or donor closes the problem with a note on how it was resolved
+    - Volunteers can no longer complete a donation on their own
+
+  3. New Functions
+    - `deliver_donation` (volunteers), `confirm_donation_receipt` and `report_delivery_discrepancy` (shelters)
+    - `resolve_delivery_discrepancy` (the shelter or donor)
+    - `complete_donation` is dropped
+    - `raise_donation_conflict` only reports the safe-until time for accept and claim
+
+  4. Security
+    - Assigned volunteers can upload a delivery photo while the pickup is claimed or in transit
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'delivered_at'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN delivered_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'delivery_recipient_name'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN delivery_recipient_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'disputed_at'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN disputed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'discrepancy_type'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN discrepancy_type text
+      CHECK (discrepancy_type = ANY (ARRAY['short'::text, 'spoiled'::text, 'other'::text]));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donation_photos' AND column_name = 'kind'
+  ) THEN
+    ALTER TABLE donation_photos ADD COLUMN kind text NOT NULL DEFAULT 'listing'
+      CHECK (kind = ANY (ARRAY['listing'::text, 'delivery'::text]));
+  END IF;
+END $$;
+
+ALTER TABLE donations DROP CONSTRAINT IF EXISTS donations_status_check;
+ALTER TABLE donations ADD CONSTRAINT donations_status_check
+  CHECK (status = ANY (ARRAY[
+    'pending'::text, 'accepted'::text, 'claimed'::text, 'in_transit'::text,
+    'delivered'::text, 'completed'::text, 'disputed'::text, 'cancelled'::text, 'expired'::text
+  ]));
+
+-- Completion now needs the shelter
+DELETE FROM donation_status_transitions WHERE to_status = 'completed';
+
+INSERT INTO donation_status_transitions (from_status, to_status, description) VALUES
+  ('claimed', 'delivered', 'Volunteer hands the food over'),
+  ('in_transit', 'delivered', 'Volunteer hands the food over'),
+  ('delivered', 'completed', 'Shelter confirms receipt'),
+  ('delivered', 'disputed', 'Shelter reports a short or spoiled delivery'),
+  ('disputed', 'completed', 'Shelter or donor resolves the reported problem')
+ON CONFLICT (from_status, to_status) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION update_donation_timestamps()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'accepted' AND OLD.status = 'pending' THEN
+    NEW.accepted_at = now();
+  END IF;
+
+  -- Declined by the shelter, back on offer
+  IF NEW.status = 'pending' AND OLD.status = 'accepted' THEN
+    NEW.accepted_at = NULL;
+  END IF;
+
+  IF NEW.status = 'claimed' AND OLD.status = 'accepted' THEN
+    NEW.claimed_at = now();
+  END IF;
+
+  -- Released by the volunteer, available to claim again
+  IF NEW.status = 'accepted' AND OLD.status = 'claimed' THEN
+    NEW.claimed_at = NULL;
+  END IF;
+
+  IF NEW.status = 'in_transit' AND OLD.status = 'claimed' THEN
+    NEW.picked_up_at = now();
+  END IF;
+
+  IF NEW.status = 'delivered' AND OLD.status IN ('claimed', 'in_transit') THEN
+    NEW.delivered_at = now();
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status IN ('delivered', 'disputed') THEN
+    NEW.completed_at = now();
+  END IF;
+
+  IF NEW.status = 'disputed' AND OLD.status = 'delivered' THEN
+    NEW.disputed_at = now();
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    NEW.cancelled_at = now();
+  END IF;
+
+  IF NEW.status = 'expired' AND OLD.status <> 'expired' THEN
+    NEW.expired_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS complete_donation(uuid);
+
+-- Food already handed over is past caring about its safe-until time
+CREATE OR REPLACE FUNCTION raise_donation_conflict(
+  p_donation_id uuid,
+  p_action text,
+  p_actor_column text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+  v_actor uuid;
+  v_message text;
+BEGIN
+  SELECT * INTO v_donation FROM donations WHERE id = p_donation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Donation not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  v_actor := CASE p_actor_column
+    WHEN 'donor_id' THEN v_donation.donor_id
+    WHEN 'shelter_id' THEN v_donation.shelter_id
+    WHEN 'volunteer_id' THEN v_donation.volunteer_id
+  END;
+
+  IF p_actor_column IS NOT NULL AND v_actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You are not assigned to this donation' USING ERRCODE = 'PT403';
+  END IF;
+
+  v_message := CASE
+    WHEN v_donation.status = 'cancelled' THEN 'This donation has been cancelled by the donor'
+    WHEN v_donation.status = 'expired' THEN 'This donation has passed its safe-until time'
+    WHEN p_action IN ('accept', 'claim') AND v_donation.safe_until <= now() THEN 'This donation has passed its safe-until time'
+    WHEN p_action = 'accept' AND v_donation.status <> 'pending' THEN 'This donation has already been taken by another shelter'
+    WHEN p_action = 'claim' AND v_donation.volunteer_id IS NOT NULL THEN 'This pickup has already been claimed by another volunteer'
+    ELSE format('Cannot %s a donation that is %s', p_action, replace(v_donation.status, '_', ' '))
+  END;
+
+  RAISE EXCEPTION '%', v_message USING ERRCODE = 'PT409', DETAIL = v_donation.status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION deliver_donation(p_donation_id uuid, p_recipient_name text)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  UPDATE donations
+  SET status = 'delivered', delivery_recipient_name = NULLIF(btrim(p_recipient_name), '')
+  WHERE id = p_donation_id
+    AND status IN ('claimed', 'in_transit')
+    AND volunteer_id = auth.uid()
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM raise_donation_conflict(p_donation_id, 'deliver', 'volunteer_id');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION confirm_donation_receipt(p_donation_id uuid)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  UPDATE donations
+  SET status = 'completed', status_reason = NULL
+  WHERE id = p_donation_id
+    AND status = 'delivered'
+    AND shelter_id = auth.uid()
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM raise_donation_conflict(p_donation_id, 'confirm receipt of', 'shelter_id');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION report_delivery_discrepancy(p_donation_id uuid, p_type text, p_reason text)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  PERFORM require_reason(p_reason);
+
+  IF p_type IS NULL OR p_type NOT IN ('short', 'spoiled', 'other') THEN
+    RAISE EXCEPTION 'Unknown discrepancy type %', p_type USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE donations
+  SET status = 'disputed', discrepancy_type = p_type, status_reason = btrim(p_reason)
+  WHERE id = p_donation_id
+    AND status = 'delivered'
+    AND shelter_id = auth.uid()
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM raise_donation_conflict(p_donation_id, 'report a problem with', 'shelter_id');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_delivery_discrepancy(p_donation_id uuid, p_resolution text)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  PERFORM require_reason(p_resolution);
+
+  UPDATE donations
+  SET status = 'completed', status_reason = btrim(p_resolution)
+  WHERE id = p_donation_id
+    AND status = 'disputed'
+    AND auth.uid() IN (shelter_id, donor_id)
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    IF EXISTS (
+      SELECT 1 FROM donations
+      WHERE id = p_donation_id
+        AND shelter_id IS DISTINCT FROM auth.uid()
+        AND donor_id IS DISTINCT FROM auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'You are not assigned to this donation' USING ERRCODE = 'PT403';
+    END IF;
+
+    PERFORM raise_donation_conflict(p_donation_id, 'resolve a problem with');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION deliver_donation(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION confirm_donation_receipt(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION report_delivery_discrepancy(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_delivery_discrepancy(uuid, text) TO authenticated;
+
+-- Delivery photos from the assigned volunteer
+DROP POLICY IF EXISTS "Volunteers can add delivery photos" ON donation_photos;
+DROP POLICY IF EXISTS "Volunteers can upload delivery photo files" ON storage.objects;
+
+CREATE POLICY "Volunteers can add delivery photos"
+  ON donation_photos
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    kind = 'delivery'::text AND
+    EXISTS (
+      SELECT 1 FROM donations
+      WHERE donations.id = donation_photos.donation_id
+        AND donations.volunteer_id = uid()
+        AND donations.status = ANY (ARRAY['claimed'::text, 'in_transit'::text])
+    )
+  );
+
+CREATE POLICY "Volunteers can upload delivery photo files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'donation-photos' AND
+    EXISTS (
+      SELECT 1 FROM public.donations
+      WHERE donations.id::text = (storage.foldername(objects.name))[1]
+        AND donations.volunteer_id = auth.uid()
+        AND donations.status = ANY (ARRAY['claimed'::text, 'in_transit'::text])
+    )
+  );
+
+-- Donor listing photos stay donor-only
+DROP POLICY IF EXISTS "Donors can add photos to own donations" ON donation_photos;
+
+CREATE POLICY "Donors can add photos to own donations"
+  ON donation_photos
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    kind = 'listing'::text AND
+    EXISTS (
+      SELECT 1 FROM donations
+      WHERE donations.id = donation_photos.donation_id
+        AND donations.donor_id = uid()
+        AND donations.status = 'pending'::text
+    )
+  );
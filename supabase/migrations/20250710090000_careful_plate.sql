@@ -0,0 +1,92 @@
+/*
+  # Allergen and Dietary Tags
+
+  1. Schema Updates
+    - `donations.allergens` (text[]) - allergens the food contains
+    - `donations.dietary_tags` (text[]) - diets the food is suitable for
+    - `profiles.excluded_allergens` (text[]) - shelters: allergens they cannot take
+    - `profiles.required_dietary_tags` (text[]) - shelters: diets every donation must suit
+
+  2. Functions
+    - `create_donation` copies the allergen and dietary tags from the donation payload
+
+  3. Indexes
+    - GIN indexes on the donation tag arrays for shelter filtering
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'allergens'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN allergens text[] NOT NULL DEFAULT '{}'
+      CHECK (allergens <@ ARRAY[
+        'peanuts', 'tree_nuts', 'gluten', 'dairy', 'eggs', 'soy', 'fish', 'shellfish', 'sesame'
+      ]::text[]);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'dietary_tags'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN dietary_tags text[] NOT NULL DEFAULT '{}'
+      CHECK (dietary_tags <@ ARRAY['vegan', 'vegetarian', 'halal', 'kosher']::text[]);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'excluded_allergens'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN excluded_allergens text[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'required_dietary_tags'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN required_dietary_tags text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_donations_allergens ON donations USING GIN (allergens);
+CREATE INDEX IF NOT EXISTS idx_donations_dietary_tags ON donations USING GIN (dietary_tags);
+
+CREATE OR REPLACE FUNCTION create_donation(p_donation jsonb, p_items jsonb)
+RETURNS donations
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A donation needs at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO donations (
+    donor_id, donor_name, food_type, quantity_amount, quantity_unit,
+    pickup_location, pickup_coordinates, safe_until, notes, status,
+    allergens, dietary_tags
+  )
+  SELECT
+    auth.uid(), d.donor_name, d.food_type, d.quantity_amount, d.quantity_unit,
+    d.pickup_location, d.pickup_coordinates, d.safe_until, d.notes, 'pending',
+    COALESCE(d.allergens, '{}'), COALESCE(d.dietary_tags, '{}')
+  FROM jsonb_populate_record(NULL::donations, p_donation) d
+  RETURNING * INTO v_donation;
+
+  INSERT INTO donation_items (donation_id, position, category, description, quantity_amount, quantity_unit, notes)
+  SELECT
+    v_donation.id,
+    e.position - 1,
+    e.item->>'category',
+    NULLIF(btrim(e.item->>'description'), ''),
+    (e.item->>'quantity_amount')::numeric,
+    e.item->>'quantity_unit',
+    NULLIF(btrim(e.item->>'notes'), '')
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position);
+
+  RETURN v_donation;
+END;
+$$;
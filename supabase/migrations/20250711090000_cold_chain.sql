@@ -0,0 +1,96 @@
+/*
+  # Food-Safety Checklist
+
+  1. Schema Updates
+    - `prepared_at` (timestamptz) - when the food was cooked or prepared
+    - `holding_temperature` (text) - how it has been held: hot, chilled, frozen or ambient
+    - `packaging` (text) - sealed, covered or open
+    - `needs_refrigeration` (boolean) - must stay chilled in transit
+    - `needs_freezer` (boolean) - must stay frozen in transit
+    - All nullable/false for donations created before the checklist existed
+
+  2. Functions
+    - `create_donation` copies the checklist answers from the donation payload
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'prepared_at'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN prepared_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'holding_temperature'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN holding_temperature text
+      CHECK (holding_temperature = ANY (ARRAY['hot'::text, 'chilled'::text, 'frozen'::text, 'ambient'::text]));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'packaging'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN packaging text
+      CHECK (packaging = ANY (ARRAY['sealed'::text, 'covered'::text, 'open'::text]));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'needs_refrigeration'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN needs_refrigeration boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'needs_freezer'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN needs_freezer boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION create_donation(p_donation jsonb, p_items jsonb)
+RETURNS donations
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A donation needs at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO donations (
+    donor_id, donor_name, food_type, quantity_amount, quantity_unit,
+    pickup_location, pickup_coordinates, safe_until, notes, status,
+    allergens, dietary_tags,
+    prepared_at, holding_temperature, packaging, needs_refrigeration, needs_freezer
+  )
+  SELECT
+    auth.uid(), d.donor_name, d.food_type, d.quantity_amount, d.quantity_unit,
+    d.pickup_location, d.pickup_coordinates, d.safe_until, d.notes, 'pending',
+    COALESCE(d.allergens, '{}'), COALESCE(d.dietary_tags, '{}'),
+    d.prepared_at, d.holding_temperature, d.packaging,
+    COALESCE(d.needs_refrigeration, false), COALESCE(d.needs_freezer, false)
+  FROM jsonb_populate_record(NULL::donations, p_donation) d
+  RETURNING * INTO v_donation;
+
+  INSERT INTO donation_items (donation_id, position, category, description, quantity_amount, quantity_unit, notes)
+  SELECT
+    v_donation.id,
+    e.position - 1,
+    e.item->>'category',
+    NULLIF(btrim(e.item->>'description'), ''),
+    (e.item->>'quantity_amount')::numeric,
+    e.item->>'quantity_unit',
+    NULLIF(btrim(e.item->>'notes'), '')
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position);
+
+  RETURN v_donation;
+END;
+$$;
@@ -0,0 +1,274 @@
+/*
+  # Recurring Donation Schedules
+
+  1. New Tables
+    - `donation_schedules` - a donor's repeating donation
+      - the donation template: donor name, pickup location, items, allergens, dietary tags and
+        food-safety answers
+      - `days_of_week` (smallint[]) - 0 = Sunday ... 6 = Saturday
+      - `ready_time` (time) and `timezone` (text) - when the food is ready on each of those days
+      - `safe_for_hours` (integer) - how long the food stays safe after it is ready
+      - `starts_on`, `ends_on` (date) and `skip_dates` (date[]) - bounds and one-off exceptions
+      - `paused` (boolean)
+      - `subscribed_shelter_id` - shelter that takes every occurrence
+
+  2. Schema Updates
+    - `donations.schedule_id` and `donations.occurrence_at` link a donation to the occurrence it
+      was created for. Unique so each occurrence is only posted once.
+
+  3. Functions
+    - `materialize_scheduled_donations()` posts a donation for every occurrence in the next
+      12 hours. Occurrences of subscribed schedules are accepted for the shelter straight away.
+      Runs every 15 minutes with pg_cron, which is the only caller. The horizon is capped at a day.
+    - `subscribe_to_schedule` / `unsubscribe_from_schedule` for shelters
+
+  4. Security
+    - Donors manage their own schedules, shelters can read active ones
+    - Only the subscription functions can change `subscribed_shelter_id`
+*/
+
+CREATE TABLE IF NOT EXISTS donation_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  donor_name text NOT NULL,
+  pickup_location text NOT NULL,
+  pickup_coordinates text,
+  notes text,
+  items jsonb NOT NULL CHECK (jsonb_typeof(items) = 'array' AND jsonb_array_length(items) > 0),
+  food_type text NOT NULL,
+  quantity_amount numeric NOT NULL CHECK (quantity_amount > 0),
+  quantity_unit text NOT NULL,
+  allergens text[] NOT NULL DEFAULT '{}',
+  dietary_tags text[] NOT NULL DEFAULT '{}',
+  holding_temperature text CHECK (holding_temperature = ANY (ARRAY['hot'::text, 'chilled'::text, 'frozen'::text, 'ambient'::text])),
+  packaging text CHECK (packaging = ANY (ARRAY['sealed'::text, 'covered'::text, 'open'::text])),
+  needs_refrigeration boolean NOT NULL DEFAULT false,
+  needs_freezer boolean NOT NULL DEFAULT false,
+  days_of_week smallint[] NOT NULL CHECK (
+    cardinality(days_of_week) > 0 AND days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]
+  ),
+  ready_time time NOT NULL,
+  timezone text NOT NULL DEFAULT 'UTC',
+  safe_for_hours integer NOT NULL DEFAULT 12 CHECK (safe_for_hours > 0),
+  starts_on date NOT NULL DEFAULT CURRENT_DATE,
+  ends_on date,
+  skip_dates date[] NOT NULL DEFAULT '{}',
+  paused boolean NOT NULL DEFAULT false,
+  subscribed_shelter_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_schedules_donor_id ON donation_schedules(donor_id);
+CREATE INDEX IF NOT EXISTS idx_donation_schedules_subscribed_shelter_id ON donation_schedules(subscribed_shelter_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'schedule_id'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN schedule_id uuid REFERENCES donation_schedules(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'occurrence_at'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN occurrence_at timestamptz;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_donations_schedule_occurrence ON donations(schedule_id, occurrence_at);
+
+ALTER TABLE donation_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Donors can manage own schedules" ON donation_schedules;
+DROP POLICY IF EXISTS "Shelters can read active schedules" ON donation_schedules;
+
+CREATE POLICY "Donors can manage own schedules"
+  ON donation_schedules
+  FOR ALL
+  TO authenticated
+  USING (donor_id = uid())
+  WITH CHECK (donor_id = uid());
+
+CREATE POLICY "Shelters can read active schedules"
+  ON donation_schedules
+  FOR SELECT
+  TO authenticated
+  USING (
+    (NOT paused OR subscribed_shelter_id = uid()) AND
+    (uid() IN (
+      SELECT profiles.id FROM profiles
+      WHERE (profiles.user_type = 'shelter'::text)
+    ))
+  );
+
+-- Subscriptions go through subscribe_to_schedule so a donor can't sign a shelter up
+REVOKE INSERT, UPDATE ON donation_schedules FROM authenticated;
+GRANT INSERT (
+  donor_id, donor_name, pickup_location, pickup_coordinates, notes, items, food_type,
+  quantity_amount, quantity_unit, allergens, dietary_tags, holding_temperature, packaging,
+  needs_refrigeration, needs_freezer, days_of_week, ready_time, timezone, safe_for_hours,
+  starts_on, ends_on, skip_dates, paused
+) ON donation_schedules TO authenticated;
+GRANT UPDATE (
+  donor_name, pickup_location, pickup_coordinates, notes, items, food_type,
+  quantity_amount, quantity_unit, allergens, dietary_tags, holding_temperature, packaging,
+  needs_refrigeration, needs_freezer, days_of_week, ready_time, timezone, safe_for_hours,
+  starts_on, ends_on, skip_dates, paused
+) ON donation_schedules TO authenticated;
+
+CREATE OR REPLACE FUNCTION subscribe_to_schedule(p_schedule_id uuid)
+RETURNS donation_schedules
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule donation_schedules%ROWTYPE;
+BEGIN
+  PERFORM require_user_type('shelter');
+
+  UPDATE donation_schedules
+  SET subscribed_shelter_id = auth.uid()
+  WHERE id = p_schedule_id
+    AND NOT paused
+    AND (subscribed_shelter_id IS NULL OR subscribed_shelter_id = auth.uid())
+  RETURNING * INTO v_schedule;
+
+  IF NOT FOUND THEN
+    IF NOT EXISTS (SELECT 1 FROM donation_schedules WHERE id = p_schedule_id) THEN
+      RAISE EXCEPTION 'Schedule not found' USING ERRCODE = 'PT404';
+    END IF;
+
+    RAISE EXCEPTION 'This schedule is paused or another shelter has already subscribed'
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  RETURN v_schedule;
+END;
+$$;
+
+-- Donations already accepted from the schedule stay with the shelter
+CREATE OR REPLACE FUNCTION unsubscribe_from_schedule(p_schedule_id uuid)
+RETURNS donation_schedules
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule donation_schedules%ROWTYPE;
+BEGIN
+  PERFORM require_user_type('shelter');
+
+  UPDATE donation_schedules
+  SET subscribed_shelter_id = NULL
+  WHERE id = p_schedule_id
+    AND subscribed_shelter_id = auth.uid()
+  RETURNING * INTO v_schedule;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not subscribed to this schedule' USING ERRCODE = 'PT403';
+  END IF;
+
+  RETURN v_schedule;
+END;
+$$;
+
+-- Post a donation for every schedule occurrence coming up within the horizon
+CREATE OR REPLACE FUNCTION materialize_scheduled_donations(p_horizon interval DEFAULT interval '12 hours')
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule donation_schedules%ROWTYPE;
+  v_occurrence timestamptz;
+  v_donation_id uuid;
+  v_created integer := 0;
+BEGIN
+  -- A long horizon would post days of donations at once, food that isn't ready yet
+  p_horizon := least(greatest(p_horizon, interval '0'), interval '1 day');
+
+  FOR v_schedule IN
+    SELECT * FROM donation_schedules
+    WHERE NOT paused
+      AND (ends_on IS NULL OR ends_on >= CURRENT_DATE - 1)
+  LOOP
+    FOR v_occurrence IN
+      SELECT (day::date + v_schedule.ready_time) AT TIME ZONE v_schedule.timezone
+      FROM generate_series(
+        (now() AT TIME ZONE v_schedule.timezone)::date,
+        ((now() + p_horizon) AT TIME ZONE v_schedule.timezone)::date,
+        interval '1 day'
+      ) AS day
+      WHERE extract(dow FROM day)::smallint = ANY (v_schedule.days_of_week)
+        AND day::date >= v_schedule.starts_on
+        AND (v_schedule.ends_on IS NULL OR day::date <= v_schedule.ends_on)
+        AND NOT (day::date = ANY (v_schedule.skip_dates))
+    LOOP
+      CONTINUE WHEN v_occurrence <= now() OR v_occurrence > now() + p_horizon;
+
+      INSERT INTO donations (
+        donor_id, donor_name, food_type, quantity_amount, quantity_unit,
+        pickup_location, pickup_coordinates, safe_until, notes, status,
+        allergens, dietary_tags,
+        holding_temperature, packaging, needs_refrigeration, needs_freezer,
+        schedule_id, occurrence_at
+      )
+      VALUES (
+        v_schedule.donor_id, v_schedule.donor_name, v_schedule.food_type, v_schedule.quantity_amount, v_schedule.quantity_unit,
+        v_schedule.pickup_location, v_schedule.pickup_coordinates,
+        v_occurrence + make_interval(hours => v_schedule.safe_for_hours), v_schedule.notes, 'pending',
+        v_schedule.allergens, v_schedule.dietary_tags,
+        v_schedule.holding_temperature, v_schedule.packaging, v_schedule.needs_refrigeration, v_schedule.needs_freezer,
+        v_schedule.id, v_occurrence
+      )
+      ON CONFLICT (schedule_id, occurrence_at) DO NOTHING
+      RETURNING id INTO v_donation_id;
+
+      CONTINUE WHEN v_donation_id IS NULL;
+
+      INSERT INTO donation_items (donation_id, position, category, description, quantity_amount, quantity_unit, notes)
+      SELECT
+        v_donation_id,
+        e.position - 1,
+        e.item->>'category',
+        NULLIF(btrim(e.item->>'description'), ''),
+        (e.item->>'quantity_amount')::numeric,
+        e.item->>'quantity_unit',
+        NULLIF(btrim(e.item->>'notes'), '')
+      FROM jsonb_array_elements(v_schedule.items) WITH ORDINALITY AS e(item, position);
+
+      -- Goes through the normal pending -> accepted transition so it shows up in the timeline
+      IF v_schedule.subscribed_shelter_id IS NOT NULL THEN
+        UPDATE donations
+        SET status = 'accepted',
+            shelter_id = v_schedule.subscribed_shelter_id,
+            status_reason = 'Accepted automatically by schedule subscription'
+        WHERE id = v_donation_id;
+      END IF;
+
+      v_created := v_created + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION materialize_scheduled_donations(interval) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION subscribe_to_schedule(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION unsubscribe_from_schedule(uuid) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION subscribe_to_schedule(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION unsubscribe_from_schedule(uuid) TO authenticated;
+
+SELECT cron.schedule(
+  'materialize-scheduled-donations',
+  '*/15 * * * *',
+  $$SELECT materialize_scheduled_donations()$$
+);
@@ -0,0 +1,238 @@
+/*
+  # Pickup Windows and Slot Booking
+
+  1. New Tables
+    - `donation_pickup_windows` - times the donor is around to hand the food over
+      - `donation_id`, `starts_at`, `ends_at`
+
+  2. Schema Updates
+    - `pickup_slot_starts_at` / `pickup_slot_ends_at` on donations - the 30 minute slot the
+      volunteer booked when claiming
+
+  3. Functions
+    - `create_donation` takes the pickup windows as a third argument
+    - `claim_donation` takes the slot start. Donations with pickup windows need a slot inside
+      one of them.
+    - `release_donation` frees the booked slot
+
+  4. Security
+    - Parties to a donation can read its windows, donors add them while it is pending
+    - A trigger checks every window ends in the future and no later than the safe-until time
+*/
+
+CREATE TABLE IF NOT EXISTS donation_pickup_windows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donation_id uuid NOT NULL REFERENCES donations(id) ON DELETE CASCADE,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_pickup_windows_donation_id ON donation_pickup_windows(donation_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'pickup_slot_starts_at'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN pickup_slot_starts_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'pickup_slot_ends_at'
+  ) THEN
+    ALTER TABLE donations ADD COLUMN pickup_slot_ends_at timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE donation_pickup_windows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parties can read pickup windows" ON donation_pickup_windows;
+DROP POLICY IF EXISTS "Donors can add pickup windows to own donations" ON donation_pickup_windows;
+
+CREATE POLICY "Parties can read pickup windows"
+  ON donation_pickup_windows
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM donations
+      WHERE donations.id = donation_pickup_windows.donation_id
+    )
+  );
+
+CREATE POLICY "Donors can add pickup windows to own donations"
+  ON donation_pickup_windows
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM donations
+      WHERE donations.id = donation_pickup_windows.donation_id
+        AND donations.donor_id = uid()
+        AND donations.status = 'pending'::text
+    )
+  );
+
+-- Checked on the row rather than in create_donation, so windows added straight into the
+-- table follow the same rule
+CREATE OR REPLACE FUNCTION check_pickup_window()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.ends_at <= now() OR NEW.ends_at > (SELECT safe_until FROM donations WHERE id = NEW.donation_id) THEN
+    RAISE EXCEPTION 'Pickup windows must end in the future and before the safe-until time'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS pickup_window_check ON donation_pickup_windows;
+CREATE TRIGGER pickup_window_check
+  BEFORE INSERT OR UPDATE ON donation_pickup_windows
+  FOR EACH ROW
+  EXECUTE FUNCTION check_pickup_window();
+
+DROP FUNCTION IF EXISTS create_donation(jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION create_donation(p_donation jsonb, p_items jsonb, p_pickup_windows jsonb DEFAULT '[]'::jsonb)
+RETURNS donations
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A donation needs at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(p_pickup_windows) <> 'array' THEN
+    RAISE EXCEPTION 'Pickup windows must be a list' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO donations (
+    donor_id, donor_name, food_type, quantity_amount, quantity_unit,
+    pickup_location, pickup_coordinates, safe_until, notes, status,
+    allergens, dietary_tags,
+    prepared_at, holding_temperature, packaging, needs_refrigeration, needs_freezer
+  )
+  SELECT
+    auth.uid(), d.donor_name, d.food_type, d.quantity_amount, d.quantity_unit,
+    d.pickup_location, d.pickup_coordinates, d.safe_until, d.notes, 'pending',
+    COALESCE(d.allergens, '{}'), COALESCE(d.dietary_tags, '{}'),
+    d.prepared_at, d.holding_temperature, d.packaging,
+    COALESCE(d.needs_refrigeration, false), COALESCE(d.needs_freezer, false)
+  FROM jsonb_populate_record(NULL::donations, p_donation) d
+  RETURNING * INTO v_donation;
+
+  INSERT INTO donation_items (donation_id, position, category, description, quantity_amount, quantity_unit, notes)
+  SELECT
+    v_donation.id,
+    e.position - 1,
+    e.item->>'category',
+    NULLIF(btrim(e.item->>'description'), ''),
+    (e.item->>'quantity_amount')::numeric,
+    e.item->>'quantity_unit',
+    NULLIF(btrim(e.item->>'notes'), '')
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position);
+
+  INSERT INTO donation_pickup_windows (donation_id, starts_at, ends_at)
+  SELECT v_donation.id, (w->>'starts_at')::timestamptz, (w->>'ends_at')::timestamptz
+  FROM jsonb_array_elements(p_pickup_windows) AS w;
+
+  RETURN v_donation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_donation(jsonb, jsonb, jsonb) TO authenticated;
+
+DROP FUNCTION IF EXISTS claim_donation(uuid);
+
+-- Slots are 30 minutes; keep PICKUP_SLOT_MINUTES in src/lib/pickupWindows.ts in step
+CREATE OR REPLACE FUNCTION claim_donation(p_donation_id uuid, p_slot_starts_at timestamptz DEFAULT NULL)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+  v_slot_ends_at timestamptz := p_slot_starts_at + interval '30 minutes';
+BEGIN
+  PERFORM require_user_type('volunteer');
+
+  IF EXISTS (SELECT 1 FROM donation_pickup_windows WHERE donation_id = p_donation_id) THEN
+    IF p_slot_starts_at IS NULL THEN
+      RAISE EXCEPTION 'Please book a pickup slot' USING ERRCODE = '22023';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM donation_pickup_windows
+      WHERE donation_id = p_donation_id
+        AND starts_at <= p_slot_starts_at
+        AND ends_at >= v_slot_ends_at
+    ) THEN
+      RAISE EXCEPTION 'That slot is outside the donor''s pickup windows' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF v_slot_ends_at <= now() THEN
+    RAISE EXCEPTION 'That slot has already passed' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE donations
+  SET status = 'claimed',
+      volunteer_id = auth.uid(),
+      status_reason = NULL,
+      pickup_slot_starts_at = p_slot_starts_at,
+      pickup_slot_ends_at = v_slot_ends_at
+  WHERE id = p_donation_id
+    AND status = 'accepted'
+    AND volunteer_id IS NULL
+    AND safe_until > now()
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM raise_donation_conflict(p_donation_id, 'claim');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_donation(p_donation_id uuid, p_reason text)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  PERFORM require_reason(p_reason);
+
+  UPDATE donations
+  SET status = 'accepted',
+      volunteer_id = NULL,
+      status_reason = btrim(p_reason),
+      pickup_slot_starts_at = NULL,
+      pickup_slot_ends_at = NULL
+  WHERE id = p_donation_id
+    AND status = 'claimed'
+    AND volunteer_id = auth.uid()
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM raise_donation_conflict(p_donation_id, 'release', 'volunteer_id');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_donation(uuid, timestamptz) TO authenticated;
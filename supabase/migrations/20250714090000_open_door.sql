@@ -0,0 +1,31 @@
+/*
+  # Shared Contact Details
+
+  1. Functions
+    - `donation_contacts(p_donation_id)` - name and phone of the donor, shelter and volunteer on a
+      donation, for the donation detail page. Only answers parties to that donation, and returns
+      nothing else from their profiles.
+
+  2. Security
+    - Profiles stay readable by their owner only. The earlier row-level policy for parties is dropped.
+*/
+
+DROP POLICY IF EXISTS "Parties can read each other's profiles" ON profiles;
+DROP FUNCTION IF EXISTS shares_donation_with(uuid);
+
+CREATE OR REPLACE FUNCTION donation_contacts(p_donation_id uuid)
+RETURNS TABLE (id uuid, name text, phone text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.name, p.phone
+  FROM donations d
+  JOIN profiles p ON p.id IN (d.donor_id, d.shelter_id, d.volunteer_id)
+  WHERE d.id = p_donation_id
+    AND auth.uid() IN (d.donor_id, d.shelter_id, d.volunteer_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION donation_contacts(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION donation_contacts(uuid) TO authenticated;
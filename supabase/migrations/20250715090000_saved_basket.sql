@@ -0,0 +1,42 @@
+/*
+  # Donation Templates
+
+  1. New Tables
+    - `donation_templates` - a donor's named, reusable donation (e.g. "Friday bread surplus")
+      - `name` (text) - unique per donor
+      - the same donation fields a schedule keeps: donor name, pickup location, notes, items,
+        allergens, dietary tags and food-safety answers. No times, those change every donation.
+
+  2. Security
+    - Donors manage their own templates
+*/
+
+CREATE TABLE IF NOT EXISTS donation_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  donor_name text NOT NULL,
+  pickup_location text NOT NULL,
+  pickup_coordinates text,
+  notes text,
+  items jsonb NOT NULL CHECK (jsonb_typeof(items) = 'array' AND jsonb_array_length(items) > 0),
+  allergens text[] NOT NULL DEFAULT '{}',
+  dietary_tags text[] NOT NULL DEFAULT '{}',
+  holding_temperature text CHECK (holding_temperature = ANY (ARRAY['hot'::text, 'chilled'::text, 'frozen'::text, 'ambient'::text])),
+  packaging text CHECK (packaging = ANY (ARRAY['sealed'::text, 'covered'::text, 'open'::text])),
+  needs_refrigeration boolean NOT NULL DEFAULT false,
+  needs_freezer boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (donor_id, name)
+);
+
+ALTER TABLE donation_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Donors can manage own templates" ON donation_templates;
+
+CREATE POLICY "Donors can manage own templates"
+  ON donation_templates
+  FOR ALL
+  TO authenticated
+  USING (donor_id = uid())
+  WITH CHECK (donor_id = uid());
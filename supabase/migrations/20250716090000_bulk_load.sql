@@ -0,0 +1,44 @@
+/*
+  # Bulk Donation Import
+
+  1. Functions
+    - `import_donations(p_rows)` - posts many donations in one transaction for the import page.
+      Each element of `p_rows` is `{ "donation": {...}, "items": [...] }`, the same arguments
+      `create_donation` takes. Any failing row rolls back the whole import and the error names
+      the row, so donors never end up with half a spreadsheet posted.
+      Capped at 200 rows per call; keep MAX_IMPORT_ROWS in src/lib/donationImport.ts in step.
+      Runs as the caller like `create_donation`, so the donations insert policy still applies.
+*/
+
+CREATE OR REPLACE FUNCTION import_donations(p_rows jsonb)
+RETURNS SETOF donations
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_donation donations%ROWTYPE;
+BEGIN
+  IF jsonb_typeof(p_rows) <> 'array' OR jsonb_array_length(p_rows) = 0 THEN
+    RAISE EXCEPTION 'Nothing to import' USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_array_length(p_rows) > 200 THEN
+    RAISE EXCEPTION 'Import at most 200 donations at a time' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_row IN
+    SELECT r.value, r.position FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, position)
+  LOOP
+    BEGIN
+      v_donation := create_donation(v_row.value->'donation', COALESCE(v_row.value->'items', '[]'::jsonb));
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Row %: %', v_row.position, SQLERRM USING ERRCODE = SQLSTATE;
+    END;
+
+    RETURN NEXT v_donation;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_donations(jsonb) TO authenticated;
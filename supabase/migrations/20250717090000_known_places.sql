@@ -0,0 +1,32 @@
+/*
+  # Geocode Cache
+
+  1. New Tables
+    - `geocode_cache` - results from the configured geocoder, keyed by provider and normalized
+      address so switching providers doesn't serve the old provider's answers
+      - `found` (boolean) - false records an address the provider doesn't know
+      - `label`, `latitude`, `longitude` - the match, when found
+      - `created_at` - hits are treated as fresh for 90 days and misses for 1 day
+
+  2. Security
+    - Every user shares the cache, and its keys are the addresses people searched for, so only the
+      `geocode` edge function reads or writes it. The table has no client policies.
+*/
+
+CREATE TABLE IF NOT EXISTS geocode_cache (
+  provider text NOT NULL,
+  query text NOT NULL,
+  found boolean NOT NULL,
+  label text,
+  latitude double precision,
+  longitude double precision,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (provider, query),
+  CHECK (NOT found OR (latitude IS NOT NULL AND longitude IS NOT NULL))
+);
+
+ALTER TABLE geocode_cache ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read geocode cache" ON geocode_cache;
+DROP POLICY IF EXISTS "Users can add to geocode cache" ON geocode_cache;
+DROP POLICY IF EXISTS "Users can refresh geocode cache" ON geocode_cache;
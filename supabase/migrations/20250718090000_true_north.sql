@@ -0,0 +1,242 @@
+/*
+  # PostGIS Pickup Points
+
+  1. Schema Updates
+    - `donations`, `donation_schedules` and `donation_templates`
+      - `pickup_point` (geography(Point, 4326)) replaces the `pickup_coordinates` text "(lat,lng)".
+        Existing values are converted, unreadable ones become NULL.
+      - `pickup_lat`, `pickup_lng` - generated from `pickup_point` so the app can read the point
+        without parsing EWKB
+    - `profiles`
+      - `location_label`, `location_point`, `location_lat`, `location_lng` - where a shelter or
+        volunteer is based, used for "2.3 km away" and the distance filter
+    - Spatial index on `donations.pickup_point`
+
+  2. Functions
+    - `create_donation` and `materialize_scheduled_donations` write `pickup_point`
+    - `donations_within(p_lat, p_lng, p_radius_km)` - donations the caller can see within the
+      radius, nearest first. Runs as the caller so the usual donation policies apply.
+
+  3. Notes
+    - The app writes points as EWKT, `SRID=4326;POINT(lng lat)`. Longitude comes first.
+*/
+
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+CREATE FUNCTION pg_temp.parse_legacy_coordinates(p_coordinates text)
+RETURNS geography
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_coordinates ~ '^\(\s*-?[0-9.]+\s*,\s*-?[0-9.]+\s*\)$' THEN
+      ST_SetSRID(ST_MakePoint(
+        split_part(btrim(p_coordinates, '()'), ',', 2)::double precision,
+        split_part(btrim(p_coordinates, '()'), ',', 1)::double precision
+      ), 4326)::geography
+  END
+$$;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['donations', 'donation_schedules', 'donation_templates'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = v_table AND column_name = 'pickup_point'
+    ) THEN
+      EXECUTE format('ALTER TABLE %I ADD COLUMN pickup_point geography(Point, 4326)', v_table);
+      EXECUTE format(
+        'ALTER TABLE %I ADD COLUMN pickup_lat double precision GENERATED ALWAYS AS (ST_Y(pickup_point::geometry)) STORED',
+        v_table
+      );
+      EXECUTE format(
+        'ALTER TABLE %I ADD COLUMN pickup_lng double precision GENERATED ALWAYS AS (ST_X(pickup_point::geometry)) STORED',
+        v_table
+      );
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = v_table AND column_name = 'pickup_coordinates'
+    ) THEN
+      EXECUTE format(
+        'UPDATE %I SET pickup_point = pg_temp.parse_legacy_coordinates(pickup_coordinates) WHERE pickup_coordinates IS NOT NULL',
+        v_table
+      );
+      EXECUTE format('ALTER TABLE %I DROP COLUMN pickup_coordinates', v_table);
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'location_point'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN location_label text;
+    ALTER TABLE profiles ADD COLUMN location_point geography(Point, 4326);
+    ALTER TABLE profiles ADD COLUMN location_lat double precision GENERATED ALWAYS AS (ST_Y(location_point::geometry)) STORED;
+    ALTER TABLE profiles ADD COLUMN location_lng double precision GENERATED ALWAYS AS (ST_X(location_point::geometry)) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_donations_pickup_point ON donations USING gist (pickup_point);
+
+-- Column grants were listed by name in steady_rhythm
+GRANT INSERT (pickup_point), UPDATE (pickup_point) ON donation_schedules TO authenticated;
+
+CREATE OR REPLACE FUNCTION create_donation(p_donation jsonb, p_items jsonb, p_pickup_windows jsonb DEFAULT '[]'::jsonb)
+RETURNS donations
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A donation needs at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(p_pickup_windows) <> 'array' THEN
+    RAISE EXCEPTION 'Pickup windows must be a list' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO donations (
+    donor_id, donor_name, food_type, quantity_amount, quantity_unit,
+    pickup_location, pickup_point, safe_until, notes, status,
+    allergens, dietary_tags,
+    prepared_at, holding_temperature, packaging, needs_refrigeration, needs_freezer
+  )
+  SELECT
+    auth.uid(), d.donor_name, d.food_type, d.quantity_amount, d.quantity_unit,
+    d.pickup_location, d.pickup_point, d.safe_until, d.notes, 'pending',
+    COALESCE(d.allergens, '{}'), COALESCE(d.dietary_tags, '{}'),
+    d.prepared_at, d.holding_temperature, d.packaging,
+    COALESCE(d.needs_refrigeration, false), COALESCE(d.needs_freezer, false)
+  FROM jsonb_populate_record(NULL::donations, p_donation) d
+  RETURNING * INTO v_donation;
+
+  INSERT INTO donation_items (donation_id, position, category, description, quantity_amount, quantity_unit, notes)
+  SELECT
+    v_donation.id,
+    e.position - 1,
+    e.item->>'category',
+    NULLIF(btrim(e.item->>'description'), ''),
+    (e.item->>'quantity_amount')::numeric,
+    e.item->>'quantity_unit',
+    NULLIF(btrim(e.item->>'notes'), '')
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position);
+
+  INSERT INTO donation_pickup_windows (donation_id, starts_at, ends_at)
+  SELECT v_donation.id, (w->>'starts_at')::timestamptz, (w->>'ends_at')::timestamptz
+  FROM jsonb_array_elements(p_pickup_windows) AS w;
+
+  RETURN v_donation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION materialize_scheduled_donations(p_horizon interval DEFAULT interval '12 hours')
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule donation_schedules%ROWTYPE;
+  v_occurrence timestamptz;
+  v_donation_id uuid;
+  v_created integer := 0;
+BEGIN
+  -- A long horizon would post days of donations at once, food that isn't ready yet
+  p_horizon := least(greatest(p_horizon, interval '0'), interval '1 day');
+
+  FOR v_schedule IN
+    SELECT * FROM donation_schedules
+    WHERE NOT paused
+      AND (ends_on IS NULL OR ends_on >= CURRENT_DATE - 1)
+  LOOP
+    FOR v_occurrence IN
+      SELECT (day::date + v_schedule.ready_time) AT TIME ZONE v_schedule.timezone
+      FROM generate_series(
+        (now() AT TIME ZONE v_schedule.timezone)::date,
+        ((now() + p_horizon) AT TIME ZONE v_schedule.timezone)::date,
+        interval '1 day'
+      ) AS day
+      WHERE extract(dow FROM day)::smallint = ANY (v_schedule.days_of_week)
+        AND day::date >= v_schedule.starts_on
+        AND (v_schedule.ends_on IS NULL OR day::date <= v_schedule.ends_on)
+        AND NOT (day::date = ANY (v_schedule.skip_dates))
+    LOOP
+      CONTINUE WHEN v_occurrence <= now() OR v_occurrence > now() + p_horizon;
+
+      INSERT INTO donations (
+        donor_id, donor_name, food_type, quantity_amount, quantity_unit,
+        pickup_location, pickup_point, safe_until, notes, status,
+        allergens, dietary_tags,
+        holding_temperature, packaging, needs_refrigeration, needs_freezer,
+        schedule_id, occurrence_at
+      )
+      VALUES (
+        v_schedule.donor_id, v_schedule.donor_name, v_schedule.food_type, v_schedule.quantity_amount, v_schedule.quantity_unit,
+        v_schedule.pickup_location, v_schedule.pickup_point,
+        v_occurrence + make_interval(hours => v_schedule.safe_for_hours), v_schedule.notes, 'pending',
+        v_schedule.allergens, v_schedule.dietary_tags,
+        v_schedule.holding_temperature, v_schedule.packaging, v_schedule.needs_refrigeration, v_schedule.needs_freezer,
+        v_schedule.id, v_occurrence
+      )
+      ON CONFLICT (schedule_id, occurrence_at) DO NOTHING
+      RETURNING id INTO v_donation_id;
+
+      CONTINUE WHEN v_donation_id IS NULL;
+
+      INSERT INTO donation_items (donation_id, position, category, description, quantity_amount, quantity_unit, notes)
+      SELECT
+        v_donation_id,
+        e.position - 1,
+        e.item->>'category',
+        NULLIF(btrim(e.item->>'description'), ''),
+        (e.item->>'quantity_amount')::numeric,
+        e.item->>'quantity_unit',
+        NULLIF(btrim(e.item->>'notes'), '')
+      FROM jsonb_array_elements(v_schedule.items) WITH ORDINALITY AS e(item, position);
+
+      -- Goes through the normal pending -> accepted transition so it shows up in the timeline
+      IF v_schedule.subscribed_shelter_id IS NOT NULL THEN
+        UPDATE donations
+        SET status = 'accepted',
+            shelter_id = v_schedule.subscribed_shelter_id,
+            status_reason = 'Accepted automatically by schedule subscription'
+        WHERE id = v_donation_id;
+      END IF;
+
+      v_created := v_created + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION materialize_scheduled_donations(interval) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION donations_within(p_lat double precision, p_lng double precision, p_radius_km double precision)
+RETURNS SETOF donations
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_origin geography := ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326)::geography;
+BEGIN
+  IF p_radius_km IS NULL OR p_radius_km <= 0 THEN
+    RAISE EXCEPTION 'Radius must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT d.* FROM donations d
+  WHERE ST_DWithin(d.pickup_point, v_origin, p_radius_km * 1000)
+  ORDER BY d.pickup_point <-> v_origin;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION donations_within(double precision, double precision, double precision) TO authenticated;
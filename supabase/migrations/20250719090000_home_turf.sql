@@ -0,0 +1,47 @@
+/*
+  # Shelter Service Areas
+
+  1. Schema Updates
+    - `profiles`
+      - `service_radius_km` (numeric, nullable) - how far from `location_point` a shelter takes
+        donations. NULL, or no location, means the shelter covers everywhere.
+
+  2. Functions
+    - `service_area_donations()` - donations the caller can see that fall inside their service area,
+      plus donations they already hold as the shelter. Runs as the caller so the usual donation
+      policies apply. Callers without a service area get everything they can see.
+
+  3. Notes
+    - Donations that were never placed on the map (no `pickup_point`) are kept in every service area,
+      hiding them would mean no shelter ever sees them. The client flags them as location unknown.
+    - `isInServiceArea` in src/lib/serviceArea.ts mirrors this for realtime events; keep them in step.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'service_radius_km'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN service_radius_km numeric
+      CHECK (service_radius_km > 0 AND service_radius_km <= 500);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION service_area_donations()
+RETURNS SETOF donations
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT d.*
+  FROM donations d
+  LEFT JOIN profiles p ON p.id = auth.uid()
+  WHERE p.location_point IS NULL
+     OR p.service_radius_km IS NULL
+     OR d.pickup_point IS NULL
+     OR d.shelter_id = auth.uid()
+     OR ST_DWithin(d.pickup_point, p.location_point, p.service_radius_km * 1000);
+$$;
+
+GRANT EXECUTE ON FUNCTION service_area_donations() TO authenticated;
@@ -0,0 +1,242 @@
+/*
+  # Donation Matching
+
+  1. Schema Updates
+    - `profiles`
+      - `daily_capacity_kg` (numeric, nullable) - shelters: roughly how much food they can take in a day
+      - `preferred_categories` (text[]) - shelters: food categories they especially want
+    - New `donation_matches` table - the shelters ranked for each donation, best first
+      - `shelter_name` is copied in so donors can see it before the shelter shares a donation with them
+      - `reasons` - short explanations shown next to the suggestion
+
+  2. Functions
+    - `quantity_kilograms(amount, unit)` - same weights as KG_PER_UNIT in src/lib/quantity.ts
+    - `match_donation(p_donation_id, p_excluded_shelter_id)` - scores every shelter that can take the
+      donation and stores the best 10
+    - Donations are matched when they are created, once their items are in (the trigger is deferred to
+      the end of the transaction), and again when a shelter declines one, leaving that shelter out
+
+  3. Scoring
+    - Only shelters whose dietary preferences and service area allow the donation are candidates
+    - Score = 0.35 distance + 0.25 capacity + 0.2 food category + 0.2 fairness, each between 0 and 1
+      - distance: 1 at the shelter's door, 0 at the edge of its service area (50 km without one)
+      - capacity: how much of the donation fits in what's left of today's declared capacity
+      - food category: whether the items include a category the shelter prefers
+      - fairness: shelters that took in less over the last 7 days score higher
+    - Anything the shelter hasn't told us about scores a neutral 0.5
+
+  4. Security
+    - Donors read the matches for their donations, shelters read their own rows
+    - Only the trigger writes matches
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'daily_capacity_kg'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN daily_capacity_kg numeric CHECK (daily_capacity_kg > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'preferred_categories'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN preferred_categories text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS donation_matches (
+  donation_id uuid NOT NULL REFERENCES donations(id) ON DELETE CASCADE,
+  shelter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  shelter_name text NOT NULL,
+  rank integer NOT NULL CHECK (rank > 0),
+  score numeric NOT NULL,
+  distance_km numeric,
+  reasons text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (donation_id, shelter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_matches_shelter_id ON donation_matches(shelter_id, rank);
+
+ALTER TABLE donation_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Donors can read matches for their donations" ON donation_matches;
+DROP POLICY IF EXISTS "Shelters can read their own matches" ON donation_matches;
+
+CREATE POLICY "Donors can read matches for their donations"
+  ON donation_matches
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM donations
+      WHERE donations.id = donation_matches.donation_id
+        AND donations.donor_id = uid()
+    )
+  );
+
+CREATE POLICY "Shelters can read their own matches"
+  ON donation_matches
+  FOR SELECT
+  TO authenticated
+  USING (shelter_id = uid());
+
+CREATE OR REPLACE FUNCTION quantity_kilograms(p_amount numeric, p_unit text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_amount * CASE p_unit
+    WHEN 'kg' THEN 1
+    WHEN 'lb' THEN 0.45359237
+    WHEN 'servings' THEN 0.4
+    WHEN 'items' THEN 0.5
+    WHEN 'litres' THEN 1
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION match_donation(p_donation_id uuid, p_excluded_shelter_id uuid DEFAULT NULL)
+RETURNS SETOF donation_matches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+  v_kg numeric;
+  v_categories text[];
+  -- Vegan food suits shelters that need vegetarian
+  v_suits text[];
+BEGIN
+  SELECT * INTO v_donation FROM donations WHERE id = p_donation_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Donation not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  SELECT COALESCE(sum(quantity_kilograms(quantity_amount, quantity_unit)), 0), COALESCE(array_agg(DISTINCT category), '{}')
+  INTO v_kg, v_categories
+  FROM donation_items
+  WHERE donation_id = p_donation_id;
+
+  v_suits := v_donation.dietary_tags
+    || CASE WHEN 'vegan' = ANY (v_donation.dietary_tags) THEN ARRAY['vegetarian'] ELSE '{}'::text[] END;
+
+  DELETE FROM donation_matches WHERE donation_id = p_donation_id;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      p.id,
+      p.name,
+      p.daily_capacity_kg,
+      (ST_Distance(v_donation.pickup_point, p.location_point) / 1000)::numeric AS distance_km,
+      COALESCE(p.service_radius_km, 50) AS reach_km,
+      cardinality(p.preferred_categories) = 0 AS no_preference,
+      p.preferred_categories && v_categories AS preferred,
+      (
+        SELECT COALESCE(sum(quantity_kilograms(d.quantity_amount, d.quantity_unit)), 0)
+        FROM donations d
+        WHERE d.shelter_id = p.id
+          AND d.accepted_at > now() - interval '1 day'
+          AND d.status NOT IN ('cancelled', 'expired')
+      ) AS intake_today_kg,
+      (
+        SELECT COALESCE(sum(quantity_kilograms(d.quantity_amount, d.quantity_unit)), 0)
+        FROM donations d
+        WHERE d.shelter_id = p.id
+          AND d.accepted_at > now() - interval '7 days'
+          AND d.status NOT IN ('cancelled', 'expired')
+      ) AS intake_week_kg
+    FROM profiles p
+    WHERE p.user_type = 'shelter'
+      AND p.id IS DISTINCT FROM p_excluded_shelter_id
+      AND NOT (p.excluded_allergens && v_donation.allergens)
+      AND p.required_dietary_tags <@ v_suits
+      AND (
+        p.location_point IS NULL
+        OR p.service_radius_km IS NULL
+        OR v_donation.pickup_point IS NULL
+        OR ST_DWithin(v_donation.pickup_point, p.location_point, p.service_radius_km * 1000)
+      )
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      CASE WHEN c.distance_km IS NULL THEN 0.5 ELSE greatest(0, 1 - c.distance_km / c.reach_km) END AS distance_score,
+      CASE
+        WHEN c.daily_capacity_kg IS NULL THEN 0.5
+        WHEN v_kg = 0 OR c.intake_today_kg + v_kg <= c.daily_capacity_kg THEN 1
+        ELSE greatest(0, (c.daily_capacity_kg - c.intake_today_kg) / v_kg)
+      END AS capacity_score,
+      CASE WHEN c.no_preference THEN 0.5 WHEN c.preferred THEN 1 ELSE 0 END AS category_score,
+      1 / (1 + c.intake_week_kg / 100) AS fairness_score
+    FROM candidates c
+  ),
+  ranked AS (
+    SELECT
+      s.*,
+      0.35 * s.distance_score + 0.25 * s.capacity_score + 0.2 * s.category_score + 0.2 * s.fairness_score AS score,
+      row_number() OVER (
+        ORDER BY 0.35 * s.distance_score + 0.25 * s.capacity_score + 0.2 * s.category_score + 0.2 * s.fairness_score DESC,
+          s.distance_km ASC NULLS LAST,
+          s.id
+      ) AS rank
+    FROM scored s
+  )
+  INSERT INTO donation_matches (donation_id, shelter_id, shelter_name, rank, score, distance_km, reasons)
+  SELECT
+    p_donation_id,
+    r.id,
+    r.name,
+    r.rank,
+    round(r.score, 3),
+    round(r.distance_km, 1),
+    array_remove(ARRAY[
+      CASE WHEN r.distance_km IS NOT NULL THEN format('%s km away', round(r.distance_km, 1)) END,
+      CASE WHEN r.daily_capacity_kg IS NOT NULL AND r.capacity_score = 1 THEN 'Has room today' END,
+      CASE WHEN r.preferred THEN 'Wants this kind of food' END,
+      CASE WHEN r.intake_week_kg = 0 THEN 'Nothing received this week' END
+    ], NULL)
+  FROM ranked r
+  WHERE r.rank <= 10
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION match_donation_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The row may be gone or already taken by the time a deferred trigger fires
+  IF NOT EXISTS (SELECT 1 FROM donations WHERE id = NEW.id AND status = 'pending') THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM match_donation(NEW.id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.shelter_id END);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS donation_matching ON donations;
+CREATE CONSTRAINT TRIGGER donation_matching
+  AFTER INSERT ON donations
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION match_donation_on_change();
+
+-- Declined back to pending
+DROP TRIGGER IF EXISTS donation_rematching ON donations;
+CREATE TRIGGER donation_rematching
+  AFTER UPDATE OF status ON donations
+  FOR EACH ROW
+  WHEN (NEW.status = 'pending' AND OLD.status IS DISTINCT FROM 'pending')
+  EXECUTE FUNCTION match_donation_on_change();
+
+REVOKE EXECUTE ON FUNCTION match_donation(uuid, uuid) FROM PUBLIC, anon, authenticated;
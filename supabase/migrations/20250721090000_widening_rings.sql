@@ -0,0 +1,279 @@
+/*
+  # Staged Donation Offers
+
+  1. New Tables
+    - `donation_offer_tiers` - the rings a new donation is offered in, nearest first
+      - `tier` (integer, primary key)
+      - `radius_km` (numeric) - shelters this close to the pickup see the donation. NULL means every shelter.
+      - `minutes` (integer) - how long the donation stays in this tier before widening. NULL on the last tier.
+      - Seeded with 5 km for 15 minutes, 15 km for 15 minutes, 40 km for 30 minutes, then everyone.
+        Change the rows to tune the rollout.
+    - `donation_offer_events` - one row each time a donation's offer widens, with the radius before and after,
+      published to realtime so shelters the new ring takes in can be told. Realtime leaves the previous row
+      out of donation UPDATEs under RLS, so clients can't work that out from the donation alone.
+
+  2. Schema Updates
+    - `donations`
+      - `offer_tier`, `offer_radius_km`, `offer_widens_at` - where the donation is in the rollout.
+        A NULL radius means every shelter can see it.
+
+  3. Functions
+    - `next_offer_tier(p_point, p_from_tier)` - the first tier from `p_from_tier` on that reaches at least
+      one shelter, so empty rings are skipped. Donations without a map location go straight to the last tier.
+    - `offer_reaches_caller(p_point, p_radius_km)` - whether the calling shelter is inside the current ring
+    - `widen_donation_offers()` - moves pending donations whose tier has run out to the next one, every minute
+    - `require_donation_offered(p_donation_id)` - refuses a pending donation the calling shelter isn't offered yet
+      with SQLSTATE `PT403` and DETAIL `not_offered`
+    - `accept_donation` only accepts donations whose offer reaches the shelter, so knowing the id isn't enough
+
+  4. Security
+    - "Shelters can read pending donations" only shows pending donations whose offer reaches the shelter.
+      Shelters without a location see them once the offer is open to everyone.
+      Donors and volunteers keep seeing pending donations as before.
+    - Offer events are readable by anyone who can read the donation, and only written by `widen_donation_offers`
+*/
+
+CREATE TABLE IF NOT EXISTS donation_offer_tiers (
+  tier integer PRIMARY KEY CHECK (tier > 0),
+  radius_km numeric CHECK (radius_km > 0),
+  minutes integer CHECK (minutes > 0)
+);
+
+INSERT INTO donation_offer_tiers (tier, radius_km, minutes) VALUES
+  (1, 5, 15),
+  (2, 15, 15),
+  (3, 40, 30),
+  (4, NULL, NULL)
+ON CONFLICT (tier) DO NOTHING;
+
+ALTER TABLE donation_offer_tiers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read offer tiers" ON donation_offer_tiers;
+
+CREATE POLICY "Authenticated users can read offer tiers"
+  ON donation_offer_tiers
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'donations' AND column_name = 'offer_tier'
+  ) THEN
+    -- Existing donations are already open to everyone
+    ALTER TABLE donations ADD COLUMN offer_tier integer;
+    ALTER TABLE donations ADD COLUMN offer_radius_km numeric;
+    ALTER TABLE donations ADD COLUMN offer_widens_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_donations_offer_widens_at ON donations(offer_widens_at) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS donation_offer_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donation_id uuid NOT NULL REFERENCES donations(id) ON DELETE CASCADE,
+  tier integer NOT NULL,
+  radius_km numeric,
+  previous_radius_km numeric,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_offer_events_donation_id ON donation_offer_events(donation_id, created_at);
+
+CREATE OR REPLACE FUNCTION next_offer_tier(p_point geography, p_from_tier integer)
+RETURNS donation_offer_tiers
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.*
+  FROM donation_offer_tiers t
+  WHERE t.tier >= p_from_tier
+    AND (
+      t.radius_km IS NULL
+      OR (
+        p_point IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM profiles p
+          WHERE p.user_type = 'shelter'
+            AND ST_DWithin(p.location_point, p_point, t.radius_km * 1000)
+        )
+      )
+    )
+  ORDER BY t.tier
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION start_donation_offer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tier donation_offer_tiers%ROWTYPE;
+BEGIN
+  v_tier := next_offer_tier(NEW.pickup_point, 1);
+
+  NEW.offer_tier := v_tier.tier;
+  NEW.offer_radius_km := v_tier.radius_km;
+  NEW.offer_widens_at := now() + make_interval(mins => v_tier.minutes);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS donation_offer_start ON donations;
+CREATE TRIGGER donation_offer_start
+  BEFORE INSERT ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION start_donation_offer();
+
+CREATE OR REPLACE FUNCTION widen_donation_offers()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+  v_tier donation_offer_tiers%ROWTYPE;
+  v_widened integer := 0;
+BEGIN
+  FOR v_donation IN
+    SELECT * FROM donations
+    WHERE status = 'pending'
+      AND offer_widens_at <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_tier := next_offer_tier(v_donation.pickup_point, v_donation.offer_tier + 1);
+
+    -- NULL when the tiers were reconfigured under us, open the donation to everyone
+    UPDATE donations
+    SET offer_tier = COALESCE(v_tier.tier, offer_tier),
+        offer_radius_km = v_tier.radius_km,
+        offer_widens_at = now() + make_interval(mins => v_tier.minutes)
+    WHERE id = v_donation.id;
+
+    INSERT INTO donation_offer_events (donation_id, tier, radius_km, previous_radius_km)
+    VALUES (v_donation.id, COALESCE(v_tier.tier, v_donation.offer_tier), v_tier.radius_km, v_donation.offer_radius_km);
+
+    v_widened := v_widened + 1;
+  END LOOP;
+
+  RETURN v_widened;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION offer_reaches_caller(p_point geography, p_radius_km numeric)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_radius_km IS NULL
+    OR p_point IS NULL
+    OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = uid() AND user_type = 'shelter')
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = uid()
+        AND ST_DWithin(location_point, p_point, p_radius_km * 1000)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION require_donation_offered(p_donation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM donations
+    WHERE id = p_donation_id
+      AND status = 'pending'
+      AND NOT offer_reaches_caller(pickup_point, offer_radius_km)
+  ) THEN
+    RAISE EXCEPTION 'This donation hasn''t been offered to you yet' USING ERRCODE = 'PT403', DETAIL = 'not_offered';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_donation(p_donation_id uuid)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+BEGIN
+  PERFORM require_user_type('shelter');
+
+  UPDATE donations
+  SET status = 'accepted', shelter_id = auth.uid(), status_reason = NULL
+  WHERE id = p_donation_id
+    AND status = 'pending'
+    AND safe_until > now()
+    AND offer_reaches_caller(pickup_point, offer_radius_km)
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM require_donation_offered(p_donation_id);
+    PERFORM raise_donation_conflict(p_donation_id, 'accept');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Shelters can read pending donations" ON donations;
+
+CREATE POLICY "Shelters can read pending donations"
+  ON donations
+  FOR SELECT
+  TO authenticated
+  USING (
+    ((status = 'pending'::text) AND offer_reaches_caller(pickup_point, offer_radius_km)) OR
+    ((shelter_id IS NOT NULL) AND (shelter_id IN (
+      SELECT profiles.id FROM profiles
+      WHERE ((profiles.id = uid()) AND (profiles.user_type = 'shelter'::text))
+    )))
+  );
+
+ALTER TABLE donation_offer_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parties can read donation offer events" ON donation_offer_events;
+
+-- The donations policies decide who can see which donation
+CREATE POLICY "Parties can read donation offer events"
+  ON donation_offer_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM donations
+      WHERE donations.id = donation_offer_events.donation_id
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'donation_offer_events'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE donation_offer_events;
+  END IF;
+END $$;
+
+REVOKE EXECUTE ON FUNCTION widen_donation_offers() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION require_donation_offered(uuid) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'widen-donation-offers',
+  '* * * * *',
+  $$SELECT widen_donation_offers()$$
+);
@@ -0,0 +1,243 @@
+/*
+  # Fair Allocation Across Shelters
+
+  1. New Tables
+    - `allocation_policy` - one row of region-wide rules, all off by default (NULL)
+      - `daily_cap_kg`, `weekly_cap_kg` - how much a shelter can accept over the last 24 hours / 7 days
+      - `population_reference` - when set, the caps are for a shelter serving this many people and scale
+        with each shelter's `population_served` in `shelter_allocation_limits` (between half and four times the cap)
+      - `priority_minutes` - for this long after a donation is posted, only the `priority_shelters`
+        matched shelters that went longest without accepting anything may take it (round-robin)
+    - `shelter_allocation_limits` - per-shelter caps that replace the region-wide ones and aren't scaled,
+      and `population_served`, roughly how many people the shelter feeds a day
+    - Both are edited by operators, shelters can only read them. Population lives here rather than on the
+      profile so a shelter can't raise its own caps.
+
+  2. Functions
+    - `allocation_block(p_donation_id, p_shelter_id)` - why the shelter can't accept the donation right now
+      and when it can, or NULLs when it can
+    - `my_allocation_blocks(p_donation_ids)` - the same for the calling shelter over a page of donations
+    - `accept_donation` refuses blocked shelters with SQLSTATE `PT403`, DETAIL `ineligible` and the explanation
+      as the message
+
+  3. Notes
+    - A shelter that has accepted nothing in the window can always take one donation, however large
+    - Intake is counted like match_donation() does: accepted donations that weren't cancelled or expired,
+      weighed with quantity_kilograms()
+*/
+
+CREATE TABLE IF NOT EXISTS allocation_policy (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  daily_cap_kg numeric CHECK (daily_cap_kg > 0),
+  weekly_cap_kg numeric CHECK (weekly_cap_kg > 0),
+  population_reference integer CHECK (population_reference > 0),
+  priority_minutes integer CHECK (priority_minutes > 0),
+  priority_shelters integer NOT NULL DEFAULT 3 CHECK (priority_shelters > 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO allocation_policy (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS shelter_allocation_limits (
+  shelter_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  daily_cap_kg numeric CHECK (daily_cap_kg > 0),
+  weekly_cap_kg numeric CHECK (weekly_cap_kg > 0),
+  population_served integer CHECK (population_served > 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE allocation_policy ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shelter_allocation_limits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read the allocation policy" ON allocation_policy;
+DROP POLICY IF EXISTS "Shelters can read their own allocation limits" ON shelter_allocation_limits;
+
+CREATE POLICY "Authenticated users can read the allocation policy"
+  ON allocation_policy
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Shelters can read their own allocation limits"
+  ON shelter_allocation_limits
+  FOR SELECT
+  TO authenticated
+  USING (shelter_id = uid());
+
+-- When the shelter's intake over the window, less whatever has rolled out of it, leaves room for p_kg.
+-- NULL when it already does.
+CREATE OR REPLACE FUNCTION allocation_cap_frees_at(p_shelter_id uuid, p_window interval, p_cap_kg numeric, p_kg numeric)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH intake AS (
+    SELECT d.accepted_at, quantity_kilograms(d.quantity_amount, d.quantity_unit) AS kg
+    FROM donations d
+    WHERE d.shelter_id = p_shelter_id
+      AND d.accepted_at > now() - p_window
+      AND d.status NOT IN ('cancelled', 'expired')
+  ),
+  rolling AS (
+    SELECT
+      accepted_at,
+      (SELECT sum(kg) FROM intake) - sum(kg) OVER (ORDER BY accepted_at ROWS UNBOUNDED PRECEDING) AS remaining_kg
+    FROM intake
+  )
+  SELECT CASE
+    WHEN NOT EXISTS (SELECT 1 FROM intake) OR (SELECT sum(kg) FROM intake) + p_kg <= p_cap_kg THEN NULL
+    ELSE (
+      SELECT r.accepted_at + p_window
+      FROM rolling r
+      WHERE r.remaining_kg = 0 OR r.remaining_kg + p_kg <= p_cap_kg
+      ORDER BY r.accepted_at
+      LIMIT 1
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION allocation_block(
+  p_donation_id uuid,
+  p_shelter_id uuid,
+  OUT reason text,
+  OUT eligible_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy allocation_policy%ROWTYPE;
+  v_limits shelter_allocation_limits%ROWTYPE;
+  v_donation donations%ROWTYPE;
+  v_factor numeric := 1;
+  v_kg numeric;
+  v_daily_cap numeric;
+  v_weekly_cap numeric;
+  v_turn uuid[];
+BEGIN
+  SELECT * INTO v_donation FROM donations WHERE id = p_donation_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_policy FROM allocation_policy;
+  SELECT * INTO v_limits FROM shelter_allocation_limits WHERE shelter_id = p_shelter_id;
+
+  IF v_policy.population_reference IS NOT NULL AND v_limits.population_served IS NOT NULL THEN
+    v_factor := greatest(0.5, least(4, v_limits.population_served::numeric / v_policy.population_reference));
+  END IF;
+
+  v_kg := quantity_kilograms(v_donation.quantity_amount, v_donation.quantity_unit);
+  v_daily_cap := COALESCE(v_limits.daily_cap_kg, v_policy.daily_cap_kg * v_factor);
+  v_weekly_cap := COALESCE(v_limits.weekly_cap_kg, v_policy.weekly_cap_kg * v_factor);
+
+  IF v_weekly_cap IS NOT NULL THEN
+    eligible_at := allocation_cap_frees_at(p_shelter_id, interval '7 days', v_weekly_cap, v_kg);
+    IF eligible_at IS NOT NULL THEN
+      reason := format('You''ve reached your weekly limit of %s kg, so other shelters get a turn', round(v_weekly_cap));
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_daily_cap IS NOT NULL THEN
+    eligible_at := allocation_cap_frees_at(p_shelter_id, interval '1 day', v_daily_cap, v_kg);
+    IF eligible_at IS NOT NULL THEN
+      reason := format('You''ve reached your daily limit of %s kg, so other shelters get a turn', round(v_daily_cap));
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_policy.priority_minutes IS NULL
+    OR v_donation.created_at + make_interval(mins => v_policy.priority_minutes) <= now() THEN
+    RETURN;
+  END IF;
+
+  -- Round-robin: the matched shelters that went longest without accepting anything go first.
+  -- Only shelters the donation is currently offered to take part, so the window can't stall it.
+  SELECT array_agg(turn.shelter_id) INTO v_turn
+  FROM (
+    SELECT m.shelter_id
+    FROM donation_matches m
+    JOIN profiles p ON p.id = m.shelter_id
+    WHERE m.donation_id = p_donation_id
+      AND (
+        v_donation.offer_radius_km IS NULL
+        OR v_donation.pickup_point IS NULL
+        OR ST_DWithin(p.location_point, v_donation.pickup_point, v_donation.offer_radius_km * 1000)
+      )
+    ORDER BY (
+      SELECT max(d.accepted_at) FROM donations d
+      WHERE d.shelter_id = m.shelter_id AND d.status NOT IN ('cancelled', 'expired')
+    ) ASC NULLS FIRST, m.rank
+    LIMIT v_policy.priority_shelters
+  ) turn;
+
+  IF v_turn IS NOT NULL AND NOT p_shelter_id = ANY (v_turn) THEN
+    reason := 'Shelters that haven''t received food recently get first pick of this donation';
+    eligible_at := v_donation.created_at + make_interval(mins => v_policy.priority_minutes);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION my_allocation_blocks(p_donation_ids uuid[])
+RETURNS TABLE (donation_id uuid, reason text, eligible_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.id, b.reason, b.eligible_at
+  FROM donations d
+  CROSS JOIN LATERAL allocation_block(d.id, auth.uid()) b
+  WHERE d.id = ANY (p_donation_ids)
+    AND d.status = 'pending'
+    AND b.reason IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_donation(p_donation_id uuid)
+RETURNS donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation donations%ROWTYPE;
+  v_block record;
+BEGIN
+  PERFORM require_user_type('shelter');
+
+  -- One accept at a time per shelter, so two quick accepts can't both slip under a cap
+  PERFORM pg_advisory_xact_lock(hashtext('accept_donation:' || auth.uid()::text));
+
+  -- Outer rings would otherwise be told to wait their round-robin turn
+  PERFORM require_donation_offered(p_donation_id);
+
+  v_block := allocation_block(p_donation_id, auth.uid());
+  IF v_block.reason IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_block.reason
+      USING ERRCODE = 'PT403', DETAIL = 'ineligible', HINT = v_block.eligible_at::text;
+  END IF;
+
+  UPDATE donations
+  SET status = 'accepted', shelter_id = auth.uid(), status_reason = NULL
+  WHERE id = p_donation_id
+    AND status = 'pending'
+    AND safe_until > now()
+    AND offer_reaches_caller(pickup_point, offer_radius_km)
+  RETURNING * INTO v_donation;
+
+  IF NOT FOUND THEN
+    PERFORM require_donation_offered(p_donation_id);
+    PERFORM raise_donation_conflict(p_donation_id, 'accept');
+  END IF;
+
+  RETURN v_donation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION allocation_cap_frees_at(uuid, interval, numeric, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION allocation_block(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION my_allocation_blocks(uuid[]) TO authenticated;
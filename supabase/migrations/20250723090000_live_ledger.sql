@@ -0,0 +1,18 @@
+/*
+  # Realtime Donation Events
+
+  1. Realtime
+    - Publish `donation_events` so clients can react to status changes. Realtime leaves the previous row
+      out of donation UPDATEs under RLS, so an event's `old_status` is how a decline or release is told apart.
+    - Subscribers only receive events for donations they can read, through the existing events policy
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'donation_events'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE donation_events;
+  END IF;
+END $$;
@@ -0,0 +1,25 @@
+/*
+  # Route Drop-offs
+
+  1. Functions
+    - `route_dropoffs(p_donation_ids)` - name and location of the shelter on each of the given
+      donations the current user is volunteering on, so pickup routes can end at the shelters
+      without the volunteer reading shelter profiles
+*/
+
+CREATE OR REPLACE FUNCTION route_dropoffs(p_donation_ids uuid[])
+RETURNS TABLE (id uuid, name text, location_label text, location_lat double precision, location_lng double precision)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT p.id, p.name, p.location_label, p.location_lat, p.location_lng
+  FROM donations d
+  JOIN profiles p ON p.id = d.shelter_id
+  WHERE d.id = ANY (p_donation_ids)
+    AND d.volunteer_id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION route_dropoffs(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION route_dropoffs(uuid[]) TO authenticated;